@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { HarmonicAnalyzer, Chord as HarmonicChord } from "../music/HarmonicAnalyzer";
+import { ParsedMIDI } from "../input/MIDIParser";
+import { Note } from "../types";
+
+const note = (pitch: number, startTime: number, duration: number = 500): Note => ({
+  pitch,
+  velocity: 80,
+  startTime,
+  duration,
+});
+
+// 120 BPM: C major held for a bar, then G major. Downbeats are chord tones, off-beats are not
+const melody = [
+  note(60, 0),
+  note(62, 250, 250),
+  note(64, 500),
+  note(65, 750, 250),
+  note(67, 2000),
+  note(69, 2250, 250),
+  note(71, 2500),
+  note(72, 2750, 250),
+];
+const harmony = [
+  note(48, 0, 2000),
+  note(52, 0, 2000),
+  note(55, 0, 2000),
+  note(43, 2000, 2000),
+  note(47, 2000, 2000),
+  note(50, 2000, 2000),
+];
+
+const scaleMelody = ["C4", "D4", "E4", "F4", "G4", "A4", "B4", "C5", "B4", "A4", "G4", "F4"];
+
+describe("Melody over a chord progression", () => {
+  let chain: MusicMarkovChain;
+  const analyzer = new HarmonicAnalyzer();
+
+  // Pitch classes of the chord sounding at each note onset (one bar of 2000ms per chord)
+  const chordTonesAt = (numerals: string[], startTime: number): number[] =>
+    analyzer.parseRomanNumeral(numerals[Math.floor(startTime / 2000)], "C").pitchClasses;
+
+  beforeEach(() => {
+    chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 12 });
+    chain.setKey("C");
+    chain.trainWithMusic([scaleMelody, [...scaleMelody].reverse()], [scaleMelody.map(() => "8")]);
+  });
+
+  it("should learn chord-tone rates per metric position", () => {
+    chain.learnChordTones([melody], [harmony], 120);
+
+    // Smoothed towards the prior of 0.75, weighted as 4 notes
+    expect(chain.getChordToneRate("D")).toBeCloseTo((2 + 3) / (2 + 4));
+    expect(chain.getChordToneRate("B")).toBeCloseTo((2 + 3) / (2 + 4));
+    expect(chain.getChordToneRate("O")).toBeCloseTo((0 + 3) / (4 + 4));
+    expect(chain.getChordToneRate()).toBeCloseTo((4 + 3) / (8 + 4));
+  });
+
+  it("should only play chord tones in mask mode", () => {
+    const numerals = ["vi", "IV", "I", "V"];
+    const sequence = chain.generateOverProgression(numerals, "mask");
+
+    expect(sequence.duration).toBeCloseTo(4 * 2000);
+    expect(sequence.notes.length).toBeGreaterThan(4);
+    for (const generated of sequence.notes) {
+      expect(chordTonesAt(numerals, generated.startTime)).toContain(generated.pitch % 12);
+    }
+  });
+
+  it("should favour chord tones by the learned rate in bias mode", () => {
+    // Every step between two scale notes is a learned transition
+    const leaps = scaleMelody
+      .slice(0, 7)
+      .flatMap((from) => scaleMelody.slice(0, 7).flatMap((to) => [from, to]));
+    chain.trainWithMusic([leaps], [leaps.map(() => "4")]);
+
+    const numerals = ["I", "vi", "ii", "V", "I", "IV", "V", "I"];
+    const chordToneShare = (learnedPitches: number[]) => {
+      // Quarter notes over a held C major chord
+      const learned = learnedPitches.map((pitch, index) => note(pitch, index * 500));
+      chain.learnChordTones(
+        [learned],
+        [[note(48, 0, 8000), note(52, 0, 8000), note(55, 0, 8000)]],
+        120
+      );
+      chain.setSeed(21);
+
+      const sequence = chain.generateOverProgression(numerals, "bias");
+      return (
+        sequence.notes.filter((generated) =>
+          chordTonesAt(numerals, generated.startTime).includes(generated.pitch % 12)
+        ).length / sequence.notes.length
+      );
+    };
+
+    const chordToneMelody = [60, 64, 67, 64, 60, 67, 72, 67, 64, 60, 64, 67, 72, 67, 64, 60];
+    const passingToneMelody = [62, 65, 69, 71, 62, 65, 69, 71, 62, 65, 69, 71, 62, 65, 69, 71];
+    expect(chordToneShare(chordToneMelody)).toBeGreaterThan(0.8);
+    expect(chordToneShare(passingToneMelody)).toBeLessThan(0.4);
+  });
+
+  it("should place HarmonicAnalyzer chords by their times", () => {
+    const chords: HarmonicChord[] = [
+      { root: "A", quality: "minor", notes: ["A", "C", "E"], startTime: 0, duration: 1000 },
+      { root: "F", quality: "major", notes: ["F", "A", "C"], startTime: 1000, duration: 1000 },
+    ].map((chord) => ({ ...chord, confidence: 1 }) as HarmonicChord);
+
+    const sequence = chain.generateOverProgression(chords, "mask");
+    expect(sequence.duration).toBeCloseTo(2000);
+    for (const generated of sequence.notes) {
+      const chord = generated.startTime < 1000 ? [9, 0, 4] : [5, 9, 0];
+      expect(chord).toContain(generated.pitch % 12);
+    }
+  });
+
+  it("should learn from co-occurring MIDI tracks and keep the rates when serialized", () => {
+    const midi: ParsedMIDI = {
+      tracks: [
+        { name: "Melody", channel: 0, isDrumTrack: false, notes: melody },
+        { name: "Piano", channel: 1, isDrumTrack: false, notes: harmony },
+        { name: "Drums", channel: 9, isDrumTrack: true, notes: [note(36, 250), note(38, 250)] },
+      ],
+      duration: 4000,
+      timeSignature: "4/4",
+      keySignature: "C major",
+      tempo: 120,
+    };
+    chain.learnChordTonesFromMIDI(midi, 0);
+    const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain.toJSON()));
+
+    expect(restored.getChordToneRate("O")).toBeCloseTo(chain.getChordToneRate("O"));
+    expect(restored.getChordToneRate("O")).toBeLessThan(restored.getChordToneRate("D"));
+    expect(() => chain.learnChordTonesFromMIDI(midi, 5)).toThrow("MIDI track 5 does not exist");
+  });
+
+  it("should reject unsupported modes and representations", () => {
+    expect(() => chain.generateOverProgression(["I"], "loose" as "bias")).toThrow(
+      "Unsupported chord tone mode: loose"
+    );
+    expect(() => chain.generateOverProgression([])).toThrow("Chord progression must not be empty");
+
+    chain.setPitchRepresentation("interval");
+    chain.trainWithMusic([scaleMelody], []);
+    expect(() => chain.generateOverProgression(["I"])).toThrow(
+      "Generating over a chord progression needs absolute or degree pitches"
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ChordProgressionChain } from "../music/ChordProgressionChain";
+import { HarmonicAnalyzer } from "../music/HarmonicAnalyzer";
+import { Note } from "../types";
+
+const toNotes = (pitches: number[]): Note[] =>
+  pitches.map((pitch) => ({ pitch, velocity: 80, startTime: 0, duration: 1000 }));
+
+describe("Roman numerals", () => {
+  const analyzer = new HarmonicAnalyzer();
+
+  it("should name chords by scale degree and quality", () => {
+    const progression = analyzer.analyzeProgression(
+      [
+        toNotes([60, 64, 67]), // C
+        toNotes([57, 60, 64]), // Am
+        toNotes([62, 65, 69, 72]), // Dm7
+        toNotes([55, 59, 62, 65]), // G7
+        toNotes([59, 62, 65]), // B diminished
+        toNotes([58, 62, 65]), // Bb
+        toNotes([60]), // Not a chord
+      ],
+      "C major"
+    );
+
+    expect(progression.romanNumerals).toEqual(["I", "vi", "ii7", "V7", "vii°", "bVII"]);
+    expect(progression.chords).toHaveLength(6);
+  });
+
+  it("should name chords relative to minor keys", () => {
+    const chord = analyzer.identifyChord(toNotes([64, 68, 71]))!; // E major
+    expect(analyzer.toRomanNumeral(chord, "A minor")).toBe("V");
+    expect(analyzer.toRomanNumeral(chord, "E")).toBe("I");
+  });
+
+  it("should parse numerals in any key", () => {
+    expect(analyzer.parseRomanNumeral("V7", "D major")).toEqual({
+      root: 9,
+      quality: "dominant7",
+      pitchClasses: [9, 1, 4, 7],
+    });
+    expect(analyzer.parseRomanNumeral("iv", "A minor").pitchClasses).toEqual([2, 5, 9]);
+    expect(analyzer.parseRomanNumeral("bVI", "C").root).toBe(8);
+    expect(() => analyzer.parseRomanNumeral("IX", "C")).toThrow("Invalid Roman numeral: IX");
+    expect(() => analyzer.parseRomanNumeral("I", "H major")).toThrow("Unsupported key: H major");
+  });
+});
+
+describe("ChordProgressionChain", () => {
+  let chain: ChordProgressionChain;
+
+  beforeEach(() => {
+    chain = new ChordProgressionChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 4 });
+  });
+
+  it("should learn the same numerals from progressions in different keys", () => {
+    chain.trainWithChords([
+      ["C4+E4+G4", "A3+C4+E4", "F3+A3+C4", "G3+B3+D4+F4"],
+      ["G3+B3+D4", "E3+G3+B3", "C4+E4+G4", "D4+F#4+A4+C5"],
+    ]);
+
+    expect(chain.getTransitionCounts("I")).toEqual(new Map([["vi", 2]]));
+    expect(chain.getTransitionCounts("IV")).toEqual(new Map([["V7", 2]]));
+  });
+
+  it("should read chord ids spelled with flats", () => {
+    chain.trainWithChords([["Bb3+D4+F4", "Eb4+G4+Bb4", "F3+A3+C4+Eb4", "Bb3+D4+F4"]]);
+    expect(chain.getTransitionCounts("IV")).toEqual(new Map([["V7", 1]]));
+  });
+
+  it("should generate progressions from learned numerals", () => {
+    chain.trainWithNumerals([["I", "vi", "IV", "V7", "I", "ii", "V", "I"]]);
+
+    const progression = chain.generateProgression(12);
+    expect(progression).toHaveLength(12);
+    for (const numeral of progression) {
+      expect(["I", "vi", "IV", "V7", "ii", "V"]).toContain(numeral);
+    }
+  });
+
+  it("should realize numerals as voiced chords in any key", () => {
+    const chords = chain.realize(["I", "IV", "V7", "I"], "D major", 1000);
+
+    expect(chords.map((chord) => chord.startTime)).toEqual([0, 1000, 2000, 3000]);
+    // Root in the bass
+    expect(chords.map((chord) => chord.notes[0].pitch % 12)).toEqual([2, 7, 9, 2]);
+    expect(
+      chords[2].notes
+        .slice(1)
+        .map((note) => note.pitch % 12)
+        .sort()
+    ).toEqual([1, 4, 7, 9]);
+    expect(chords[0].id).toBe("D3+D4+F#4+A4");
+
+    // Upper voices move by small steps between chords
+    for (let i = 1; i < chords.length; i++) {
+      const previous = chords[i - 1].notes.slice(1).map((note) => note.pitch);
+      for (const note of chords[i].notes.slice(1)) {
+        const motion = Math.min(...previous.map((pitch) => Math.abs(pitch - note.pitch)));
+        expect(motion).toBeLessThanOrEqual(2);
+      }
+    }
+  });
+
+  it("should generate a polyphonic sequence and survive serialization", () => {
+    chain.trainWithNumerals([["I", "IV", "V", "I"]]);
+    const restored = ChordProgressionChain.fromJSON(JSON.stringify(chain.toJSON()));
+
+    const sequence = restored.generatePolyphonicSequence(4, "Eb major", 500);
+    expect(sequence.key).toBe("Eb major");
+    expect(sequence.duration).toBe(2000);
+    expect(sequence.chords).toHaveLength(4);
+    expect(sequence.chords[0].id.split("+")).toHaveLength(4);
+  });
+
+  it("should reject invalid numerals", () => {
+    expect(() => chain.trainWithNumerals([["I", "Q"]])).toThrow("Invalid Roman numeral: Q");
+  });
+});
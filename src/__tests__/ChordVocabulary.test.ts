@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { HarmonicAnalyzer } from "../music/HarmonicAnalyzer";
+import { Note } from "../types";
+
+const toNotes = (pitches: number[]): Note[] =>
+  pitches.map((pitch) => ({ pitch, velocity: 80, startTime: 0, duration: 1000 }));
+
+describe("Chord vocabulary", () => {
+  const analyzer = new HarmonicAnalyzer();
+  const symbolOf = (pitches: number[]) =>
+    analyzer.toChordSymbol(analyzer.identifyChord(toNotes(pitches))!);
+
+  it("should recognize sixths, ninths, elevenths and half-diminished chords", () => {
+    expect(symbolOf([48, 52, 55, 59, 62])).toBe("Cmaj9");
+    expect(symbolOf([50, 53, 57, 60, 64])).toBe("Dm9");
+    expect(symbolOf([43, 47, 50, 53, 57])).toBe("G9");
+    expect(symbolOf([48, 55, 58, 62, 65])).toBe("C11");
+    expect(symbolOf([45, 48, 52, 55, 59, 62])).toBe("Am11");
+    expect(symbolOf([47, 50, 53, 57])).toBe("Bm7b5");
+    expect(symbolOf([48, 52, 55, 57])).toBe("C6");
+    expect(symbolOf([48, 51, 55, 57])).toBe("Cm6");
+    expect(symbolOf([48, 52, 55, 62])).toBe("Cadd9");
+    expect(symbolOf([48, 55, 60, 64])).toBe("C");
+  });
+
+  it("should use the bass to tell chords with the same notes apart", () => {
+    // A, C, E and G are both Am7 and C6
+    expect(symbolOf([45, 60, 64, 67])).toBe("Am7");
+    expect(symbolOf([48, 57, 64, 67])).toBe("C6");
+  });
+
+  it("should report inversions and slash chords", () => {
+    const firstInversion = analyzer.identifyChord(toNotes([52, 55, 60]))!;
+    expect(firstInversion).toMatchObject({ root: "C", quality: "major", bass: "E", inversion: 1 });
+    expect(analyzer.toChordSymbol(firstInversion)).toBe("C/E");
+
+    const seventhInBass = analyzer.identifyChord(toNotes([53, 55, 59, 62]))!;
+    expect(seventhInBass).toMatchObject({ root: "G", quality: "dominant7", inversion: 3 });
+    expect(analyzer.toChordSymbol(seventhInBass)).toBe("G7/F");
+
+    expect(symbolOf([52, 60, 67, 71, 74])).toBe("Cmaj9/E");
+
+    // A bass outside the chord
+    const pedal = analyzer.identifyChord(toNotes([42, 60, 64, 67]))!;
+    expect(analyzer.toChordSymbol(pedal)).toBe("C/F#");
+    expect(pedal.inversion).toBeUndefined();
+  });
+
+  it("should name the new qualities as Roman numerals and parse them back", () => {
+    const chord = analyzer.identifyChord(toNotes([50, 53, 56, 60]))!; // D half-diminished
+    expect(analyzer.toRomanNumeral(chord, "C minor")).toBe("iiø7");
+    expect(analyzer.parseRomanNumeral("iiø7", "C minor").quality).toBe("halfDiminished7");
+    expect(analyzer.parseRomanNumeral("viio7", "C major")).toEqual({
+      root: 11,
+      quality: "diminished7",
+      pitchClasses: [11, 2, 5, 8],
+    });
+    expect(analyzer.parseRomanNumeral("Imaj9", "C major").pitchClasses).toEqual([0, 4, 7, 11, 2]);
+  });
+
+  it("should accept user-registered qualities", () => {
+    const custom = new HarmonicAnalyzer();
+    custom.registerChordQuality("dominant7sharp9", {
+      intervals: [0, 4, 7, 10, 15],
+      symbol: "7#9",
+      numeral: { upper: true, suffix: "7#9" },
+    });
+
+    expect(custom.getChordQualities()).toContain("dominant7sharp9");
+    const chord = custom.identifyChord(toNotes([40, 44, 47, 50, 55]))!;
+    expect(custom.toChordSymbol(chord)).toBe("E7#9");
+    expect(custom.toRomanNumeral(chord, "A minor")).toBe("V7#9");
+    expect(custom.parseRomanNumeral("V7#9", "A minor").pitchClasses).toEqual([4, 8, 11, 2, 7]);
+
+    // Other analyzers keep the built-in vocabulary
+    expect(analyzer.getChordQualities()).not.toContain("dominant7sharp9");
+  });
+
+  it("should reject invalid templates", () => {
+    const custom = new HarmonicAnalyzer();
+    expect(() => custom.registerChordQuality("", { intervals: [0, 4], symbol: "" })).toThrow(
+      "Chord quality name must not be empty"
+    );
+    expect(() => custom.registerChordQuality("broken", { intervals: [4, 7], symbol: "x" })).toThrow(
+      "Chord quality broken needs distinct whole-semitone intervals starting with the root (0)"
+    );
+    expect(() =>
+      custom.registerChordQuality("sixNine", { intervals: [0, 4, 7, 9], symbol: "6" })
+    ).toThrow("Chord quality sixNine has the same Roman numeral form as major6");
+    expect(() =>
+      analyzer.toChordSymbol({ ...analyzer.identifyChord(toNotes([60, 64, 67]))!, quality: "x" })
+    ).toThrow("Unknown chord quality: x");
+  });
+});
@@ -126,6 +126,116 @@ describe("ComplexityAnalysis", () => {
       expect(recommendation.order).toBeGreaterThan(0);
       expect(recommendation.reasoning).toBeDefined();
     });
+
+    it("should recommend the order that predicts held-out sequences best", () => {
+      // After A comes B or C, decided by the element before A
+      const pattern = ["A", "B", "A", "C"];
+      const sequences = [0, 1, 2, 3, 0, 1].map((offset) =>
+        Array.from({ length: 16 }, (_, index) => pattern[(index + offset) % 4])
+      );
+
+      const recommendation = complexityAnalysis.recommendOptimalOrder(sequences, {
+        orders: [1, 2, 3],
+        folds: 3,
+      });
+      expect(recommendation.order).toBe(2);
+      expect(recommendation.reasoning).toContain("held-out perplexity");
+      expect(recommendation.expectedImprovement).toBeGreaterThan(0);
+
+      const limited = complexityAnalysis.recommendOptimalOrder(sequences, {
+        orders: [1],
+        folds: 2,
+      });
+      expect(limited.order).toBe(1);
+    });
+
+    it("should only cross-validate when asked to", () => {
+      const sequences = [
+        ["A", "B", "A", "C"],
+        ["A", "C", "A", "B"],
+      ];
+
+      const recommendation = complexityAnalysis.recommendOptimalOrder(sequences);
+      expect(recommendation.reasoning).not.toContain("held-out perplexity");
+    });
+  });
+
+  describe("crossValidateOrder", () => {
+    const pattern = ["A", "B", "A", "C"];
+    const sequences = [0, 1, 2, 3, 0, 1].map((offset) =>
+      Array.from({ length: 16 }, (_, index) => pattern[(index + offset) % 4])
+    );
+
+    it("should rank every order and smoothing by held-out perplexity", () => {
+      const selection = complexityAnalysis.crossValidateOrder(sequences, {
+        orders: [1, 2, 3],
+        smoothingValues: [0.01, 0.5],
+        folds: 3,
+      });
+
+      expect(selection.folds).toBe(3);
+      expect(selection.results).toHaveLength(6);
+      expect(selection.best).toEqual({ smoothingMethod: "additive", order: 2, smoothing: 0.01 });
+      expect(selection.results[0]).toMatchObject({ order: 2, smoothing: 0.01 });
+      expect(selection.results[0].perplexity).toBeCloseTo(1, 2);
+      const orderOne = selection.results.find((r) => r.order === 1 && r.smoothing === 0.01)!;
+      expect(orderOne.perplexity).toBeCloseTo(Math.sqrt(2), 2);
+      for (let i = 1; i < selection.results.length; i++) {
+        expect(selection.results[i].perplexity).toBeGreaterThanOrEqual(
+          selection.results[i - 1].perplexity
+        );
+      }
+    });
+
+    it("should cut a single long sequence into folds and keep the base config", () => {
+      const long = Array.from({ length: 64 }, (_, index) => pattern[index % 4]);
+      const selection = complexityAnalysis.crossValidateOrder([long], {
+        orders: [1, 2],
+        smoothingValues: [0.1],
+        baseConfig: { temperature: 0.8 },
+      });
+
+      expect(selection.folds).toBe(5);
+      expect(selection.best).toEqual({
+        temperature: 0.8,
+        smoothingMethod: "additive",
+        order: 2,
+        smoothing: 0.1,
+      });
+    });
+
+    it("should score tokens the training folds never contain", () => {
+      const selection = complexityAnalysis.crossValidateOrder(
+        [
+          ["A", "B", "A", "B"],
+          ["C", "D", "C", "D"],
+        ],
+        { orders: [1], smoothingValues: [0.1], folds: 2 }
+      );
+
+      // Unseen contexts spread probability evenly over all four tokens
+      expect(selection.results[0].perplexity).toBeCloseTo(4);
+    });
+
+    it("should reject unusable settings", () => {
+      expect(() => complexityAnalysis.crossValidateOrder([["A", "B"]], { folds: 1 })).toThrow(
+        "Cross-validation needs at least 2 folds"
+      );
+      expect(() => complexityAnalysis.crossValidateOrder(sequences, { orders: [0] })).toThrow(
+        "Orders must be positive whole numbers"
+      );
+      expect(() =>
+        complexityAnalysis.crossValidateOrder(sequences, { smoothingValues: [0] })
+      ).toThrow("Smoothing values must be greater than 0");
+      expect(() =>
+        complexityAnalysis.crossValidateOrder(sequences, {
+          baseConfig: { smoothingMethod: "observed" },
+        })
+      ).toThrow("smoothing method that covers the vocabulary");
+      expect(() => complexityAnalysis.crossValidateOrder([["A"]])).toThrow(
+        "Cross-validation needs at least 2 sequences"
+      );
+    });
   });
 
   describe("profileMemoryUsage", () => {
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { MarkovChain } from "../core/MarkovChain";
+
+describe("MarkovChain constrained generation", () => {
+  const melodies = [
+    ["C4", "D4", "E4", "G4", "E4", "D4", "C4"],
+    ["C4", "E4", "G4", "A4", "G4", "E4", "C4"],
+    ["D4", "E4", "F4", "G4", "F4", "E4", "D4"],
+  ];
+
+  it("should place pinned elements at their positions", () => {
+    const chain = new MarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 3 });
+    chain.train(melodies);
+
+    for (let run = 0; run < 20; run++) {
+      const sequence = chain.generateConstrained(8, { 0: "C4", 3: "G4", [-1]: "C4" });
+      expect(sequence).toHaveLength(8);
+      expect(sequence[0]).toBe("C4");
+      expect(sequence[3]).toBe("G4");
+      expect(sequence[7]).toBe("C4");
+    }
+  });
+
+  it("should accept a set of allowed elements at a position", () => {
+    const chain = new MarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 8 });
+    chain.train(melodies);
+
+    for (let run = 0; run < 20; run++) {
+      const sequence = chain.generateConstrained(4, { 1: ["F4", "G4"] }, ["E4"]);
+      expect(["F4", "G4"]).toContain(sequence[1]);
+    }
+  });
+
+  it("should sample from the exact conditional distribution", () => {
+    // From A: 50% A, 50% B. From B: always A. Conditioning on ending at B after 3 steps
+    // leaves A A B (p = 1/8) and B A B (p = 1/4), so B A B should be twice as likely
+    const chain = new MarkovChain({ order: 1, smoothing: 0, temperature: 1.0, seed: 11 });
+    chain.train([["A", "A", "B", "A", "B", "A", "A"]]);
+    expect(chain.getTransitionCounts("A")).toEqual(
+      new Map([
+        ["A", 2],
+        ["B", 2],
+      ])
+    );
+
+    const frequencies = new Map<string, number>();
+    const runs = 3000;
+    for (let run = 0; run < runs; run++) {
+      const sequence = chain.generateConstrained(3, { 2: "B" }, ["A"]).join(" ");
+      frequencies.set(sequence, (frequencies.get(sequence) || 0) + 1);
+    }
+
+    expect([...frequencies.keys()].sort()).toEqual(["A A B", "B A B"]);
+    expect((frequencies.get("B A B") || 0) / runs).toBeCloseTo(2 / 3, 1);
+  });
+
+  it("should work with variable-order back-off", () => {
+    const chain = new MarkovChain({
+      order: 2,
+      smoothing: 0,
+      temperature: 1.0,
+      variableOrder: true,
+      seed: 5,
+    });
+    chain.train(melodies);
+
+    const sequence = chain.generateConstrained(6, { 0: "E4", 5: "A4" }, ["C4"]);
+    expect(sequence[0]).toBe("E4");
+    expect(sequence[5]).toBe("A4");
+  });
+
+  it("should throw a clear error when the constraints cannot be met", () => {
+    const chain = new MarkovChain({ order: 1, smoothing: 0, temperature: 1.0, seed: 1 });
+    chain.train([["C4", "D4", "E4"]]);
+
+    // D4 is only ever followed by E4
+    expect(() => chain.generateConstrained(3, { 0: "D4", 1: "C4" }, ["C4"])).toThrow(
+      "Constraints cannot be satisfied"
+    );
+    expect(() => chain.generateConstrained(2, { 0: "B9" }, ["C4"])).toThrow(
+      "Constraints cannot be satisfied"
+    );
+    expect(() => chain.generateConstrained(2, { 5: "C4" })).toThrow(
+      "Constraint position 5 is outside a sequence of length 2"
+    );
+    expect(() => chain.generateConstrained(2, { 1: "C4", [-1]: "D4" })).toThrow(
+      "Conflicting constraints at position 1"
+    );
+  });
+});
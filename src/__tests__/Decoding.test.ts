@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { MarkovChain } from "../core/MarkovChain";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { DecodingOptions } from "../types";
+
+describe("Decoding strategies", () => {
+  // A -> B 50%, C 30%, D 20%; every other element leads back to A
+  const training = [
+    ["B", "B", "B", "B", "B", "C", "C", "C", "D", "D"].flatMap((element) => ["A", element]),
+  ];
+
+  const createChain = (decoding?: DecodingOptions) => {
+    const chain = new MarkovChain({ order: 1, smoothing: 0, seed: 11, decoding });
+    chain.train(training);
+    return chain;
+  };
+
+  const sampledAfterA = (chain: MarkovChain) =>
+    new Set(Array.from({ length: 200 }, () => chain.generate(1, ["A"])[0]));
+
+  it("should always take the most probable element when greedy", () => {
+    expect(createChain({ strategy: "greedy" }).generate(6, ["A"])).toEqual([
+      "B",
+      "A",
+      "B",
+      "A",
+      "B",
+      "A",
+    ]);
+  });
+
+  it("should sample only the k most probable elements with top-k", () => {
+    const chain = createChain({ topK: 2 });
+    const { steps } = chain.generateWithSteps(1, ["A"]);
+
+    const available = steps[0].availableTransitions;
+    expect(available.map((transition) => transition.element)).toEqual(["B", "C"]);
+    expect(available[0].probability).toBeCloseTo(5 / 8);
+    expect(available[1].probability).toBeCloseTo(3 / 8);
+    expect(sampledAfterA(chain)).toEqual(new Set(["B", "C"]));
+  });
+
+  it("should keep the smallest nucleus reaching top-p", () => {
+    expect(sampledAfterA(createChain({ topP: 0.6 }))).toEqual(new Set(["B", "C"]));
+    expect(sampledAfterA(createChain({ topP: 0.5 }))).toEqual(new Set(["B"]));
+    expect(sampledAfterA(createChain({ topP: 1 }))).toEqual(new Set(["B", "C", "D"]));
+  });
+
+  it("should drop elements below the minimum probability", () => {
+    expect(sampledAfterA(createChain({ minProbability: 0.25 }))).toEqual(new Set(["B", "C"]));
+    // The most probable element survives any cutoff
+    expect(sampledAfterA(createChain({ minProbability: 1 }))).toEqual(new Set(["B"]));
+  });
+
+  it("should switch strategies on a trained chain", () => {
+    const chain = createChain();
+    chain.setDecoding({ strategy: "greedy" });
+    expect(sampledAfterA(chain)).toEqual(new Set(["B"]));
+
+    chain.setDecoding();
+    expect(chain.getConfig().decoding).toBeUndefined();
+    expect(sampledAfterA(chain)).toEqual(new Set(["B", "C", "D"]));
+  });
+
+  it("should return the most probable sequences with beam search", () => {
+    const results = createChain().beamSearch(3, 2, ["A"]);
+
+    expect(results.map((result) => result.sequence)).toEqual([
+      ["B", "A", "B"],
+      ["B", "A", "C"],
+    ]);
+    expect(results[0].logProbability).toBeCloseTo(Math.log(0.25));
+    expect(results[1].logProbability).toBeCloseTo(Math.log(0.15));
+  });
+
+  it("should keep decoding options through serialization", () => {
+    const restored = MarkovChain.fromJSON(JSON.stringify(createChain({ topK: 1 })));
+
+    expect(restored.getConfig().decoding).toEqual({ topK: 1 });
+    expect(restored.generate(4, ["A"])).toEqual(["B", "A", "B", "A"]);
+  });
+
+  it("should reject invalid options", () => {
+    expect(() => createChain({ topK: 0 })).toThrow("topK must be a positive integer");
+    expect(() => createChain({ topP: 0 })).toThrow("topP must be greater than 0");
+    expect(() => createChain({ minProbability: 2 })).toThrow("minProbability must be between");
+    expect(() => createChain({ strategy: "random" as DecodingOptions["strategy"] })).toThrow(
+      "Unsupported decoding strategy: random"
+    );
+    expect(() => createChain().beamSearch(4, 0, ["A"])).toThrow("Beam width");
+  });
+
+  it("should leave rhythm and velocity sampling alone when decoding the note chain", () => {
+    const createMusicChain = (decoding?: DecodingOptions) => {
+      const chain = new MusicMarkovChain({ order: 1, smoothing: 0, seed: 9, decoding });
+      chain.trainWithMusic(
+        [["C4", "E4", "G4", "E4", "C4", "D4", "E4"]],
+        [["4", "8", "8", "2", "4", "8", "8"]],
+        [["60", "90", "70", "100", "50", "80", "110"]]
+      );
+      return chain;
+    };
+    const plain = createMusicChain();
+    const greedy = createMusicChain({ strategy: "greedy" });
+    const decodedLater = createMusicChain();
+    decodedLater.setDecoding({ strategy: "greedy" });
+
+    for (const chain of [greedy, decodedLater]) {
+      expect(chain.getRhythmChain().getConfig().decoding).toBeUndefined();
+      expect(chain.getVelocityChain().getConfig().decoding).toBeUndefined();
+    }
+    const plainRhythm = plain.getRhythmChain().generate(32);
+    expect(greedy.getRhythmChain().generate(32)).toEqual(plainRhythm);
+    expect(decodedLater.getRhythmChain().generate(32)).toEqual(plainRhythm);
+    expect(new Set(plainRhythm).size).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { Midi } from "@tonejs/midi";
+import { DrumMarkovChain } from "../music/DrumMarkovChain";
+import { MIDIParser, ParsedMIDI } from "../input/MIDIParser";
+import { MIDIGenerator } from "../music/MIDIGenerator";
+import {
+  DRUM_CHANNEL,
+  drumHitsToToken,
+  drumNameForPitch,
+  drumTokenToHits,
+  pitchForDrumToken,
+} from "../music/DrumMap";
+import { Note } from "../types";
+
+// 120 BPM: a sixteenth note lasts 125ms
+const SIXTEENTH = 125;
+
+const hit = (pitch: number, step: number): Note => ({
+  pitch,
+  velocity: 100,
+  duration: SIXTEENTH,
+  startTime: step * SIXTEENTH,
+  channel: DRUM_CHANNEL,
+});
+
+// Two bars of a basic rock beat: hats on eighths, kick on 1 and 3, snare on 2 and 4
+const rockBeat: Note[] = [];
+for (let bar = 0; bar < 2; bar++) {
+  const offset = bar * 16;
+  for (let step = 0; step < 16; step += 2) rockBeat.push(hit(42, offset + step));
+  rockBeat.push(hit(36, offset), hit(36, offset + 8), hit(38, offset + 4), hit(38, offset + 12));
+}
+
+const midi: ParsedMIDI = {
+  tracks: [
+    {
+      name: "Drums",
+      channel: DRUM_CHANNEL,
+      isDrumTrack: true,
+      notes: rockBeat,
+    },
+    {
+      name: "Piano",
+      channel: 0,
+      isDrumTrack: false,
+      notes: [{ pitch: 60, velocity: 80, duration: 500, startTime: 0, channel: 0 }],
+    },
+  ],
+  duration: 4000,
+  timeSignature: "4/4",
+  keySignature: "C major",
+  tempo: 120,
+};
+
+describe("Drum map", () => {
+  it("should name General MIDI percussion keys", () => {
+    expect(drumNameForPitch(36)).toBe("Bass Drum 1");
+    expect(drumNameForPitch(42)).toBe("Closed Hi-Hat");
+    expect(drumNameForPitch(99)).toBe("Percussion 99");
+  });
+
+  it("should build and split step tokens", () => {
+    expect(drumHitsToToken([42, 36])).toBe("K+HH");
+    expect(drumHitsToToken([])).toBe("-");
+    expect(drumTokenToHits("K+HH")).toEqual(["K", "HH"]);
+    expect(drumTokenToHits("-")).toEqual([]);
+    expect(pitchForDrumToken("K")).toBe(36);
+    expect(pitchForDrumToken("HH")).toBe(42);
+    expect(pitchForDrumToken("N99")).toBe(99);
+    expect(pitchForDrumToken("??")).toBeNull();
+  });
+});
+
+describe("DrumMarkovChain", () => {
+  const parser = new MIDIParser();
+
+  it("should extract drum tracks as step grids", () => {
+    const sequences = parser.extractDrumSequences(midi);
+
+    expect(sequences).toHaveLength(1);
+    expect(sequences[0]).toHaveLength(32);
+    expect(sequences[0].slice(0, 8)).toEqual(["K+HH", "-", "HH", "-", "S+HH", "-", "HH", "-"]);
+  });
+
+  it("should generate whole bars that follow the trained groove", () => {
+    const chain = new DrumMarkovChain({ order: 2, smoothing: 0, temperature: 1.0, seed: 7 });
+    chain.trainWithGrooves(parser.extractDrumSequences(midi));
+
+    const steps = chain.generateBars(4);
+    expect(steps).toHaveLength(64);
+    // The groove is deterministic, so every bar should reproduce it exactly
+    for (let bar = 0; bar < 4; bar++) {
+      expect(steps[bar * 16]).toBe("K+HH");
+      expect(steps[bar * 16 + 4]).toBe("S+HH");
+    }
+  });
+
+  it("should use the bar length of the time signature", () => {
+    const chain = new DrumMarkovChain({ order: 1, smoothing: 0, temperature: 1.0, seed: 1 }, "3/4");
+    chain.trainWithGrooves([["K", "-", "HH", "-", "S", "-", "HH", "-", "S", "-", "HH", "-"]]);
+
+    expect(chain.getStepsPerBar()).toBe(12);
+    expect(chain.generateBars(2)).toHaveLength(24);
+    expect(() => chain.generateBars(0)).toThrow("Bars must be a positive number");
+    expect(new DrumMarkovChain({ order: 1, smoothing: 0 }, "6/8").getStepsPerBar()).toBe(12);
+    expect(() => new DrumMarkovChain({ order: 1, smoothing: 0 }, "4/3")).toThrow(
+      "Unsupported time signature: 4/3"
+    );
+  });
+
+  it("should extract drum tracks too long to spread into Math.max", () => {
+    const notes = Array.from({ length: 150000 }, (_, step) => hit(42, step));
+    const [steps] = parser.extractDrumSequences({
+      ...midi,
+      tracks: [{ ...midi.tracks[0], notes }],
+    });
+
+    expect(steps).toHaveLength(150000);
+    expect(steps[149999]).toBe("HH");
+  });
+
+  it("should export grooves on MIDI channel 10", () => {
+    const chain = new DrumMarkovChain({ order: 2, smoothing: 0, temperature: 1.0, seed: 3 });
+    chain.trainWithGrooves(parser.extractDrumSequences(midi));
+
+    const groove = chain.generateGroove(1);
+    expect(groove.notes.every((note) => note.channel === DRUM_CHANNEL)).toBe(true);
+    // Downbeats are accented
+    expect(groove.notes.find((note) => note.startTime === 0)?.velocity).toBeGreaterThan(
+      groove.notes.find((note) => note.startTime === 2 * SIXTEENTH)?.velocity ?? 127
+    );
+
+    const generator = new MIDIGenerator();
+    const file = generator.generateMIDIFile(generator.generateMIDI(groove), {
+      splitByChannel: true,
+    });
+    const parsed = new Midi(file);
+    const drumTracks = parsed.tracks.filter((track) => track.notes.length > 0);
+
+    expect(drumTracks).toHaveLength(1);
+    expect(drumTracks[0].channel).toBe(DRUM_CHANNEL);
+    expect(drumTracks[0].name).toBe("Drums");
+    expect(drumTracks[0].notes).toHaveLength(groove.notes.length);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { HarmonicAnalyzer } from "../music/HarmonicAnalyzer";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { Note } from "../types";
+
+// Quarter notes at 120 BPM
+const melody = (pitches: number[], offset: number = 0): Note[] =>
+  pitches.map((pitch, index) => ({
+    pitch,
+    velocity: 80,
+    startTime: offset + index * 500,
+    duration: 500,
+  }));
+
+const cMajor = [60, 62, 64, 65, 67, 69, 71, 72, 67, 64, 60, 65, 62, 67, 60, 64];
+const gMajor = [67, 69, 71, 72, 74, 76, 78, 79, 74, 71, 67, 72, 69, 74, 66, 67];
+
+describe("Key detection", () => {
+  const analyzer = new HarmonicAnalyzer();
+
+  it("should rank every key with its score", () => {
+    const ranked = analyzer.rankKeys(melody(cMajor));
+
+    expect(ranked).toHaveLength(24);
+    expect(ranked[0].key).toBe("C major");
+    expect(ranked[0].score).toBeGreaterThan(0.8);
+    for (let i = 1; i < ranked.length; i++) {
+      expect(ranked[i].score).toBeLessThanOrEqual(ranked[i - 1].score);
+    }
+    expect(analyzer.detectKey(melody(cMajor))).toBe("C major");
+  });
+
+  it("should detect minor keys", () => {
+    // A harmonic minor with the raised seventh
+    expect(analyzer.detectKey(melody([57, 59, 60, 62, 64, 65, 68, 69, 64, 60, 57, 68, 69]))).toBe(
+      "A minor"
+    );
+  });
+
+  it("should weight pitch classes by duration", () => {
+    // The same pitches, but held tones outline Eb major rather than C minor
+    const notes = melody([60, 63, 67, 70, 58, 65, 62, 63]).map((note) =>
+      [63, 70, 58].includes(note.pitch) ? { ...note, duration: 4000 } : note
+    );
+    const flat = notes.map((note) => ({ ...note, duration: 500 }));
+
+    expect(analyzer.detectKey(notes)).toBe("Eb major");
+    expect(analyzer.rankKeys(notes)[0].score).not.toBeCloseTo(analyzer.rankKeys(flat)[0].score);
+  });
+
+  it("should find modulations", () => {
+    const notes = [...melody([...cMajor, ...cMajor]), ...melody([...gMajor, ...gMajor], 16000)];
+    const regions = analyzer.detectKeyRegions(notes);
+
+    expect(regions.map((region) => region.key)).toEqual(["C major", "G major"]);
+    expect(regions[0].startTime).toBe(0);
+    expect(regions[1].startTime).toBe(16000);
+    expect(regions[1].endTime).toBe(32000);
+    expect(regions[0].confidence).toBeGreaterThan(0.5);
+    expect(() => analyzer.detectKeyRegions(notes, 0)).toThrow(
+      "Window size must be a positive number"
+    );
+  });
+
+  it("should report the key regions of a chain's training data", () => {
+    const name = (pitch: number) =>
+      `${["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"][pitch % 12]}${
+        Math.floor(pitch / 12) - 1
+      }`;
+    const chain = new MusicMarkovChain({ order: 1, smoothing: 0.1 });
+    chain.trainWithMusic(
+      [[...cMajor, ...cMajor, ...cMajor, ...gMajor, ...gMajor].map(name)],
+      [[...cMajor, ...cMajor, ...cMajor, ...gMajor, ...gMajor].map(() => "4")]
+    );
+
+    expect(chain.getKeyRegions().map((region) => region.key)).toEqual(["C major", "G major"]);
+    expect(chain.getDetectedKey()).toBe("C major");
+
+    const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain.toJSON()));
+    expect(restored.getKeyRegions()).toEqual(chain.getKeyRegions());
+  });
+});
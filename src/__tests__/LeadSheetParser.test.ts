@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { LeadSheetParser } from "../input/LeadSheetParser";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { HarmonicAnalyzer } from "../music/HarmonicAnalyzer";
+import { rhythmToBeats } from "../music/Rhythm";
+
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const pitchClassesOf = (chordId: string) =>
+  chordId.split("+").map((note) => NOTE_NAMES.indexOf(note.replace(/\d+$/, "")));
+
+describe("LeadSheetParser", () => {
+  let parser: LeadSheetParser;
+
+  beforeEach(() => {
+    parser = new LeadSheetParser();
+  });
+
+  it("should share each bar between its chords", () => {
+    const { chordSequences, rhythmSequences } = parser.parse("Cmaj7 | Am7 D7 | Gmaj7");
+
+    expect(rhythmSequences).toEqual([["1", "2", "2", "1"]]);
+    expect(chordSequences[0]).toHaveLength(4);
+    expect(chordSequences[0][0]).toBe("C3+B3+C4+E4+G4");
+    expect(pitchClassesOf(chordSequences[0][2])[0]).toBe(2);
+    expect(new Set(pitchClassesOf(chordSequences[0][2]))).toEqual(new Set([2, 6, 9, 0]));
+  });
+
+  it("should honour explicit durations, repeats and other meters", () => {
+    expect(parser.parse("| C:2. G7 | % |").rhythmSequences).toEqual([["2.", "4", "2.", "4"]]);
+
+    parser.setTimeSignature("3/4");
+    expect(parser.parse("Dm7 | G7 C").rhythmSequences).toEqual([["2.", "4.", "4."]]);
+  });
+
+  it("should give the last chord what is left of a bar that does not divide evenly", () => {
+    const { rhythmSequences } = parser.parse("C Dm Em F G | C:8t Dm Em");
+
+    expect(rhythmSequences[0].slice(0, 5)).toEqual(["8.", "8.", "8.", "8.", "4"]);
+    for (const bar of [rhythmSequences[0].slice(0, 5), rhythmSequences[0].slice(5)]) {
+      expect(bar.reduce((beats, token) => beats + rhythmToBeats(token), 0)).toBeCloseTo(4);
+    }
+    expect(() => parser.parse(Array(20).fill("C").join(" "))).toThrow("does not fit in 4/4");
+  });
+
+  it("should put slash notes in the bass and lead the upper voices smoothly", () => {
+    const [chords] = parser.parse("C | C/E | F/A | G7/B | C").chordSequences;
+
+    expect(chords.map((chord) => pitchClassesOf(chord)[0])).toEqual([0, 4, 9, 11, 0]);
+    for (let i = 1; i < chords.length; i++) {
+      const previous = chords[i - 1].split("+").slice(1);
+      const current = chords[i].split("+").slice(1);
+      expect(current.filter((note) => previous.includes(note)).length).toBeGreaterThan(0);
+    }
+  });
+
+  it("should accept common spellings of chord symbols", () => {
+    const analyzer = new HarmonicAnalyzer();
+    expect(analyzer.parseChordSymbol("Bbmaj7").quality).toBe("major7");
+    expect(analyzer.parseChordSymbol("C-7").quality).toBe("minor7");
+    expect(analyzer.parseChordSymbol("F#ø7")).toEqual({
+      root: 6,
+      quality: "halfDiminished7",
+      bass: 6,
+      pitchClasses: [6, 9, 0, 4],
+    });
+    expect(analyzer.parseChordSymbol("EbΔ9").quality).toBe("major9");
+    expect(analyzer.parseChordSymbol("Am/G").bass).toBe(7);
+  });
+
+  it("should report bad input", () => {
+    expect(() => parser.parse("Cmaj7 | Hm7")).toThrow("Unknown chord symbol: Hm7");
+    expect(() => parser.parse("C:1 G")).toThrow("Bar 1 of line 1 does not fit in 4/4");
+    expect(() => parser.parse("C G | Am:2 F:1")).toThrow("Bar 2 of line 1 does not fit in 4/4");
+    expect(() => parser.parse("C:2 | G:4")).toThrow("Bar 1 of line 1 does not fit in 4/4");
+    expect(() => parser.parse("C:x")).toThrow("Invalid rhythm for chord C: x");
+    expect(() => parser.parse("% | C")).toThrow("Line 1 repeats a bar before any chords");
+  });
+
+  it("should produce training data for polyphonic chains", () => {
+    const text = "Cmaj7 | Am7 D7 | Gmaj7 | %\nDm7 G7 | Cmaj7";
+    const { chordSequences, rhythmSequences } = parser.parse(text);
+    const chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, seed: 3 });
+    chain.trainWithPolyphonicMusic(chordSequences, rhythmSequences);
+
+    expect(chain.getDetectedKey()).toMatch(/^(C|G) major$/);
+    expect(chain.getTransitionCounts(chordSequences[0][1])).toEqual(
+      new Map([[chordSequences[0][2], 1]])
+    );
+    expect(parser.toTokens(text)[1]).toEqual([
+      `${chordSequences[1][0]}:2`,
+      `${chordSequences[1][1]}:2`,
+      `${chordSequences[1][2]}:1`,
+    ]);
+  });
+});
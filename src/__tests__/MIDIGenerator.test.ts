@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Midi } from "@tonejs/midi";
+import { MIDIGenerator, MIDINote } from "../music/MIDIGenerator";
+import { MusicSequence } from "../types";
+
+describe("MIDIGenerator", () => {
+  let generator: MIDIGenerator;
+
+  beforeEach(() => {
+    generator = new MIDIGenerator();
+  });
+
+  const melody: MusicSequence = {
+    notes: [
+      { pitch: 60, velocity: 90, duration: 500, startTime: 0 },
+      { pitch: 64, velocity: 80, duration: 250, startTime: 500 },
+      { pitch: 67, velocity: 70, duration: 1000, startTime: 750 },
+    ],
+    duration: 1750,
+  };
+
+  describe("File Writing", () => {
+    it("should write real delta times that round-trip through a MIDI parser", () => {
+      const file = generator.generateMIDIFile(generator.generateMIDI(melody));
+      const parsed = new Midi(file);
+
+      const notes = parsed.tracks.flatMap((track) => track.notes);
+      expect(notes.map((note) => note.midi)).toEqual([60, 64, 67]);
+      // 120 BPM: 500ms is one beat, i.e. 480 ticks
+      expect(notes.map((note) => note.ticks)).toEqual([0, 480, 720]);
+      expect(notes.map((note) => note.durationTicks)).toEqual([480, 240, 960]);
+      expect(parsed.header.ppq).toBe(480);
+    });
+
+    it("should encode long gaps as multi-byte variable-length deltas", () => {
+      const sequence = generator.generateMIDI({
+        notes: [{ pitch: 62, velocity: 100, duration: 60000, startTime: 30000 }],
+        duration: 90000,
+      });
+      const parsed = new Midi(generator.generateMIDIFile(sequence));
+      const [note] = parsed.tracks.flatMap((track) => track.notes);
+
+      expect(note.ticks).toBe(28800);
+      expect(note.durationTicks).toBe(57600);
+    });
+
+    it("should honor tempo, time signature and key signature settings", () => {
+      generator.setTempo(90);
+      generator.setTimeSignature("6/8");
+      generator.setKeySignature("E minor");
+
+      const parsed = new Midi(generator.generateMIDIFile(generator.generateMIDI(melody)));
+
+      expect(parsed.header.tempos[0].bpm).toBeCloseTo(90);
+      expect(parsed.header.timeSignatures[0].timeSignature).toEqual([6, 8]);
+      expect(parsed.header.keySignatures[0].key).toBe("G");
+      expect(parsed.header.keySignatures[0].scale).toBe("minor");
+    });
+
+    it("should reject unsupported signatures", () => {
+      expect(() => generator.setTimeSignature("4/3")).toThrow("Unsupported time signature");
+      expect(() => generator.setKeySignature("H major")).toThrow("Unsupported key signature");
+    });
+
+    it("should release overlapping notes of the same pitch before re-striking", () => {
+      const notes: MIDINote[] = [
+        { pitch: 60, velocity: 80, startTime: 0, duration: 960, channel: 0 },
+        { pitch: 60, velocity: 80, startTime: 480, duration: 480, channel: 0 },
+        { pitch: 64, velocity: 80, startTime: 0, duration: 960, channel: 0 },
+      ];
+      const file = generator.generateMIDIFile({
+        notes,
+        duration: 960,
+        tempo: 120,
+        timeSignature: "4/4",
+        keySignature: "C",
+      });
+      const parsed = new Midi(file);
+      const cNotes = parsed.tracks
+        .flatMap((track) => track.notes)
+        .filter((note) => note.midi === 60)
+        .map((note) => [note.ticks, note.durationTicks]);
+
+      expect(cNotes).toEqual([
+        [0, 480],
+        [480, 480],
+      ]);
+    });
+  });
+
+  describe("Multi-track Output", () => {
+    it("should write a conductor track plus one track per channel", () => {
+      const sequence = generator.generateMIDI({
+        notes: [
+          { pitch: 48, velocity: 80, duration: 1000, startTime: 0, channel: 1 },
+          { pitch: 72, velocity: 80, duration: 500, startTime: 0, channel: 0 },
+        ],
+        duration: 1000,
+      });
+      const file = generator.generateMIDIFile(sequence, { splitByChannel: true });
+      const parsed = new Midi(file);
+
+      // Header track count includes the conductor track, which the parser folds into the header
+      expect((file[10] << 8) | file[11]).toBe(3);
+      expect(parsed.tracks).toHaveLength(2);
+      expect(parsed.tracks[0].notes.map((note) => note.midi)).toEqual([72]);
+      expect(parsed.tracks[1].notes.map((note) => note.midi)).toEqual([48]);
+    });
+
+    it("should keep all notes in one track unless splitting is requested", () => {
+      const sequence = generator.generateMIDI({
+        notes: [
+          { pitch: 48, velocity: 80, duration: 1000, startTime: 0, channel: 1 },
+          { pitch: 72, velocity: 80, duration: 500, startTime: 0, channel: 0 },
+        ],
+        duration: 1000,
+      });
+      const file = generator.generateMIDIFile(sequence);
+      const parsed = new Midi(file);
+
+      expect((file[10] << 8) | file[11]).toBe(2);
+      expect(parsed.tracks.flatMap((track) => track.notes)).toHaveLength(2);
+    });
+
+    it("should write named tracks for each voice", () => {
+      const melodyNotes = generator.generateMIDI(melody).notes;
+      const bassNotes = melodyNotes.map((note) => ({ ...note, pitch: note.pitch - 24 }));
+
+      const parsed = new Midi(
+        generator.generateMultiTrackMIDIFile([
+          { name: "Melody", notes: melodyNotes },
+          { name: "Bass", notes: bassNotes },
+        ])
+      );
+
+      expect(parsed.tracks.map((track) => track.name)).toEqual(["Melody", "Bass"]);
+      expect(parsed.tracks[1].notes.map((note) => note.midi)).toEqual([36, 40, 43]);
+    });
+
+    it("should write tracks too long to spread into Math.max", () => {
+      const notes = Array.from({ length: 200000 }, (_, index) => ({
+        pitch: 60,
+        velocity: 80,
+        startTime: index * 10,
+        duration: 10,
+        channel: 0,
+      }));
+
+      const file = generator.generateMultiTrackMIDIFile([{ name: "Long", notes }]);
+      expect(file.length).toBeGreaterThan(200000 * 6);
+    });
+  });
+});
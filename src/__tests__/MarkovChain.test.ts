@@ -124,3 +124,57 @@ describe("MarkovChain", () => {
     });
   });
 });
+
+describe("MarkovChain incremental training", () => {
+  const config: MarkovConfig = { order: 1, smoothing: 0.5 };
+  const first = [["a", "b", "a", "c"]];
+  const second = [
+    ["a", "b", "b", "c"],
+    ["c", "a", "b"],
+  ];
+
+  test("trainAppend should match training on the concatenated data", () => {
+    const incremental = new MarkovChain(config);
+    incremental.train(first);
+    incremental.trainAppend(second);
+
+    const batch = new MarkovChain(config);
+    batch.train([...first, ...second]);
+
+    expect(incremental.getStates()).toEqual(batch.getStates());
+    expect(incremental.toJSON()).toEqual(batch.toJSON());
+  });
+
+  test("should keep raw counts separate from derived probabilities", () => {
+    const chain = new MarkovChain(config);
+    chain.train(first);
+    chain.trainAppend(second);
+
+    expect(Object.fromEntries(chain.getTransitionCounts("a"))).toEqual({ b: 3, c: 1 });
+
+    const state = chain.getStates().find((s) => s.id === "a")!;
+    expect(state.visitCount).toBe(4);
+    expect(state.transitions.get("b")).toBeCloseTo(3.5 / 5);
+    expect(state.transitions.get("c")).toBeCloseTo(1.5 / 5);
+  });
+
+  test("train should replace previously learned counts", () => {
+    const chain = new MarkovChain(config);
+    chain.train(first);
+    chain.train(second);
+
+    const batch = new MarkovChain(config);
+    batch.train(second);
+
+    expect(chain.getStates()).toEqual(batch.getStates());
+  });
+
+  test("should not mutate the caller's training array when appending", () => {
+    const sequences = [["a", "b"]];
+    const chain = new MarkovChain(config);
+    chain.train(sequences);
+    chain.trainAppend([["b", "a"]]);
+
+    expect(sequences).toHaveLength(1);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MetricRhythmChain } from "../music/MetricRhythmChain";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { getMetricPositions, parseTimeSignature, rhythmToBeats } from "../music/Rhythm";
+
+// Sum of the rhythm, and the bar offset where each token starts
+const layout = (rhythm: string[], barBeats: number) => {
+  let beat = 0;
+  const starts = rhythm.map((token) => {
+    const start = beat % barBeats;
+    beat += rhythmToBeats(token);
+    return start;
+  });
+  return { total: beat, starts };
+};
+
+describe("Meter", () => {
+  it("should parse simple, compound and irregular time signatures", () => {
+    expect(parseTimeSignature("3/4")).toMatchObject({ barBeats: 3, beatBeats: 1, compound: false });
+    expect(parseTimeSignature("6/8")).toMatchObject({
+      barBeats: 3,
+      beatBeats: 1.5,
+      compound: true,
+    });
+    expect(parseTimeSignature("7/8")).toMatchObject({ barBeats: 3.5, beatBeats: 0.5 });
+    expect(() => parseTimeSignature("4/3")).toThrow("Unsupported time signature: 4/3");
+    expect(() => parseTimeSignature("waltz")).toThrow("Unsupported time signature: waltz");
+  });
+
+  it("should classify metric positions in the time signature", () => {
+    const eighths = Array(6).fill("8");
+    expect(getMetricPositions(eighths, parseTimeSignature("6/8"))).toEqual([
+      "D",
+      "O",
+      "O",
+      "B",
+      "O",
+      "O",
+    ]);
+    expect(getMetricPositions(eighths, parseTimeSignature("3/4"))).toEqual([
+      "D",
+      "O",
+      "B",
+      "O",
+      "B",
+      "O",
+    ]);
+  });
+});
+
+describe("MetricRhythmChain", () => {
+  let chain: MetricRhythmChain;
+
+  // A waltz: the downbeat is always a half note or a dotted quarter, never crossing a barline
+  const waltz = [
+    ["2", "4", "4.", "8", "4", "2", "8", "8", "2", "4"],
+    ["4.", "8", "4", "2", "4", "2", "8", "8", "2.", "2", "4"],
+  ];
+
+  beforeEach(() => {
+    chain = new MetricRhythmChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 8 }, "3/4");
+  });
+
+  it("should tag rhythms with their position in the bar", () => {
+    chain.trainWithRhythms(waltz);
+    expect(chain.getTransitionCounts("0@2")).toEqual(
+      new Map([
+        ["48@4", 4],
+        ["48@8", 2],
+      ])
+    );
+  });
+
+  it("should generate exactly the requested number of bars", () => {
+    chain.trainWithRhythms(waltz);
+
+    for (const bars of [1, 2, 5]) {
+      const rhythm = chain.generateBars(bars);
+      expect(layout(rhythm, 3).total).toBe(bars * 3);
+    }
+  });
+
+  it("should condition rhythm choices on beat position", () => {
+    chain.trainWithRhythms(waltz);
+
+    const rhythm = chain.generateBars(8);
+    const { starts } = layout(rhythm, 3);
+    rhythm.forEach((token, index) => {
+      // Only half notes, dotted halves and dotted quarters were learned on downbeats
+      if (starts[index] === 0) expect(["2", "2.", "4."]).toContain(token);
+      // Nothing crosses a barline
+      expect(starts[index] + rhythmToBeats(token)).toBeLessThanOrEqual(3);
+    });
+  });
+
+  it("should shorten the last note and pad with rests to fit the bars", () => {
+    expect(chain.fitToBars(["2", "2", "2"], 1)).toEqual(["2", "4"]);
+    expect(chain.fitToBars(["4", "8"], 1)).toEqual(["4", "8", "r4."]);
+  });
+
+  it("should spell a remainder off the 32nd grid exactly at the barline", () => {
+    // A triplet quarter and a 32nd leave 5 ticks (5/24 of a beat) before the barline
+    const fitted = chain.fitToBars(["2", "4t", "32", "4"], 1);
+    expect(fitted).toEqual(["2", "4t", "32", "32~32t"]);
+    expect(layout(fitted, 3).total).toBeCloseTo(3, 10);
+
+    expect(chain.fitToBars(["2", "8t", "32", "4"], 1)).toEqual(["2", "8t", "32", "8~64t"]);
+    expect(chain.fitToBars(["2", "4t", "32"], 1)).toEqual(["2", "4t", "32", "r32~32t"]);
+  });
+
+  it("should reject unsupported time signatures", () => {
+    expect(() => chain.setTimeSignature("5/0")).toThrow("Unsupported time signature: 5/0");
+  });
+});
+
+describe("MusicMarkovChain bars", () => {
+  let chain: MusicMarkovChain;
+
+  const melody = ["C4", "D4", "E4", "F4", "G4", "F4", "E4", "D4", "C4", "E4", "G4", "C5", "G4"];
+  // 7/8 grouped 2+2+3
+  const sevenEight = ["4", "4", "4.", "8", "8", "8", "8", "4.", "4", "4", "8", "8", "8"];
+
+  beforeEach(() => {
+    chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 5 });
+    chain.setTimeSignature("7/8");
+    chain.setMetricRhythm(true);
+    chain.trainWithMusic([melody], [sevenEight]);
+  });
+
+  it("should generate whole bars of the time signature", () => {
+    const sequence = chain.generateBars(4);
+
+    expect(sequence.timeSignature).toBe("7/8");
+    expect(sequence.duration).toBeCloseTo(4 * 3.5 * 500); // 120 BPM
+    for (const note of sequence.notes) {
+      expect(note.startTime + note.duration).toBeLessThanOrEqual(sequence.duration + 1e-6);
+    }
+  });
+
+  it("should fit joint note:rhythm tokens to bars", () => {
+    chain.setTimeSignature("3/4");
+    chain.trainWithMusic(
+      [melody.map((note, index) => `${note}:${sevenEight[index]}`)],
+      [],
+      undefined,
+      "joint"
+    );
+
+    expect(chain.generateBars(3).duration).toBeCloseTo(3 * 3 * 500);
+  });
+
+  it("should keep the meter when serialized", () => {
+    const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain.toJSON()));
+
+    expect(restored.getTimeSignature()).toBe("7/8");
+    expect(restored.getRhythmChain().getTransitionCounts("0@4")).toEqual(
+      chain.getRhythmChain().getTransitionCounts("0@4")
+    );
+    expect(restored.generateBars(2).duration).toBeCloseTo(2 * 3.5 * 500);
+  });
+
+  it("should reject a non-positive number of bars", () => {
+    expect(() => chain.generateBars(0)).toThrow("Bars must be a positive number");
+  });
+});
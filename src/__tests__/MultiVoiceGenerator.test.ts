@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MultiVoiceGenerator } from "../music/MultiVoiceGenerator";
+import { ParsedMIDI, MIDITrack } from "../input/MIDIParser";
+import { MultiVoiceConfig, Note, VoiceConfig } from "../types";
+
+const createVoice = (overrides: Partial<VoiceConfig> & Pick<VoiceConfig, "name">): VoiceConfig => ({
+  order: 1,
+  temperature: 1.0,
+  harmonicMode: false,
+  rhythmEnhancement: false,
+  voiceRange: { min: 24, max: 96 },
+  voiceType: "melody",
+  weight: 1,
+  ...overrides,
+});
+
+const createTrack = (name: string, pitches: number[], channel: number = 0): MIDITrack => ({
+  name,
+  channel,
+  isDrumTrack: channel === 9,
+  notes: pitches.map((pitch, index): Note => ({
+    pitch,
+    velocity: 80,
+    duration: 500,
+    startTime: index * 500,
+    channel,
+  })),
+});
+
+const midi: ParsedMIDI = {
+  tracks: [
+    createTrack("Bass", [36, 43, 41, 43, 36, 43, 41, 36], 1),
+    createTrack("Lead", [72, 74, 76, 77, 79, 77, 76, 74, 72, 76], 0),
+  ],
+  duration: 5000,
+  timeSignature: "4/4",
+  keySignature: "C major",
+  tempo: 120,
+};
+
+describe("MultiVoiceGenerator", () => {
+  let config: MultiVoiceConfig;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    config = {
+      voices: [
+        createVoice({
+          name: "lead",
+          voiceType: "melody",
+          weight: 2,
+          voiceRange: { min: 60, max: 96 },
+        }),
+        createVoice({
+          name: "bass",
+          voiceType: "bass",
+          harmonicMode: true,
+          rhythmEnhancement: true,
+          voiceRange: { min: 28, max: 52 },
+        }),
+      ],
+      globalHarmonicMode: false,
+      globalRhythmEnhancement: false,
+      voiceInteraction: "independent",
+      maxPolyphony: 4,
+    };
+  });
+
+  it("should assign tracks to voices by register when training from MIDI", () => {
+    const generator = new MultiVoiceGenerator(config, { seed: 1 });
+    generator.trainFromMIDI(midi);
+
+    const leadStates = generator
+      .getVoiceChain("lead")
+      .getStates()
+      .map((state) => state.id);
+    const bassStates = generator
+      .getVoiceChain("bass")
+      .getStates()
+      .map((state) => state.id);
+    expect(leadStates).toContain("C5");
+    expect(bassStates).toContain("C2");
+  });
+
+  it("should generate every trained voice within its range", () => {
+    const generator = new MultiVoiceGenerator(config, { seed: 2 });
+    generator.trainFromMIDI(midi);
+
+    const result = generator.generate(8);
+
+    expect(Object.keys(result.voices)).toEqual(["lead", "bass"]);
+    result.voices.bass.notes.forEach((note) => {
+      expect(note.pitch).toBeGreaterThanOrEqual(28);
+      expect(note.pitch).toBeLessThanOrEqual(52);
+    });
+    expect(result.voices.lead.notes.every((note) => note.channel === 0)).toBe(true);
+    expect(result.voices.bass.notes.every((note) => note.channel === 1)).toBe(true);
+    expect(result.totalDuration).toBeGreaterThan(0);
+    expect(result.globalHarmony?.key).toBeDefined();
+    expect(result.globalRhythm?.syncopation).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should keep a voice trained on drum tracks on the drum channel", () => {
+    const generator = new MultiVoiceGenerator(
+      {
+        ...config,
+        voices: [
+          ...config.voices,
+          createVoice({ name: "drums", voiceType: "rhythm", voiceRange: { min: 35, max: 51 } }),
+        ],
+      },
+      { seed: 3 }
+    );
+    generator.trainFromMIDI(
+      { ...midi, tracks: [...midi.tracks, createTrack("Kit", [36, 42, 38, 42, 36, 42, 38], 9)] },
+      { drums: [2] }
+    );
+
+    const result = generator.generate(8);
+    expect(result.voices.drums.notes.length).toBeGreaterThan(0);
+    expect(result.voices.drums.notes.every((note) => note.channel === 9)).toBe(true);
+    expect(result.voices.bass.notes.every((note) => note.channel === 1)).toBe(true);
+  });
+
+  it("should render voices trained on intervals back to pitches", () => {
+    const generator = new MultiVoiceGenerator(config, { seed: 6 });
+    const lead = generator.getVoiceChain("lead");
+    lead.setPitchRepresentation("interval");
+    lead.setStartNote("C5");
+    generator.trainVoice("lead", [["C5", "D5", "E5", "D5", "C5"]], [["4", "4", "4", "4", "4"]]);
+
+    const notes = generator.generate(5).voices.lead.notes;
+
+    expect(notes).toHaveLength(5);
+    expect(notes[0].pitch).toBe(72);
+    notes.forEach((note) => {
+      expect(note.pitch).toBeGreaterThanOrEqual(60);
+      expect(note.pitch).toBeLessThanOrEqual(96);
+    });
+  });
+
+  it("should detect one chord per bar of the time signature", () => {
+    const generator = new MultiVoiceGenerator(
+      { ...config, voices: [config.voices[0]] },
+      { seed: 7 }
+    );
+    generator.getVoiceChain("lead").setTimeSignature("3/4");
+    generator.trainVoice(
+      "lead",
+      [["C5", "E5", "G5", "C5", "E5", "G5"]],
+      [["4", "4", "4", "4", "4", "4"]]
+    );
+
+    // Twelve quarter notes make four bars of 3/4 (three of 4/4)
+    expect(generator.generate(12).globalHarmony?.chordProgression).toHaveLength(4);
+  });
+
+  it("should lock voices to the lead rhythm in rhythmic mode", () => {
+    config.voiceInteraction = "rhythmic";
+    const generator = new MultiVoiceGenerator(config, { seed: 3 });
+    generator.trainVoice(
+      "lead",
+      [["C5", "D5", "E5", "G5", "E5", "D5"]],
+      [["8", "4", "8", "2", "8", "4"]]
+    );
+    generator.trainVoice("bass", [["C2", "G2", "F2", "G2", "C2"]], [["1", "1", "1", "1", "1"]]);
+
+    const result = generator.generate(6);
+    const leadOnsets = result.voices.lead.notes.map((note) => note.startTime);
+    const bassOnsets = result.voices.bass.notes.map((note) => note.startTime);
+
+    expect(bassOnsets).toEqual(leadOnsets.slice(0, bassOnsets.length));
+    expect(result.globalRhythm?.patterns).toHaveLength(6);
+  });
+
+  it("should move harmonic voices onto chord tones of the lead in harmonic mode", () => {
+    config.voiceInteraction = "harmonic";
+    const generator = new MultiVoiceGenerator(config, { seed: 1 });
+    generator.trainVoice(
+      "lead",
+      [["C5", "E5", "G5", "E5", "C5", "G5", "E5"]],
+      [["4", "4", "4", "4", "4", "4", "4"]]
+    );
+    generator.trainVoice("bass", [["D2", "F2", "A2", "B2", "D2"]], [["4", "4", "4", "4", "4"]]);
+
+    const result = generator.generate(8);
+
+    expect(result.globalHarmony?.chordProgression.length).toBeGreaterThan(0);
+    expect(result.globalHarmony?.chordProgression[0]).toBe("C");
+    result.voices.bass.notes
+      .filter((note) => note.startTime < 2000)
+      .forEach((note) => expect([0, 4, 7]).toContain(note.pitch % 12));
+  });
+
+  it("should respect maxPolyphony by dropping notes from lighter voices", () => {
+    config.maxPolyphony = 1;
+    config.voiceInteraction = "full";
+    const generator = new MultiVoiceGenerator(config, { seed: 5 });
+    generator.trainFromMIDI(midi);
+
+    const result = generator.generate(8);
+
+    expect(result.polyphony).toBeLessThanOrEqual(1);
+    expect(result.voices.lead.notes.length).toBeGreaterThan(0);
+  });
+
+  it("should validate configuration and training state", () => {
+    expect(() => new MultiVoiceGenerator({ ...config, voices: [] })).toThrow("at least one voice");
+    expect(
+      () => new MultiVoiceGenerator({ ...config, voices: [config.voices[0], config.voices[0]] })
+    ).toThrow("unique");
+    const voices = Array.from({ length: 16 }, (_, index) => createVoice({ name: `v${index}` }));
+    expect(() => new MultiVoiceGenerator({ ...config, voices })).toThrow("at most 15 voices");
+    expect(() => new MultiVoiceGenerator(config).generate(4)).toThrow("No training data available");
+    expect(() => new MultiVoiceGenerator(config).getVoiceChain("drums")).toThrow("Unknown voice");
+  });
+});
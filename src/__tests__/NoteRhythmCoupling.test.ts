@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { MIDIParser, ParsedMIDI } from "../input/MIDIParser";
+
+// 120 BPM: a half note lasts 1000ms and an eighth note 250ms
+const HALF = 1000;
+const EIGHTH = 250;
+
+describe("MusicMarkovChain note/rhythm coupling", () => {
+  let chain: MusicMarkovChain;
+
+  // C4 is always held for a half note, every other pitch is an eighth
+  const pitches = [60, 62, 64, 65, 67, 65, 64, 62, 60, 64, 67, 64, 60];
+  const midi: ParsedMIDI = {
+    tracks: [
+      {
+        name: "Lead",
+        channel: 0,
+        isDrumTrack: false,
+        notes: pitches.map((pitch, index) => ({
+          pitch,
+          velocity: 80,
+          duration: pitch === 60 ? HALF : EIGHTH,
+          startTime: index * HALF,
+        })),
+      },
+    ],
+    duration: pitches.length * HALF,
+    timeSignature: "4/4",
+    keySignature: "C major",
+    tempo: 120,
+  };
+  const combined = new MIDIParser().extractCombinedSequences(midi);
+
+  const expectCoherentDurations = (sequence: { notes: { pitch: number; duration: number }[] }) => {
+    expect(sequence.notes.length).toBeGreaterThan(0);
+    for (const note of sequence.notes) {
+      expect(note.duration).toBe(note.pitch === 60 ? HALF : EIGHTH);
+    }
+  };
+
+  beforeEach(() => {
+    chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 12 });
+    chain.setPitchRange(48, 84);
+  });
+
+  it("should train a joint chain on combined note:rhythm tokens", () => {
+    expect(combined[0].slice(0, 3)).toEqual(["C4:2", "D4:8", "E4:8"]);
+
+    chain.trainWithMusic(combined, [], undefined, "joint");
+    expect(chain.getRhythmCoupling()).toBe("joint");
+    expect(chain.getTransitionCounts("C4:2")).toEqual(
+      new Map([
+        ["D4:8", 1],
+        ["E4:8", 1],
+      ])
+    );
+
+    expectCoherentDurations(chain.generateSequence(24));
+  });
+
+  it("should condition rhythms on the current note in factored mode", () => {
+    chain.trainWithMusic(combined, [], undefined, "factored");
+
+    // The note chain itself only sees pitches
+    expect(chain.getTransitionCounts("C4")).toEqual(
+      new Map([
+        ["D4", 1],
+        ["E4", 1],
+      ])
+    );
+    expectCoherentDurations(chain.generateSequence(24));
+  });
+
+  it("should keep notes and rhythms separate by default", () => {
+    chain.trainWithMusic(combined, []);
+
+    expect(chain.getRhythmCoupling()).toBe("independent");
+    expect(chain.getRhythmChain().getTransitionCounts("2")).toEqual(new Map([["8", 2]]));
+    expect(chain.generateSequence(8).notes).toHaveLength(8);
+  });
+
+  it("should combine with interval training", () => {
+    chain.setPitchRepresentation("interval");
+    chain.setStartNote("C4");
+    chain.trainWithMusic(combined, [], undefined, "joint");
+
+    const sequence = chain.generateSequence(8);
+    expect(sequence.notes).toHaveLength(8);
+    expect(sequence.notes[0].pitch).toBe(60);
+  });
+
+  it("should keep the coupling when serialized", () => {
+    chain.trainWithMusic(combined, [], undefined, "factored");
+
+    const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain.toJSON()));
+    expect(restored.getRhythmCoupling()).toBe("factored");
+    restored.setPitchRange(48, 84);
+    expectCoherentDurations(restored.generateSequence(16));
+  });
+
+  it("should reject unknown coupling modes", () => {
+    expect(() => chain.trainWithMusic(combined, [], undefined, "shuffled" as any)).toThrow(
+      "Unsupported note/rhythm coupling: shuffled"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+
+describe("MusicMarkovChain pitch representations", () => {
+  let chain: MusicMarkovChain;
+
+  // The same phrase in C major and D major
+  const inC = ["C4", "E4", "G4", "B3", "C4", "F4", "A4", "G4", "C4"];
+  const inD = ["D4", "F#4", "A4", "C#4", "D4", "G4", "B4", "A4", "D4"];
+  const rhythms = [Array(9).fill("4")];
+
+  beforeEach(() => {
+    chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 2 });
+  });
+
+  describe("Interval mode", () => {
+    beforeEach(() => {
+      chain.setPitchRepresentation("interval");
+    });
+
+    it("should learn transposed melodies as the same sequence", () => {
+      chain.trainWithMusic([inC, inD], rhythms);
+
+      expect(chain.getTransitionCounts("+4")).toEqual(
+        new Map([
+          ["+3", 2],
+          ["-2", 2],
+        ])
+      );
+      expect(
+        chain
+          .getStates()
+          .map((state) => state.id)
+          .sort()
+      ).toEqual(["+1", "+3", "+4", "+5", "-2", "-8"]);
+    });
+
+    it("should encode chords as the step of the lowest note plus the chord shape", () => {
+      chain.trainWithMusic([["C4+E4+G4", "F4+A4+C5", "G4+B4+D5"]], rhythms);
+      expect(chain.getTransitionCounts("+5(4,7)")).toEqual(new Map([["+2(4,7)", 1]]));
+    });
+
+    it("should render intervals from the chosen start note", () => {
+      chain.setStartNote("D4");
+      expect(chain.renderRelativeTokens(["+2", "+2", "-4(4,7)"])).toEqual([
+        "D4",
+        "E4",
+        "F#4",
+        "D4+F#4+A4",
+      ]);
+      expect(() => chain.setStartNote("H4")).toThrow("Invalid start note: H4");
+    });
+
+    it("should generate sequences of the requested length", () => {
+      chain.trainWithMusic([inC, inD], rhythms);
+      chain.setStartNote("G4");
+
+      const sequence = chain.generateSequence(8);
+      expect(sequence.notes).toHaveLength(8);
+      expect(sequence.notes[0].pitch).toBe(67);
+    });
+  });
+
+  describe("Scale degree mode", () => {
+    beforeEach(() => {
+      chain.setPitchRepresentation("degree");
+    });
+
+    it("should learn melodies in different keys as the same degrees", () => {
+      chain.trainWithMusic([inC, inD], rhythms);
+
+      expect(chain.getTransitionCounts("1/4")).toEqual(
+        new Map([
+          ["3/4", 2],
+          ["4/4", 2],
+        ])
+      );
+      expect(chain.getTransitionCounts("7/3")).toEqual(new Map([["1/4", 2]]));
+    });
+
+    it("should render degrees in the current key", () => {
+      chain.setKey("D");
+      expect(chain.renderRelativeTokens(["1/4", "3/4", "5/4", "b3/4", "1/4+3/4+5/4"])).toEqual([
+        "D4",
+        "F#4",
+        "A4",
+        "F4",
+        "D4+F#4+A4",
+      ]);
+
+      chain.setKey("A minor");
+      expect(chain.renderRelativeTokens(["3/4", "7/4", "#7/4"])).toEqual(["C5", "G5", "G#5"]);
+    });
+  });
+
+  it("should keep the representation when serialized", () => {
+    chain.setPitchRepresentation("interval");
+    chain.trainWithMusic([inC], rhythms);
+
+    const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain.toJSON()));
+    expect(restored.getPitchRepresentation()).toBe("interval");
+    expect(restored.getTransitionCounts("+4")).toEqual(chain.getTransitionCounts("+4"));
+  });
+
+  it("should keep the start note when serialized", () => {
+    chain.setPitchRepresentation("interval");
+    chain.trainWithMusic([inC], rhythms);
+    chain.setStartNote("G4");
+
+    const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain.toJSON()));
+    expect(restored.renderRelativeTokens(["+2"])).toEqual(["G4", "A4"]);
+    expect(restored.generateSequence(4).notes[0].pitch).toBe(67);
+
+    const data = chain.toJSON();
+    expect(() =>
+      MusicMarkovChain.fromJSON({ ...data, harmonic: { ...data.harmonic, startNote: "H4" } })
+    ).toThrow("model.harmonic.startNote");
+  });
+
+  it("should reject unknown representations", () => {
+    expect(() => chain.setPitchRepresentation("chromatic" as any)).toThrow(
+      "Unsupported pitch representation: chromatic"
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  beatsToExactRhythmToken,
+  beatsToRhythmToken,
+  isRest,
+  parseRhythmToken,
+  rhythmToBeats,
+} from "../music/Rhythm";
+import { MIDIParser, ParsedMIDI } from "../input/MIDIParser";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { MIDIGenerator } from "../music/MIDIGenerator";
+
+describe("Rhythm tokens", () => {
+  it("should parse dotted, triplet, tied and rest tokens", () => {
+    expect(rhythmToBeats("4")).toBe(1);
+    expect(rhythmToBeats("4.")).toBe(1.5);
+    expect(rhythmToBeats("8..")).toBe(0.875);
+    expect(rhythmToBeats("8t")).toBeCloseTo(1 / 3);
+    expect(rhythmToBeats("2~8")).toBe(2.5);
+    expect(parseRhythmToken("r4.")).toEqual({ beats: 1.5, rest: true });
+    expect(isRest("r8")).toBe(true);
+    expect(isRest("8")).toBe(false);
+
+    expect(parseRhythmToken("3")).toBeNull();
+    expect(parseRhythmToken("4.t")).toBeNull();
+    expect(rhythmToBeats("quarter")).toBe(1); // Unknown tokens last a quarter note
+  });
+
+  it("should spell durations as the simplest token", () => {
+    expect(beatsToRhythmToken(1)).toBe("4");
+    expect(beatsToRhythmToken(0.9)).toBe("4");
+    expect(beatsToRhythmToken(1.5)).toBe("4.");
+    expect(beatsToRhythmToken(3)).toBe("2.");
+    expect(beatsToRhythmToken(1 / 3)).toBe("8t");
+    expect(beatsToRhythmToken(0.34)).toBe("8t");
+    expect(beatsToRhythmToken(2.5)).toBe("2~8");
+    expect(beatsToRhythmToken(5)).toBe("1~4");
+    expect(beatsToRhythmToken(0.5, 16, true)).toBe("r8");
+    expect(beatsToRhythmToken(0.01)).toBe("16");
+  });
+
+  it("should round-trip every token it produces", () => {
+    for (let ticks = 1; ticks <= 48; ticks++) {
+      const token = beatsToRhythmToken(ticks / 12);
+      expect(beatsToRhythmToken(rhythmToBeats(token))).toBe(token);
+    }
+  });
+
+  it("should spell any whole number of ticks exactly", () => {
+    expect(beatsToExactRhythmToken(19 / 24)).toBe("8.~64t");
+    expect(beatsToExactRhythmToken(1.5, true)).toBe("r4.");
+    for (let ticks = 1; ticks <= 96; ticks++) {
+      expect(rhythmToBeats(beatsToExactRhythmToken(ticks / 24)) * 24).toBeCloseTo(ticks);
+    }
+  });
+});
+
+describe("Rhythm tokens across the pipeline", () => {
+  // 120 BPM: one beat lasts 500ms
+  const midi: ParsedMIDI = {
+    tracks: [
+      {
+        name: "Lead",
+        channel: 0,
+        isDrumTrack: false,
+        notes: [
+          { pitch: 60, velocity: 100, startTime: 0, duration: 750 }, // dotted quarter
+          { pitch: 62, velocity: 100, startTime: 750, duration: 250 }, // eighth
+          { pitch: 64, velocity: 60, startTime: 1000, duration: 1250 }, // half tied to an eighth
+          { pitch: 65, velocity: 60, startTime: 2500, duration: 500 / 3 }, // triplet after a rest
+          { pitch: 64, velocity: 60, startTime: 2500 + 500 / 3, duration: 500 / 3 },
+          { pitch: 62, velocity: 60, startTime: 2500 + 1000 / 3, duration: 500 / 3 },
+        ],
+      },
+    ],
+    duration: 3000,
+    timeSignature: "4/4",
+    keySignature: "C major",
+    tempo: 120,
+  };
+
+  it("should extract dotted, tied and triplet rhythms from MIDI", () => {
+    const parser = new MIDIParser();
+    expect(parser.extractRhythmSequences(midi)).toEqual([["4.", "8", "2~8", "8t", "8t", "8t"]]);
+    expect(parser.extractNoteSequences(midi)[0]).toHaveLength(6);
+  });
+
+  it("should extract rests when enabled, keeping all sequences aligned", () => {
+    const parser = new MIDIParser();
+    parser.setIncludeRests(true);
+
+    expect(parser.extractRhythmSequences(midi)).toEqual([
+      ["4.", "8", "2~8", "r8", "8t", "8t", "8t"],
+    ]);
+    expect(parser.extractNoteSequences(midi)).toEqual([["C4", "D4", "E4", "R", "F4", "E4", "D4"]]);
+    expect(parser.extractVelocitySequences(midi)).toEqual([
+      ["f", "f", "mp", "mp", "mp", "mp", "mp"],
+    ]);
+    expect(parser.extractCombinedSequences(midi)[0][3]).toBe("R:r8");
+  });
+
+  it("should render rests as silence in generated sequences", () => {
+    const chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0 });
+    const sequence = chain.convertTokensToMusicSequence(
+      ["C4", "D4", "E4", "R", "F4"],
+      ["4.", "r8", "8t", "4", "2~8"]
+    );
+
+    // D4 falls on the rest and R is silent
+    expect(sequence.notes).toHaveLength(3);
+    expect(sequence.notes[0].pitch).toBe(60);
+    expect(sequence.notes.map((note) => note.startTime)).toEqual([0, 1000, 1000 + 500 / 3 + 500]);
+    expect(sequence.notes[2].duration).toBe(1250);
+    expect(sequence.duration).toBeCloseTo(1000 + 500 / 3 + 500 + 1250);
+  });
+
+  it("should learn and generate rests", () => {
+    const parser = new MIDIParser();
+    parser.setIncludeRests(true);
+    const chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 3 });
+    chain.trainWithMusic(parser.extractNoteSequences(midi), parser.extractRhythmSequences(midi));
+
+    expect(chain.getRhythmChain().getTransitionCounts("2~8")).toEqual(new Map([["r8", 1]]));
+    expect(chain.getDetectedKey()).toBeTruthy();
+    const sequence = chain.generateSequence(12);
+    expect(sequence.notes.every((note) => note.pitch >= 24)).toBe(true);
+  });
+
+  it("should lay out rhythm tokens as MIDI ticks", () => {
+    const generator = new MIDIGenerator();
+    expect(generator.rhythmToTicks("4.")).toBe(720);
+    expect(generator.rhythmToTicks("8t")).toBe(160);
+
+    const midiSequence = generator.generateMIDIFromRhythm(
+      [[60], [], [62, 65]],
+      ["2~8", "r4", "8t"]
+    );
+    expect(midiSequence.notes.map((note) => [note.pitch, note.startTime, note.duration])).toEqual([
+      [60, 0, 1200],
+      [62, 1680, 160],
+      [65, 1680, 160],
+    ]);
+    expect(midiSequence.duration).toBe(1840);
+  });
+});
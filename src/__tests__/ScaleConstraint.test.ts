@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { MAJOR_KEYS, MINOR_KEYS, parseKey, snapToScale } from "../music/Scales";
+
+describe("Scales", () => {
+  it("should define all 24 major and minor keys", () => {
+    expect(MAJOR_KEYS).toHaveLength(12);
+    expect(MINOR_KEYS).toHaveLength(12);
+
+    for (const key of [...MAJOR_KEYS, ...MINOR_KEYS]) {
+      const { tonic, pitchClasses } = parseKey(key);
+      expect(pitchClasses).toHaveLength(7);
+      expect(new Set(pitchClasses).size).toBe(7);
+      expect(pitchClasses[0]).toBe(tonic);
+    }
+
+    const tonics = new Set(MINOR_KEYS.map((key) => parseKey(key).tonic));
+    expect(tonics.size).toBe(12);
+  });
+
+  it("should spell keys and modes correctly", () => {
+    expect(parseKey("A#m").pitchClasses).toEqual([10, 0, 1, 3, 5, 6, 8]);
+    expect(parseKey("Bb minor").pitchClasses).toEqual(parseKey("A#m").pitchClasses);
+    expect(parseKey("F#m").pitchClasses).toEqual([6, 8, 9, 11, 1, 2, 4]);
+    expect(parseKey("G").pitchClasses).toEqual([7, 9, 11, 0, 2, 4, 6]);
+    expect(parseKey("D dorian").pitchClasses).toEqual([2, 4, 5, 7, 9, 11, 0]);
+    expect(parseKey("C major").mode).toBe("major");
+    expect(() => parseKey("H")).toThrow("Unsupported key: H");
+    expect(() => parseKey("C bebop")).toThrow("Unsupported key: C bebop");
+  });
+
+  it("should snap pitches to the nearest scale tone within range", () => {
+    const cMajor = parseKey("C").pitchClasses;
+    expect(snapToScale(61, cMajor)).toBe(60); // C#4 -> C4 (ties go down)
+    expect(snapToScale(66, cMajor)).toBe(65); // F#4 -> F4
+    expect(snapToScale(61, cMajor, 61, 72)).toBe(62); // C4 is out of range, so D4
+    expect(snapToScale(64, cMajor)).toBe(64);
+  });
+});
+
+describe("MusicMarkovChain scale constraint", () => {
+  let chain: MusicMarkovChain;
+
+  // Chromatic passing tones everywhere, so unconstrained generation leaves C major often
+  const melodies = [
+    ["C4", "C#4", "D4", "D#4", "E4", "F4", "F#4", "G4", "G#4", "A4", "A#4", "B4", "C5"],
+    ["C5", "B4", "A#4", "A4", "G#4", "G4", "F#4", "F4", "E4", "D#4", "D4", "C#4", "C4"],
+  ];
+  const rhythms = [Array(13).fill("8")];
+
+  const pitchClasses = (notes: { pitch: number }[]) => notes.map((note) => note.pitch % 12);
+
+  beforeEach(() => {
+    chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 4 });
+    chain.trainWithMusic(melodies, rhythms);
+    chain.setPitchRange(48, 84);
+    chain.setKey("C");
+  });
+
+  it("should replace the old key table with correct scales", () => {
+    chain.setKey("A#m");
+    expect(chain.getScale()).toEqual([10, 0, 1, 3, 5, 6, 8]);
+    expect(() => chain.setKey("X#m")).toThrow("Unsupported key");
+  });
+
+  it("should only produce in-scale pitches with the hard filter", () => {
+    chain.setScaleConstraint("filter");
+    const sequence = chain.generateSequence(32);
+
+    expect(sequence.notes.length).toBeGreaterThan(0);
+    for (const pitchClass of pitchClasses(sequence.notes)) {
+      expect([0, 2, 4, 5, 7, 9, 11]).toContain(pitchClass);
+    }
+  });
+
+  it("should only produce in-scale pitches when snapping", () => {
+    chain.setKey("D dorian");
+    chain.setScaleConstraint("snap");
+    const sequence = chain.generateSequence(32);
+
+    for (const pitchClass of pitchClasses(sequence.notes)) {
+      expect(chain.getScale()).toContain(pitchClass);
+    }
+  });
+
+  it("should make out-of-scale pitches rarer with the soft penalty", () => {
+    const outOfScaleRate = () => {
+      chain.setSeed(9);
+      const notes = chain.generateSequence(200).notes;
+      return notes.filter((note) => !chain.getScale().includes(note.pitch % 12)).length / 200;
+    };
+
+    chain.setScaleConstraint("off");
+    const unconstrained = outOfScaleRate();
+    chain.setScaleConstraint("penalty", 0.05);
+    const penalized = outOfScaleRate();
+
+    expect(penalized).toBeLessThan(unconstrained);
+  });
+
+  it("should reject invalid penalties", () => {
+    expect(() => chain.setScaleConstraint("penalty", 2)).toThrow(
+      "Scale penalty must be between 0 and 1"
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { MarkovChain } from "../core/MarkovChain";
+import { SeededRandom } from "../core/Random";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+
+describe("Seeded Generation", () => {
+  const sequences = [
+    ["a", "b", "c", "a", "d", "b", "c", "d", "a"],
+    ["b", "a", "c", "d", "c", "a", "b", "d"],
+  ];
+
+  it("should produce a deterministic stream for a given seed", () => {
+    const first = new SeededRandom(42);
+    const second = new SeededRandom(42);
+    const values = Array.from({ length: 20 }, () => first.next());
+
+    expect(values).toEqual(Array.from({ length: 20 }, () => second.next()));
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    expect(new SeededRandom(43).next()).not.toBe(values[0]);
+  });
+
+  it("should reproduce generation from the config seed", () => {
+    const chainA = new MarkovChain({ order: 1, smoothing: 0.1, seed: 7 });
+    const chainB = new MarkovChain({ order: 1, smoothing: 0.1, seed: 7 });
+    chainA.train(sequences);
+    chainB.train(sequences);
+
+    expect(chainA.generate(30)).toEqual(chainB.generate(30));
+    expect(chainA.generateWithSteps(10)).toEqual(chainB.generateWithSteps(10));
+  });
+
+  it("should restart the stream when reseeded", () => {
+    const chain = new MarkovChain({ order: 1, smoothing: 0.1 });
+    chain.train(sequences);
+
+    chain.setSeed(123);
+    const first = chain.generate(25);
+    chain.setSeed(123);
+
+    expect(chain.generate(25)).toEqual(first);
+  });
+
+  it("should accept an injected random source", () => {
+    const chain = new MarkovChain({ order: 1, smoothing: 0 });
+    chain.train([["a", "b", "a", "c"]]);
+    chain.setRandomSource({ next: () => 0 });
+
+    // Always picking the first cumulative bucket makes the output fully predictable
+    expect(chain.generate(3, ["a"])).toEqual(["b", "a", "b"]);
+  });
+
+  it("should reproduce a full MusicSequence including rhythm", () => {
+    const notes = [["C4", "D4", "E4", "G4", "E4", "D4", "C4", "E4", "G4", "C5"]];
+    const rhythms = [["4", "8", "8", "4", "2", "8", "16", "16", "4", "1"]];
+
+    const generateWithSeed = (seed: number) => {
+      const chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, seed });
+      chain.trainWithMusic(notes, rhythms);
+      return chain.generateSequence(12);
+    };
+
+    expect(generateWithSeed(2024)).toEqual(generateWithSeed(2024));
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { MarkovChain } from "../core/MarkovChain";
+
+describe("Sequence scoring", () => {
+  const createChain = (smoothing: number = 0) => {
+    const chain = new MarkovChain({ order: 1, smoothing });
+    chain.train([["A", "B", "A", "C", "A", "B"]]);
+    return chain;
+  };
+
+  it("should score every token after the starting context", () => {
+    const scored = createChain().tokenLogProbabilities(["A", "B", "A", "C"]);
+
+    // A -> B twice, A -> C once, B -> A always
+    expect(scored.map((token) => token.token)).toEqual(["B", "A", "C"]);
+    expect(scored.map((token) => token.context)).toEqual(["A", "B", "A"]);
+    expect(scored[0].logProbability).toBeCloseTo(Math.log(2 / 3));
+    expect(scored[1].logProbability).toBeCloseTo(0);
+    expect(scored[2].logProbability).toBeCloseTo(Math.log(1 / 3));
+    expect(scored[0].order).toBe(1);
+  });
+
+  it("should use the smoothed probabilities of generation", () => {
+    const chain = createChain(1);
+    // (2 + 1) / (3 + 2)
+    expect(chain.logLikelihood(["A", "B"])).toBeCloseTo(Math.log(3 / 5));
+  });
+
+  it("should report cross-entropy and perplexity of held-out sequences", () => {
+    const chain = createChain();
+    const heldOut = [
+      ["A", "B", "A", "C"],
+      ["C", "A", "B"],
+    ];
+    const bits = -(Math.log2(2 / 3) * 2 + Math.log2(1 / 3) + 0 + 0) / 5;
+
+    expect(chain.crossEntropy(heldOut)).toBeCloseTo(bits);
+    expect(chain.perplexity(heldOut)).toBeCloseTo(Math.pow(2, bits));
+    expect(chain.logLikelihood(heldOut[0])).toBeCloseTo(Math.log(2 / 3) + Math.log(1 / 3));
+  });
+
+  it("should give impossible tokens zero probability", () => {
+    const chain = createChain();
+
+    expect(chain.logLikelihood(["A", "D"])).toBe(-Infinity);
+    expect(chain.perplexity([["B", "C"]])).toBe(Infinity);
+    expect(() => chain.crossEntropy([["A"], []])).toThrow(
+      "No tokens to score: sequences must be longer than the chain order"
+    );
+  });
+
+  it("should back off in variable-order chains and score from the first token", () => {
+    const chain = new MarkovChain({ order: 2, smoothing: 0, variableOrder: true });
+    chain.train([["A", "B", "C", "A", "B", "D"]]);
+    const scored = chain.tokenLogProbabilities(["A", "B", "D"]);
+
+    expect(scored.map((token) => token.order)).toEqual([0, 1, 2]);
+    expect(scored.every((token) => Number.isFinite(token.logProbability))).toBe(true);
+    // A|B was followed by C and D once each, with escape mass left for shorter contexts
+    expect(Math.exp(scored[2].logProbability)).toBeLessThan(0.5);
+  });
+
+  it("should prefer the model trained on similar material", () => {
+    const scales = new MarkovChain({ order: 1, smoothing: 0.1 });
+    scales.train([["C", "D", "E", "F", "G", "F", "E", "D", "C"]]);
+    const leaps = new MarkovChain({ order: 1, smoothing: 0.1 });
+    leaps.train([["C", "E", "G", "E", "C", "G", "C", "E", "G", "D", "F", "D"]]);
+    const heldOut = [["C", "D", "E", "F", "E", "D"]];
+
+    expect(scales.perplexity(heldOut)).toBeLessThan(leaps.perplexity(heldOut));
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { MarkovChain, MODEL_FORMAT_VERSION } from "../core/MarkovChain";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+
+describe("Model Serialization", () => {
+  describe("MarkovChain", () => {
+    it("should round-trip states, config and training data", () => {
+      const chain = new MarkovChain({ order: 2, smoothing: 0.1, temperature: 0.8 });
+      chain.train([
+        ["a", "b", "c", "a", "b", "d"],
+        ["b", "c", "a", "b"],
+      ]);
+
+      const restored = MarkovChain.fromJSON(JSON.stringify(chain));
+
+      expect(restored.getConfig()).toEqual(chain.getConfig());
+      expect(restored.getStates()).toEqual(chain.getStates());
+      expect(restored.toJSON()).toEqual(chain.toJSON());
+      expect(restored.generate(5).length).toBeGreaterThan(0);
+    });
+
+    it("should include the format version", () => {
+      const chain = new MarkovChain({ order: 1, smoothing: 0 });
+      chain.train([["a", "b"]]);
+
+      const data = chain.toJSON();
+      expect(data.formatVersion).toBe(MODEL_FORMAT_VERSION);
+      expect(data.type).toBe("MarkovChain");
+    });
+
+    it("should load version 1 payloads by rebuilding counts from the training data", () => {
+      const chain = new MarkovChain({ order: 1, smoothing: 0.1 });
+      chain.train([["a", "b", "a", "c"]]);
+
+      const legacy = {
+        ...chain.toJSON(),
+        formatVersion: 1,
+        states: chain.getStates().map((state) => ({
+          id: state.id,
+          transitions: Array.from(state.transitions.entries()),
+          visitCount: state.visitCount,
+        })),
+      };
+
+      expect(MarkovChain.fromJSON(legacy).toJSON()).toEqual(chain.toJSON());
+    });
+
+    it("should reject malformed input with descriptive errors", () => {
+      const valid = (() => {
+        const chain = new MarkovChain({ order: 1, smoothing: 0 });
+        chain.train([["a", "b"]]);
+        return chain.toJSON();
+      })();
+
+      expect(() => MarkovChain.fromJSON("{not json")).toThrow("Invalid serialized model");
+      expect(() => MarkovChain.fromJSON(null)).toThrow("model must be an object");
+      expect(() => MarkovChain.fromJSON({ ...valid, formatVersion: 99 })).toThrow(
+        "model.formatVersion"
+      );
+      expect(() => MarkovChain.fromJSON({ ...valid, config: { order: 0, smoothing: 0 } })).toThrow(
+        "model.config.order"
+      );
+      expect(() =>
+        MarkovChain.fromJSON({ ...valid, states: [{ id: "a", transitions: [["b"]] }] })
+      ).toThrow("model.states[0]");
+      expect(() => MarkovChain.fromJSON({ ...valid, trainingData: [[1, 2]] })).toThrow(
+        "model.trainingData"
+      );
+    });
+  });
+
+  describe("MusicMarkovChain", () => {
+    it("should round-trip the rhythm chain and harmonic state", () => {
+      const chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.2 });
+      chain.trainWithMusic(
+        [["A3", "C4", "E4", "A4", "G4", "E4"]],
+        [["4", "8", "8", "4", "2", "4"]]
+      );
+      chain.setTempo(96);
+      chain.setPitchRange(48, 72);
+
+      const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain));
+
+      expect(restored).toBeInstanceOf(MusicMarkovChain);
+      expect(restored.toJSON()).toEqual(chain.toJSON());
+      expect(restored.getDetectedKey()).toBe(chain.getDetectedKey());
+      expect(restored.getRhythmChain().getStates()).toEqual(chain.getRhythmChain().getStates());
+
+      const music = restored.generateSequence(4);
+      expect(music.notes.length).toBeGreaterThan(0);
+      music.notes.forEach((note) => {
+        expect(note.pitch).toBeGreaterThanOrEqual(48);
+        expect(note.pitch).toBeLessThanOrEqual(72);
+      });
+    });
+
+    it("should round-trip the scale constraint", () => {
+      const chain = new MusicMarkovChain({ order: 1, smoothing: 0.1 });
+      chain.trainWithMusic(
+        [["C4", "C#4", "D4", "F4", "F#4", "G4", "A#4", "C5"]],
+        [["4", "4", "4", "4", "4", "4", "4", "4"]]
+      );
+      chain.setKey("C");
+      chain.setScaleConstraint("penalty", 0.3);
+
+      const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain));
+      expect(restored.toJSON().harmonic).toMatchObject({
+        scaleConstraint: "penalty",
+        scalePenalty: 0.3,
+      });
+
+      chain.setSeed(5);
+      restored.setSeed(5);
+      expect(restored.generateSequence(16)).toEqual(chain.generateSequence(16));
+
+      const data = chain.toJSON();
+      expect(() =>
+        MusicMarkovChain.fromJSON({
+          ...data,
+          harmonic: { ...data.harmonic, scaleConstraint: "strict" as "off" },
+        })
+      ).toThrow("model.harmonic.scaleConstraint");
+      expect(() =>
+        MusicMarkovChain.fromJSON({ ...data, harmonic: { ...data.harmonic, scalePenalty: 2 } })
+      ).toThrow("model.harmonic.scalePenalty");
+    });
+
+    it("should reject payloads missing music-specific sections", () => {
+      const chain = new MusicMarkovChain({ order: 1, smoothing: 0.1 });
+      chain.trainWithMusic([["C4", "D4", "E4"]], [["4", "4", "4"]]);
+      const data = chain.toJSON();
+
+      expect(() => MusicMarkovChain.fromJSON({ ...data, type: "MarkovChain" })).toThrow(
+        "model.type"
+      );
+      expect(() => MusicMarkovChain.fromJSON({ ...data, rhythmChain: {} })).toThrow(
+        "model.rhythmChain"
+      );
+      expect(() =>
+        MusicMarkovChain.fromJSON({ ...data, harmonic: { ...data.harmonic, scale: [13] } })
+      ).toThrow("model.harmonic.scale");
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { MarkovChain } from "../core/MarkovChain";
+import { SmoothingMethod } from "../types";
+
+describe("Smoothing methods", () => {
+  const training = [["A", "B", "A", "C", "A", "B"]];
+
+  const createChain = (smoothingMethod?: SmoothingMethod, smoothing: number = 0.5) => {
+    const chain = new MarkovChain({ order: 1, smoothing, smoothingMethod });
+    chain.train(training);
+    return chain;
+  };
+
+  const transitionsOf = (chain: MarkovChain, context: string) =>
+    chain.getStates().find((state) => state.id === context)!.transitions;
+
+  it("should keep unseen transitions impossible with the observed method", () => {
+    const chain = createChain(undefined, 1);
+
+    expect(transitionsOf(chain, "A").has("A")).toBe(false);
+    expect(chain.logLikelihood(["A", "A"])).toBe(-Infinity);
+  });
+
+  it("should add the pseudo-count to every element of the vocabulary", () => {
+    const transitions = transitionsOf(createChain("additive", 1), "A");
+
+    // A -> B twice, A -> C once, over a vocabulary of 3
+    expect(transitions.get("A")).toBeCloseTo(1 / 6);
+    expect(transitions.get("B")).toBeCloseTo(3 / 6);
+    expect(transitions.get("C")).toBeCloseTo(2 / 6);
+  });
+
+  it("should give every known element a probability that sums to one", () => {
+    const methods: SmoothingMethod[] = [
+      "additive",
+      "wittenBell",
+      "absoluteDiscounting",
+      "kneserNey",
+    ];
+
+    for (const method of methods) {
+      for (const state of createChain(method).getStates()) {
+        const probabilities = Array.from(state.transitions.values());
+        expect(state.transitions.size).toBe(3);
+        expect(probabilities.every((probability) => probability > 0)).toBe(true);
+        expect(probabilities.reduce((sum, probability) => sum + probability, 0)).toBeCloseTo(1);
+      }
+      expect(Number.isFinite(createChain(method).logLikelihood(["C", "C", "B"]))).toBe(true);
+    }
+  });
+
+  it("should interpolate Witten-Bell estimates down to the uniform distribution", () => {
+    const transitions = transitionsOf(createChain("wittenBell"), "A");
+
+    // Unigrams: (count + 3 * 1/3) / (6 + 3); context A: (count + 2 * unigram) / (3 + 2)
+    expect(transitions.get("A")).toBeCloseTo(8 / 45);
+    expect(transitions.get("B")).toBeCloseTo(8 / 15);
+    expect(transitions.get("C")).toBeCloseTo(13 / 45);
+  });
+
+  it("should back off with continuation counts for Kneser-Ney", () => {
+    const discounted = transitionsOf(createChain("absoluteDiscounting"), "C");
+    const kneserNey = transitionsOf(createChain("kneserNey"), "C");
+
+    // B occurs twice but only ever follows A, so Kneser-Ney trusts it less as a continuation
+    expect(discounted.get("A")).toBeCloseTo(0.5 + 0.5 * 0.5);
+    expect(discounted.get("B")).toBeCloseTo(0.5 * (1 / 3));
+    expect(kneserNey.get("A")).toBeCloseTo(0.5 + 0.5 * 0.5);
+    expect(kneserNey.get("B")).toBeCloseTo(0.5 * 0.25);
+  });
+
+  it("should fall back to lower orders for contexts never seen", () => {
+    const chain = new MarkovChain({ order: 2, smoothing: 0, smoothingMethod: "wittenBell" });
+    chain.train(training);
+
+    const [scored] = chain.tokenLogProbabilities(["C", "C", "B"]);
+    expect(scored.order).toBe(1);
+    // Context C only ever led to A: (0 + 1 * unigram B) / (1 + 1)
+    expect(scored.logProbability).toBeCloseTo(Math.log(3 / 9 / 2));
+  });
+
+  it("should spread probability over elements added to the vocabulary", () => {
+    const chain = createChain("additive", 1);
+    chain.extendVocabulary(["D"]);
+
+    // A -> B twice, A -> C once, over a vocabulary of 4
+    expect(transitionsOf(chain, "A").get("D")).toBeCloseTo(1 / 7);
+    expect(Number.isFinite(chain.logLikelihood(["A", "D"]))).toBe(true);
+  });
+
+  it("should keep the method through serialization", () => {
+    const chain = createChain("kneserNey");
+    const restored = MarkovChain.fromJSON(JSON.stringify(chain));
+
+    expect(restored.getConfig().smoothingMethod).toBe("kneserNey");
+    expect(transitionsOf(restored, "C")).toEqual(transitionsOf(chain, "C"));
+  });
+
+  it("should reject unknown methods and discounts outside 0-1", () => {
+    expect(
+      () =>
+        new MarkovChain({ order: 1, smoothing: 0, smoothingMethod: "laplace" as SmoothingMethod })
+    ).toThrow("Unsupported smoothing method: laplace");
+    expect(() => createChain("kneserNey", 2)).toThrow("must be between 0 and 1");
+
+    const serialized = {
+      ...createChain().toJSON(),
+      config: { order: 1, smoothing: 0, smoothingMethod: "x" },
+    };
+    expect(() => MarkovChain.fromJSON(serialized)).toThrow(
+      ".config.smoothingMethod must be one of"
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { MarkovChain } from "../core/MarkovChain";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { parseKey } from "../music/Scales";
+
+describe("Streaming generation", () => {
+  const createChain = () => {
+    const chain = new MarkovChain({ order: 1, smoothing: 0, seed: 5 });
+    chain.train([
+      ["A", "B", "C", "A", "B", "C", "A"],
+      ["A", "C", "B", "A"],
+    ]);
+    return chain;
+  };
+
+  const createMusicChain = () => {
+    const chain = new MusicMarkovChain({ order: 1, smoothing: 0, seed: 3 });
+    chain.trainWithMusic(
+      [
+        ["C4", "E4", "G4", "E4", "D4", "C4"],
+        ["G4", "A4", "G4", "E4", "C4"],
+      ],
+      [
+        ["4", "8", "8", "4", "4", "2"],
+        ["8", "8", "4", "4", "2"],
+      ]
+    );
+    chain.setPitchRange(48, 96);
+    return chain;
+  };
+
+  it("should keep generating past the length of the training data", () => {
+    const tokens = createChain().stream(["A"]).take(200);
+
+    expect(tokens).toHaveLength(200);
+    expect(new Set(tokens)).toEqual(new Set(["A", "B", "C"]));
+  });
+
+  it("should emit injected tokens next and continue from them", () => {
+    const chain = createChain();
+    chain.setDecoding({ strategy: "greedy" });
+    const stream = chain.stream(["A"]);
+
+    stream.next();
+    stream.inject("C", "X");
+    expect(stream.take(2)).toEqual(["C", "X"]);
+    // X was never seen, so the chain falls back and keeps going
+    expect(stream.next().done).toBe(false);
+
+    // B -> C twice, B -> A once
+    stream.inject("B");
+    expect(stream.take(2)).toEqual(["B", "C"]);
+  });
+
+  it("should pick up chain settings changed mid-stream", () => {
+    const chain = createChain();
+    const stream = chain.stream(["A"]);
+    stream.take(10);
+
+    chain.setDecoding({ strategy: "greedy" });
+    stream.inject("A");
+    // A -> B twice, A -> C once; greedy decoding then cycles B -> C -> A
+    expect(stream.take(7)).toEqual(["A", "B", "C", "A", "B", "C", "A"]);
+  });
+
+  it("should stop when the signal is aborted", () => {
+    const controller = new AbortController();
+    const stream = createChain().stream(["A"], controller.signal);
+    const tokens: string[] = [];
+
+    for (const token of stream) {
+      tokens.push(token);
+      if (tokens.length === 5) controller.abort();
+    }
+
+    expect(tokens).toHaveLength(5);
+    expect(stream.next().done).toBe(true);
+  });
+
+  it("should end when a loop breaks out of the stream", async () => {
+    const stream = createChain().stream(["A"]);
+    const tokens: string[] = [];
+
+    for await (const token of stream) {
+      tokens.push(token);
+      if (tokens.length === 3) break;
+    }
+
+    expect(tokens).toHaveLength(3);
+    expect(stream.isDone()).toBe(true);
+  });
+
+  it("should stream timed notes", () => {
+    const notes = createMusicChain().streamNotes().take(64);
+
+    expect(notes).toHaveLength(64);
+    for (let i = 1; i < notes.length; i++) {
+      expect(notes[i].startTime).toBeGreaterThanOrEqual(notes[i - 1].startTime);
+      expect(notes[i].startTime).toBeGreaterThanOrEqual(
+        notes[i - 1].startTime + notes[i - 1].duration - 1e-6
+      );
+    }
+  });
+
+  it("should follow a key change and injected notes mid-stream", () => {
+    const chain = createMusicChain();
+    chain.setScaleConstraint("snap");
+    const stream = chain.streamNotes();
+    stream.take(8);
+
+    chain.setKey("F#");
+    const fSharp = parseKey("F#").pitchClasses;
+    expect(stream.take(16).every((note) => fSharp.includes(note.pitch % 12))).toBe(true);
+
+    chain.setKey("C");
+    stream.inject("C5");
+    expect(stream.next().value.pitch).toBe(72);
+  });
+
+  it("should render the start note first for interval streams", () => {
+    const chain = createMusicChain();
+    chain.setPitchRepresentation("interval");
+    chain.trainWithMusic([["C4", "E4", "G4", "E4", "C4"]], [["4", "4", "4", "4", "4"]]);
+    chain.setStartNote("D4");
+
+    const notes = chain.streamNotes().take(5);
+    expect(notes[0].pitch).toBe(62);
+    expect(notes[1].pitch - notes[0].pitch).toBe(4);
+  });
+
+  it("should pace notes in real time and wake up when aborted", async () => {
+    const chain = createMusicChain();
+    chain.setTempo(6000); // 10 ms per quarter note
+    const controller = new AbortController();
+    const stream = chain.streamNotes({ realTime: true, signal: controller.signal });
+    const started = Date.now();
+    const notes = [];
+
+    for await (const note of stream) {
+      notes.push(note);
+      if (notes.length === 6) break;
+    }
+    expect(Date.now() - started).toBeGreaterThanOrEqual(notes[5].startTime - 5);
+
+    chain.setTempo(6);
+    const slow = chain.streamNotes({ realTime: true, signal: controller.signal });
+    const iterator = slow[Symbol.asyncIterator]();
+    await iterator.next();
+    const pending = iterator.next();
+    controller.abort();
+    expect((await pending).done).toBe(true);
+  });
+
+  it("should wake up a pending real-time wait when stopped", async () => {
+    const chain = createMusicChain();
+    chain.setTempo(6); // 10 s per quarter note
+    const stream = chain.streamNotes({ realTime: true });
+    const iterator = stream[Symbol.asyncIterator]();
+    await iterator.next();
+
+    const started = Date.now();
+    const pending = iterator.next();
+    stream.stop();
+    expect((await pending).done).toBe(true);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { MarkovChain } from "../core/MarkovChain";
+
+describe("Variable-order Markov chain", () => {
+  const sequences = [
+    ["a", "b", "c", "d", "a", "b", "c", "e"],
+    ["b", "c", "d", "b", "a"],
+  ];
+
+  const createChain = () => {
+    const chain = new MarkovChain({ order: 3, smoothing: 0, variableOrder: true, seed: 11 });
+    chain.train(sequences);
+    return chain;
+  };
+
+  it("should use the full order when the context has been seen", () => {
+    const chain = createChain();
+    const { steps } = chain.generateWithSteps(1, ["a", "b", "c"]);
+
+    // "a|b|c" was followed by d and e, so the selected element comes from order 3
+    expect(["d", "e"]).toContain(steps[0].selectedElement);
+    expect(steps[0].order).toBe(3);
+  });
+
+  it("should blend orders into a proper distribution with escape probabilities", () => {
+    const chain = createChain();
+    const { steps } = chain.generateWithSteps(1, ["a", "b", "c"]);
+    const distribution = new Map(
+      steps[0].availableTransitions.map(({ element, probability }) => [element, probability])
+    );
+
+    const total = Array.from(distribution.values()).reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(1);
+
+    // Order 3 ("a|b|c" -> d, e) keeps 2 / 4 of the mass and escapes with the rest. Orders 2 and 1
+    // only predict d and e again, so the escape lands on the unigram counts a:3 b:4 c:3, which
+    // keep 10 / 13 of it. The final 3 / 13 of the escape is dropped and everything renormalized.
+    const totalMass = 1 - 0.5 * (3 / 13);
+    expect(distribution.get("d")).toBeCloseTo(0.25 / totalMass);
+    expect(distribution.get("e")).toBeCloseTo(0.25 / totalMass);
+    expect(distribution.get("a")).toBeCloseTo((0.5 * 3) / 13 / totalMass);
+    expect(distribution.get("b")).toBeCloseTo((0.5 * 4) / 13 / totalMass);
+  });
+
+  it("should back off to shorter contexts for unseen histories", () => {
+    const chain = createChain();
+    const { sequence, steps } = chain.generateWithSteps(1, ["e", "e", "c"]);
+
+    // Neither "e|e|c" nor "e|c" exist, so the prediction comes from the "c" context
+    expect(sequence).toHaveLength(1);
+    expect(steps[0].order).toBe(1);
+  });
+
+  it("should keep generating to the requested length where fixed order stops", () => {
+    const fixed = new MarkovChain({ order: 3, smoothing: 0, seed: 3 });
+    fixed.train([["a", "b", "c", "d"]]);
+    expect(fixed.generate(10, ["a", "b", "c"]).length).toBeLessThan(10);
+
+    const variable = new MarkovChain({ order: 3, smoothing: 0, variableOrder: true, seed: 3 });
+    variable.train([["a", "b", "c", "d"]]);
+    expect(variable.generate(10, ["a", "b", "c"])).toHaveLength(10);
+  });
+
+  it("should report order usage through OrderAnalysis", () => {
+    const chain = createChain();
+    const { sequence, orders, analysis } = chain.generateWithOrderAnalysis(20, ["a", "b", "c"]);
+
+    expect(orders).toHaveLength(sequence.length);
+    expect(orders.every((order) => order >= 0 && order <= 3)).toBe(true);
+    expect(analysis.currentOrder).toBe(orders[orders.length - 1]);
+    expect(analysis.averageOrder).toBeCloseTo(
+      orders.reduce((sum, order) => sum + order, 0) / orders.length
+    );
+    expect(Object.values(analysis.orderDistribution).reduce((sum, n) => sum + n, 0)).toBe(
+      orders.length
+    );
+    expect(analysis.adaptationEvents).toBeGreaterThanOrEqual(0);
+    expect(analysis.contextComplexity).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should keep back-off counts consistent across appends and serialization", () => {
+    const incremental = new MarkovChain({ order: 2, smoothing: 0, variableOrder: true, seed: 5 });
+    incremental.train([sequences[0]]);
+    incremental.trainAppend([sequences[1]]);
+
+    const restored = MarkovChain.fromJSON(JSON.stringify(incremental));
+    restored.setSeed(5);
+    const batch = new MarkovChain({ order: 2, smoothing: 0, variableOrder: true, seed: 5 });
+    batch.train(sequences);
+
+    expect(restored.generateWithSteps(12, ["z"])).toEqual(batch.generateWithSteps(12, ["z"]));
+  });
+});
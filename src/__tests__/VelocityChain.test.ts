@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MusicMarkovChain } from "../music/MusicMarkovChain";
+import { MIDIParser, ParsedMIDI } from "../input/MIDIParser";
+import { DYNAMIC_BANDS, dynamicToVelocity, velocityToDynamic } from "../music/Dynamics";
+
+describe("Dynamics", () => {
+  it("should quantize velocities into pp..ff bands", () => {
+    expect(velocityToDynamic(20)).toBe("pp");
+    expect(velocityToDynamic(50)).toBe("p");
+    expect(velocityToDynamic(64)).toBe("mp");
+    expect(velocityToDynamic(80)).toBe("mf");
+    expect(velocityToDynamic(100)).toBe("f");
+    expect(velocityToDynamic(127)).toBe("ff");
+    expect(dynamicToVelocity("ff")).toBe(112);
+    expect(dynamicToVelocity("fff")).toBeNull();
+  });
+
+  it("should extract per-note dynamics from MIDI", () => {
+    const midi: ParsedMIDI = {
+      tracks: [
+        {
+          name: "Lead",
+          channel: 0,
+          isDrumTrack: false,
+          notes: [100, 40, 70].map((velocity, index) => ({
+            pitch: 60 + index,
+            velocity,
+            duration: 500,
+            startTime: index * 500,
+          })),
+        },
+      ],
+      duration: 1500,
+      timeSignature: "4/4",
+      keySignature: "C major",
+      tempo: 120,
+    };
+
+    expect(new MIDIParser().extractVelocitySequences(midi)).toEqual([["f", "pp", "mp"]]);
+  });
+});
+
+describe("MusicMarkovChain velocity chain", () => {
+  let chain: MusicMarkovChain;
+
+  const melody = ["C4", "D4", "E4", "F4", "G4", "F4", "E4", "D4", "C4", "E4", "G4", "E4"];
+  const quarters = Array(12).fill("4");
+  // Accent on every downbeat of a 4/4 bar
+  const accents = ["ff", "p", "mp", "p", "ff", "p", "mp", "p", "ff", "p", "mp", "p"];
+
+  beforeEach(() => {
+    chain = new MusicMarkovChain({ order: 1, smoothing: 0.1, temperature: 1.0, seed: 6 });
+  });
+
+  it("should fall back to rhythm-based velocities without training data", () => {
+    chain.trainWithMusic([melody], [Array(12).fill("8")]);
+
+    const sequence = chain.generateSequence(8);
+    expect(sequence.notes.every((note) => note.velocity === 90)).toBe(true);
+    expect(chain.generateVelocities(["4", "4"])).toEqual([]);
+  });
+
+  it("should generate learned dynamics", () => {
+    chain.trainWithMusic([melody], [quarters], [accents]);
+
+    const sequence = chain.generateSequence(16);
+    const bandVelocities = DYNAMIC_BANDS.map((band) => band.velocity);
+    for (const note of sequence.notes) {
+      expect(bandVelocities).toContain(note.velocity);
+    }
+  });
+
+  it("should accept raw MIDI velocities", () => {
+    chain.trainWithMusic([melody], [quarters], [melody.map(() => "100")]);
+    expect(chain.generateVelocities(["4", "4", "4"])).toEqual(["f", "f", "f"]);
+  });
+
+  it("should place accents on downbeats when conditioned on metric position", () => {
+    chain.setMetricVelocity(true);
+    chain.trainWithMusic(
+      [melody, melody.slice(0, 4)],
+      [quarters, ["2", "2", "2", "2"]],
+      [accents, ["ff", "mp", "ff", "mp"]]
+    );
+
+    for (let run = 0; run < 5; run++) {
+      const rhythm = ["4", "4", "4", "4", "2", "4", "4", "1"];
+      const velocities = chain.generateVelocities(rhythm);
+      expect(velocities).toHaveLength(rhythm.length);
+      // Downbeats fall on notes 0, 4 and 7 of this rhythm
+      expect([velocities[0], velocities[4], velocities[7]]).toEqual(["ff", "ff", "ff"]);
+      expect(velocities.filter((velocity) => velocity === "ff")).toHaveLength(3);
+    }
+  });
+
+  it("should keep the velocity chain when serialized", () => {
+    chain.setMetricVelocity(true);
+    chain.trainWithMusic([melody], [quarters], [accents]);
+
+    const restored = MusicMarkovChain.fromJSON(JSON.stringify(chain.toJSON()));
+    expect(restored.getVelocityChain().getTransitionCounts("D@ff")).toEqual(
+      chain.getVelocityChain().getTransitionCounts("D@ff")
+    );
+    expect(restored.generateVelocities(["4", "4", "4", "4", "4"])).toEqual([
+      "ff",
+      "p",
+      "mp",
+      "p",
+      "ff",
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { VoiceLeadingEngine } from "../music/VoiceLeadingEngine";
+import { Chord, PolyphonicSequence } from "../types";
+
+const chord = (pitches: number[], index: number): Chord => ({
+  notes: pitches.map((pitch) => ({ pitch, velocity: 90, startTime: index * 1000, duration: 1000 })),
+  startTime: index * 1000,
+  duration: 1000,
+  id: pitches.join("+"),
+});
+
+const sequenceOf = (chords: number[][]): PolyphonicSequence => ({
+  chords: chords.map(chord),
+  duration: chords.length * 1000,
+  key: "C",
+});
+
+describe("VoiceLeadingEngine", () => {
+  // I - vi - IV - V7 - I in C, all in close root position (full of parallels)
+  const progression = sequenceOf([
+    [48, 52, 55],
+    [45, 48, 52],
+    [53, 57, 60],
+    [55, 59, 62, 65],
+    [48, 52, 55],
+  ]);
+
+  it("should voice chords in four parts without breaking the rules", () => {
+    const engine = new VoiceLeadingEngine();
+    const voiced = engine.voiceSequence(progression);
+
+    expect(voiced.chords).toHaveLength(5);
+    voiced.chords.forEach((voicedChord, index) => {
+      const pitches = voicedChord.notes.map((note) => note.pitch);
+      expect(pitches).toHaveLength(4);
+      // Same harmony, root in the bass
+      expect(new Set(pitches.map((pitch) => pitch % 12))).toEqual(
+        new Set(progression.chords[index].notes.map((note) => note.pitch % 12))
+      );
+      expect(pitches[0] % 12).toBe(progression.chords[index].notes[0].pitch % 12);
+      expect(voicedChord.startTime).toBe(index * 1000);
+      expect(voicedChord.notes[0].velocity).toBe(90);
+    });
+    expect(engine.findViolations(progression).length).toBeGreaterThan(0);
+    expect(engine.findViolations(voiced)).toEqual([]);
+  });
+
+  it("should keep the upper voices close", () => {
+    const voiced = new VoiceLeadingEngine().voiceSequence(progression);
+
+    for (let i = 1; i < voiced.chords.length; i++) {
+      const motion = [1, 2, 3].reduce(
+        (total, voice) =>
+          total +
+          Math.abs(voiced.chords[i].notes[voice].pitch - voiced.chords[i - 1].notes[voice].pitch),
+        0
+      );
+      expect(motion).toBeLessThanOrEqual(6);
+    }
+  });
+
+  it("should report parallel fifths, octaves and large leaps", () => {
+    const engine = new VoiceLeadingEngine({ maxInterval: 5 });
+    const violations = engine.findViolations(
+      sequenceOf([
+        [48, 55, 60, 64],
+        [50, 57, 62, 65],
+        [43, 57, 62, 65],
+      ])
+    );
+
+    expect(violations).toContainEqual(
+      expect.objectContaining({ chordIndex: 1, rule: "parallelFifths", voices: [0, 1] })
+    );
+    expect(violations).toContainEqual(
+      expect.objectContaining({ chordIndex: 1, rule: "parallelOctaves", voices: [0, 2] })
+    );
+    expect(violations).toContainEqual({
+      chordIndex: 2,
+      rule: "maxInterval",
+      voices: [0],
+      description: "The bass leaps 7 semitones into chord 3",
+    });
+  });
+
+  it("should only report the parallels the rules forbid", () => {
+    const engine = new VoiceLeadingEngine({ avoidParallelFifths: false });
+    const parallels = sequenceOf([
+      [48, 55, 64],
+      [50, 57, 65],
+    ]);
+
+    expect(engine.findViolations(parallels)).toEqual([]);
+    engine.setRules({ avoidParallelFifths: true });
+    expect(engine.getRules().avoidParallelFifths).toBe(true);
+    expect(engine.findViolations(parallels).map((violation) => violation.rule)).toEqual([
+      "parallelFifths",
+    ]);
+  });
+
+  it("should leave chords that cannot be voiced in four parts untouched", () => {
+    const voiced = new VoiceLeadingEngine().voiceSequence(
+      sequenceOf([[48, 52, 55], [60], [53, 57, 60]])
+    );
+
+    expect(voiced.chords[1].notes.map((note) => note.pitch)).toEqual([60]);
+    expect(voiced.chords[0].notes).toHaveLength(4);
+    expect(voiced.chords[2].notes).toHaveLength(4);
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { MarkovChain } from "../core/MarkovChain";
+import { MarkovConfig } from "../types";
 
 export interface ComplexityMetrics {
   operations: number;
@@ -51,6 +52,35 @@ export interface OptimizationRecommendation {
   memoryImpact: "low" | "medium" | "high";
 }
 
+export interface CrossValidationOptions {
+  /** Orders to compare (default 1-5) */
+  orders?: number[];
+  /** Smoothing values to compare, all above 0 (default 0.01, 0.1, 0.2 and 0.5) */
+  smoothingValues?: number[];
+  /** Number of folds (default 5) */
+  folds?: number;
+  /**
+   * Other settings of the chains, e.g. { variableOrder: true }. The smoothing method must
+   * spread probability over the vocabulary (additive when missing)
+   */
+  baseConfig?: Partial<MarkovConfig>;
+}
+
+export interface CrossValidationResult {
+  order: number;
+  smoothing: number;
+  /** Perplexity of every held-out token */
+  perplexity: number;
+}
+
+export interface OrderSelection {
+  /** Config of the best-ranked order and smoothing */
+  best: MarkovConfig;
+  /** Every order/smoothing pair, best first */
+  results: CrossValidationResult[];
+  folds: number;
+}
+
 export class ComplexityAnalysis {
   private measurements: Map<string, number> = new Map();
 
@@ -172,51 +202,140 @@ export class ComplexityAnalysis {
 
   /**
    * Recommend optimal order for given training data
+   * By default orders 1-5 are scored from estimated time, memory and coverage, which is cheap.
+   * Pass cross-validation options to choose the order by held-out perplexity instead (see
+   * crossValidateOrder); that trains orders x smoothing values x folds chains, 100 for an empty
+   * options object. With fewer than two sequences there is nothing to hold out and order 1 is
+   * recommended
+   *
+   * @param sequences Training sequences
+   * @param crossValidation Cross-validation grid; omit for the estimate-based recommendation
    */
-  recommendOptimalOrder(sequences: string[][]): OptimizationRecommendation {
+  recommendOptimalOrder(
+    sequences: string[][],
+    crossValidation?: CrossValidationOptions
+  ): OptimizationRecommendation {
+    if (!crossValidation) {
+      return this.estimateOptimalOrder(sequences);
+    }
+
     const vocabularySize = this.estimateVocabularySize(sequences);
     const totalLength = sequences.reduce((sum, seq) => sum + seq.length, 0);
-    const avgLength = totalLength / sequences.length;
-
-    let bestOrder = 1;
-    let bestScore = 0;
-    const recommendations: OptimizationRecommendation[] = [];
-
-    for (let order = 1; order <= 5; order++) {
-      const memoryUsage = this.estimateMemoryUsage(vocabularySize, order);
-      const complexity = this.measureTrainingComplexity(sequences, order);
-
-      // Score based on balance of complexity and memory usage
-      const complexityScore = 1 / (complexity.actualTime + 1);
-      const memoryScore = memoryUsage.feasible ? 1 : 0.1;
-      const coverageScore = Math.min(1, vocabularySize ** order / (totalLength * 0.1));
-
-      const score = complexityScore * memoryScore * coverageScore;
-
-      let memoryImpact: "low" | "medium" | "high" = "low";
-      if (memoryUsage.bytesEstimate > 50 * 1024 * 1024) {
-        memoryImpact = "high";
-      } else if (memoryUsage.bytesEstimate > 10 * 1024 * 1024) {
-        memoryImpact = "medium";
-      }
+    const avgLength = sequences.length > 0 ? totalLength / sequences.length : 0;
+
+    let order = 1;
+    let reasoning =
+      "Not enough sequences to cross-validate; order 1 generalizes best with little data";
+    let expectedImprovement = 0;
+    if (sequences.filter((sequence) => sequence.length > 1).length >= 2) {
+      const [best, ...others] = this.crossValidateOrder(sequences, crossValidation).results;
+      const baseline = others.find((result) => result.order === 1) ?? best;
+      order = best.order;
+      reasoning =
+        `${this.getOrderReasoning(order, vocabularySize, avgLength, true)}; ` +
+        `held-out perplexity ${best.perplexity.toFixed(2)} with smoothing ${best.smoothing}`;
+      expectedImprovement = Math.max(0, 1 - best.perplexity / baseline.perplexity);
+    }
 
-      const recommendation: OptimizationRecommendation = {
-        order,
-        reasoning: this.getOrderReasoning(order, vocabularySize, avgLength, memoryUsage.feasible),
-        tradeoffs: this.getOrderTradeoffs(order, complexity, memoryUsage),
-        expectedImprovement: score,
-        memoryImpact,
-      };
+    const memoryUsage = this.estimateMemoryUsage(vocabularySize, order);
+    const complexity = this.measureTrainingComplexity(sequences, order);
+    return {
+      order,
+      reasoning,
+      tradeoffs: this.getOrderTradeoffs(order, complexity, memoryUsage),
+      expectedImprovement,
+      memoryImpact: this.getMemoryImpact(memoryUsage.bytesEstimate),
+    };
+  }
 
-      recommendations.push(recommendation);
+  /**
+   * Choose the order and smoothing that best predict unseen music, by k-fold cross-validation:
+   * each fold of sequences is held out in turn, chains are trained on the rest and scored on it.
+   * Results are ranked by held-out perplexity. The chains use a smoothing method that spreads
+   * probability over the vocabulary of all sequences, so every held-out token is scored, even
+   * one the training folds never contain. Every configuration is scored on the same tokens
+   * (those after the longest order's context). With fewer sequences than folds, sequences are
+   * cut into pieces first.
+   *
+   * Trains orders x smoothing values x folds chains, 100 with the defaults.
+   *
+   * @param sequences Training sequences
+   * @param options Orders, smoothing values and number of folds to try
+   */
+  crossValidateOrder(sequences: string[][], options: CrossValidationOptions = {}): OrderSelection {
+    const orders = options.orders ?? [1, 2, 3, 4, 5];
+    const smoothingValues = options.smoothingValues ?? [0.01, 0.1, 0.2, 0.5];
+    const folds = options.folds ?? 5;
+    const smoothingMethod = options.baseConfig?.smoothingMethod ?? "additive";
+    if (!Number.isInteger(folds) || folds < 2) {
+      throw new Error("Cross-validation needs at least 2 folds");
+    }
+    if (orders.length === 0 || !orders.every((order) => Number.isInteger(order) && order > 0)) {
+      throw new Error("Orders must be positive whole numbers");
+    }
+    if (smoothingValues.length === 0 || !smoothingValues.every((smoothing) => smoothing > 0)) {
+      throw new Error("Smoothing values must be greater than 0");
+    }
+    if (smoothingMethod === "observed") {
+      throw new Error("Cross-validation needs a smoothing method that covers the vocabulary");
+    }
 
-      if (score > bestScore) {
-        bestScore = score;
-        bestOrder = order;
+    const pieces = this.splitForFolds(
+      sequences.filter((sequence) => sequence.length > 0),
+      folds
+    );
+    if (pieces.length < 2) {
+      throw new Error("Cross-validation needs at least 2 sequences");
+    }
+    const foldCount = Math.min(folds, pieces.length);
+    const vocabulary = Array.from(new Set(pieces.flat()));
+    let skip = 0;
+    for (const order of orders) skip = Math.max(skip, order);
+
+    const results: CrossValidationResult[] = [];
+    for (const order of orders) {
+      for (const smoothing of smoothingValues) {
+        const config = { ...options.baseConfig, smoothingMethod, order, smoothing };
+        let logProbability = 0;
+        let tokens = 0;
+
+        for (let fold = 0; fold < foldCount; fold++) {
+          const heldOut = pieces.filter((_, index) => index % foldCount === fold);
+          const chain = new MarkovChain(config);
+          chain.extendVocabulary(vocabulary);
+          chain.train(pieces.filter((_, index) => index % foldCount !== fold));
+
+          for (const sequence of heldOut) {
+            const scored = chain.tokenLogProbabilities(sequence);
+            const compared = Math.max(0, sequence.length - skip);
+            for (const token of scored.slice(scored.length - compared)) {
+              logProbability += token.logProbability;
+              tokens++;
+            }
+          }
+        }
+
+        results.push({
+          order,
+          smoothing,
+          perplexity: tokens > 0 ? Math.exp(-logProbability / tokens) : Infinity,
+        });
       }
     }
 
-    return recommendations.find((r) => r.order === bestOrder) || recommendations[0];
+    // Stable sort: on ties, lower orders and the smoothing listed first win
+    results.sort((a, b) => a.perplexity - b.perplexity);
+
+    return {
+      best: {
+        ...options.baseConfig,
+        smoothingMethod,
+        order: results[0].order,
+        smoothing: results[0].smoothing,
+      },
+      results,
+      folds: foldCount,
+    };
   }
 
   /**
@@ -306,6 +425,69 @@ export class ComplexityAnalysis {
 
   // Private helper methods
 
+  /**
+   * Cut sequences into pieces until there is at least one per fold
+   */
+  private splitForFolds(sequences: string[][], folds: number): string[][] {
+    if (sequences.length === 0 || sequences.length >= folds) return sequences;
+
+    const piecesPerSequence = Math.ceil(folds / sequences.length);
+    return sequences.flatMap((sequence) => {
+      const pieceLength = Math.ceil(sequence.length / piecesPerSequence);
+      const pieces: string[][] = [];
+      for (let start = 0; start < sequence.length; start += pieceLength) {
+        pieces.push(sequence.slice(start, start + pieceLength));
+      }
+      return pieces;
+    });
+  }
+
+  /**
+   * Score orders 1-5 from estimated time, memory and coverage, without training any chain
+   */
+  private estimateOptimalOrder(sequences: string[][]): OptimizationRecommendation {
+    const vocabularySize = this.estimateVocabularySize(sequences);
+    const totalLength = sequences.reduce((sum, seq) => sum + seq.length, 0);
+    const avgLength = sequences.length > 0 ? totalLength / sequences.length : 0;
+
+    let bestOrder = 1;
+    let bestScore = 0;
+    const recommendations: OptimizationRecommendation[] = [];
+
+    for (let order = 1; order <= 5; order++) {
+      const memoryUsage = this.estimateMemoryUsage(vocabularySize, order);
+      const complexity = this.measureTrainingComplexity(sequences, order);
+
+      // Score based on balance of complexity and memory usage
+      const complexityScore = 1 / (complexity.actualTime + 1);
+      const memoryScore = memoryUsage.feasible ? 1 : 0.1;
+      const coverageScore = Math.min(1, vocabularySize ** order / (totalLength * 0.1));
+
+      const score = complexityScore * memoryScore * coverageScore;
+
+      recommendations.push({
+        order,
+        reasoning: this.getOrderReasoning(order, vocabularySize, avgLength, memoryUsage.feasible),
+        tradeoffs: this.getOrderTradeoffs(order, complexity, memoryUsage),
+        expectedImprovement: score,
+        memoryImpact: this.getMemoryImpact(memoryUsage.bytesEstimate),
+      });
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestOrder = order;
+      }
+    }
+
+    return recommendations.find((r) => r.order === bestOrder) || recommendations[0];
+  }
+
+  private getMemoryImpact(bytesEstimate: number): "low" | "medium" | "high" {
+    if (bytesEstimate > 50 * 1024 * 1024) return "high";
+    if (bytesEstimate > 10 * 1024 * 1024) return "medium";
+    return "low";
+  }
+
   private estimateVocabularySize(sequences: string[][]): number {
     const vocabulary = new Set<string>();
     for (const sequence of sequences) {
@@ -3,17 +3,95 @@
  * - States represent some element
  * - Transitions represent probability distributions between states
  * - The chain "remembers" previous states to create context-aware sequences
+ *
+ * Raw transition counts are the source of truth; the probabilities exposed through
+ * states are derived from them, so incremental training never mixes counts and probabilities.
  */
 
-import { MarkovState, MarkovConfig } from "../types";
+import {
+  MarkovState,
+  MarkovConfig,
+  DecodingOptions,
+  GenerationStep,
+  OrderAnalysis,
+  PositionConstraints,
+  ScoredSequence,
+  SerializedMarkovChain,
+  SmoothingMethod,
+  TokenLogProbability,
+  SerializedMarkovState,
+} from "../types";
+import { MarkovStream } from "./MarkovStream";
+import { RandomSource, SeededRandom, createRandomSource } from "./Random";
+
+/**
+ * Current version of the serialized model format produced by toJSON()
+ */
+export const MODEL_FORMAT_VERSION = 2;
+
+const SMOOTHING_METHODS: SmoothingMethod[] = [
+  "observed",
+  "additive",
+  "wittenBell",
+  "absoluteDiscounting",
+  "kneserNey",
+];
+
+/**
+ * Distribution of the next element for a context, plus the context order it came from
+ */
+export interface NextTransitions {
+  transitions: Map<string, number>;
+  /** Longest context order that contributed */
+  order: number;
+  /** Order each element was predicted from (variable-order chains only) */
+  orders: Map<string, number>;
+}
+
+/**
+ * A context reachable at some step of constrained generation, with the elements it may emit
+ */
+interface ConstrainedState {
+  context: string[];
+  successors: Array<{ element: string; probability: number; nextKey: string }>;
+}
 
 export class MarkovChain {
   protected states: Map<string, MarkovState> = new Map();
+  protected transitionCounts: Map<string, Map<string, number>> = new Map();
+  // Counts for the shorter context orders (0..order-1), only kept when variableOrder is enabled
+  // or the smoothing method interpolates lower orders
+  protected backoffCounts: Map<number, Map<string, Map<string, number>>> = new Map();
+  // Kneser-Ney continuation counts per lower order: distinct longer contexts each element follows
+  private continuationCounts: Map<number, Map<string, Map<string, number>>> = new Map();
+  // Every element that smoothed distributions spread probability over
+  private vocabulary: string[] = [];
+  // Elements added with extendVocabulary that the training data may not contain
+  private extraVocabulary: Set<string> = new Set();
   protected config: MarkovConfig;
   protected trainingData: string[][] = [];
+  protected random: RandomSource;
 
   constructor(config: MarkovConfig) {
+    MarkovChain.validateSmoothing(config);
+    MarkovChain.validateDecoding(config.decoding);
     this.config = config;
+    this.random = createRandomSource(config.seed);
+  }
+
+  private static validateSmoothing(config: MarkovConfig): void {
+    const method = config.smoothingMethod ?? "observed";
+    if (!SMOOTHING_METHODS.includes(method)) {
+      throw new Error(`Unsupported smoothing method: ${method}`);
+    }
+    if (
+      (method === "absoluteDiscounting" || method === "kneserNey") &&
+      !(config.smoothing >= 0 && config.smoothing <= 1)
+    ) {
+      throw new Error(
+        `The ${method} discount (smoothing) must be between 0 and 1, got ${config.smoothing}`
+      );
+    }
   }
 
   getConfig(): MarkovConfig {
@@ -27,7 +105,10 @@ export class MarkovChain {
    * @param sequences Array of musical sequences (e.g., note sequences, rhythm patterns)
    */
   train(sequences: string[][]): void {
-    this.trainingData = sequences;
+    // Training replaces any previously learned model
+    this.transitionCounts.clear();
+    this.backoffCounts.clear();
+    this.trainingData = [...sequences];
 
     // Process each sequence to build state transitions
     for (const sequence of sequences) {
@@ -53,10 +134,28 @@ export class MarkovChain {
       this.processSequence(sequence);
     }
 
-    // Renormalize probabilities to account for new data
+    // Re-derive probabilities from the updated counts
     this.normalizeProbabilities();
   }
 
+  private static validateDecoding(decoding: DecodingOptions | undefined): void {
+    if (!decoding) return;
+
+    const { strategy, topK, topP, minProbability } = decoding;
+    if (strategy !== undefined && strategy !== "sample" && strategy !== "greedy") {
+      throw new Error(`Unsupported decoding strategy: ${strategy}`);
+    }
+    if (topK !== undefined && (!Number.isInteger(topK) || topK < 1)) {
+      throw new Error(`Decoding topK must be a positive integer, got ${topK}`);
+    }
+    if (topP !== undefined && !(topP > 0 && topP <= 1)) {
+      throw new Error(`Decoding topP must be greater than 0 and at most 1, got ${topP}`);
+    }
+    if (minProbability !== undefined && !(minProbability >= 0 && minProbability <= 1)) {
+      throw new Error(`Decoding minProbability must be between 0 and 1, got ${minProbability}`);
+    }
+  }
+
   /**
    * Process a single sequence to update state transition probabilities
    */
@@ -70,6 +169,51 @@ export class MarkovChain {
         this.updateTransition(currentContext, nextElement);
       }
     }
+
+    if (this.needsLowerOrderCounts()) {
+      this.processBackoffContexts(sequence);
+    }
+  }
+
+  /**
+   * Whether counts of the shorter context orders are collected
+   */
+  private needsLowerOrderCounts(): boolean {
+    const method = this.config.smoothingMethod ?? "observed";
+    return this.config.variableOrder === true || (method !== "observed" && method !== "additive");
+  }
+
+  /**
+   * Whether probabilities are spread over the whole vocabulary instead of observed elements
+   */
+  private smoothsVocabulary(): boolean {
+    return (this.config.smoothingMethod ?? "observed") !== "observed";
+  }
+
+  /**
+   * Count every shorter context (orders 0..order-1) preceding each element of a sequence
+   */
+  private processBackoffContexts(sequence: string[]): void {
+    for (let position = 0; position < sequence.length; position++) {
+      const nextElement = sequence[position];
+      if (!nextElement) continue;
+
+      for (let order = 0; order < this.config.order && order <= position; order++) {
+        const contextKey = sequence.slice(position - order, position).join("|");
+
+        let contexts = this.backoffCounts.get(order);
+        if (!contexts) {
+          contexts = new Map();
+          this.backoffCounts.set(order, contexts);
+        }
+        let counts = contexts.get(contextKey);
+        if (!counts) {
+          counts = new Map();
+          contexts.set(contextKey, counts);
+        }
+        counts.set(nextElement, (counts.get(nextElement) || 0) + 1);
+      }
+    }
   }
 
   /**
@@ -82,58 +226,112 @@ export class MarkovChain {
   }
 
   /**
-   * Update the transition probability from current context to next element
-   * This builds the probability distribution for each state
+   * Record one observed transition from the current context to the next element
+   * Only raw counts are updated here; probabilities are derived in normalizeProbabilities
    */
   private updateTransition(context: string, nextElement: string): void {
-    // Get or create the current state
-    let currentState = this.states.get(context);
-    if (!currentState) {
-      currentState = {
-        id: context,
-        transitions: new Map(),
-        visitCount: 0,
-      };
-      this.states.set(context, currentState);
+    let counts = this.transitionCounts.get(context);
+    if (!counts) {
+      counts = new Map();
+      this.transitionCounts.set(context, counts);
     }
 
-    // Update transition count
-    const currentCount = currentState.transitions.get(nextElement) || 0;
-    const newCount = currentCount + 1;
-    currentState.transitions.set(nextElement, newCount);
-    currentState.visitCount++;
+    counts.set(nextElement, (counts.get(nextElement) || 0) + 1);
   }
 
   /**
-   * Normalize transition probabilities to sum to 1.0
-   * This ensures we have a proper probability distribution
+   * Derive normalized transition probabilities for every state from the raw counts
+   * The counts are left untouched, so this can be re-run safely after every update
    */
-  private normalizeProbabilities(): void {
-    for (const state of this.states.values()) {
-      const totalTransitions = Array.from(state.transitions.values()).reduce(
-        (sum, count) => sum + count,
-        0
-      );
+  protected normalizeProbabilities(): void {
+    this.states = new Map();
+    this.collectVocabulary();
 
-      // Apply smoothing
-      const smoothing = this.config.smoothing;
-      const numElements = state.transitions.size;
+    for (const [context, counts] of this.transitionCounts) {
+      this.states.set(context, {
+        id: context,
+        transitions: this.smoothsVocabulary()
+          ? this.getSmoothedTransitions(context.split("|"))!.transitions
+          : this.deriveProbabilities(counts),
+        visitCount: Array.from(counts.values()).reduce((sum, count) => sum + count, 0),
+      });
+    }
+  }
 
-      // Add smoothing only to elements that already exist in this state
-      for (const [element, count] of state.transitions) {
-        const smoothedCount = count + smoothing;
-        state.transitions.set(element, smoothedCount);
-      }
+  /**
+   * Add elements to the vocabulary that smoothed distributions spread probability over, e.g.
+   * the tokens of held-out data, so a smoothed chain gives them a probability even when
+   * training never saw them. Kept across retraining until reset(); not serialized
+   */
+  extendVocabulary(elements: string[]): void {
+    elements.forEach((element) => element && this.extraVocabulary.add(element));
+    if (this.trainingData.length > 0) this.normalizeProbabilities();
+  }
 
-      // Now normalize to sum to 1.0
-      const smoothedTotal = totalTransitions + smoothing * numElements;
-      for (const [nextElement, count] of state.transitions) {
-        const probability = count / smoothedTotal;
-        state.transitions.set(nextElement, probability);
+  /**
+   * Gather the vocabulary and, for Kneser-Ney, the continuation counts of every lower order
+   */
+  private collectVocabulary(): void {
+    const vocabulary = new Set<string>();
+    for (const sequence of this.trainingData) {
+      sequence.forEach((element) => element && vocabulary.add(element));
+    }
+    for (const counts of this.transitionCounts.values()) {
+      counts.forEach((_, element) => vocabulary.add(element));
+    }
+    this.extraVocabulary.forEach((element) => vocabulary.add(element));
+    this.vocabulary = Array.from(vocabulary);
+
+    this.continuationCounts.clear();
+    if (this.config.smoothingMethod !== "kneserNey") return;
+
+    for (let order = 0; order < this.config.order; order++) {
+      const longer =
+        order + 1 === this.config.order ? this.transitionCounts : this.backoffCounts.get(order + 1);
+      const contexts = new Map<string, Map<string, number>>();
+
+      for (const [contextKey, counts] of longer ?? []) {
+        const shorterKey = contextKey.split("|").slice(1).join("|");
+        let continuations = contexts.get(shorterKey);
+        if (!continuations) {
+          continuations = new Map();
+          contexts.set(shorterKey, continuations);
+        }
+        for (const element of counts.keys()) {
+          continuations.set(element, (continuations.get(element) || 0) + 1);
+        }
       }
+      this.continuationCounts.set(order, contexts);
     }
   }
 
+  /**
+   * Turn the raw counts of a single context into a smoothed probability distribution
+   */
+  private deriveProbabilities(counts: Map<string, number>): Map<string, number> {
+    const totalTransitions = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+
+    // Add smoothing only to elements that already exist in this state
+    const smoothing = this.config.smoothing;
+    const smoothedTotal = totalTransitions + smoothing * counts.size;
+
+    const probabilities = new Map<string, number>();
+    for (const [nextElement, count] of counts) {
+      probabilities.set(nextElement, (count + smoothing) / smoothedTotal);
+    }
+
+    return probabilities;
+  }
+
+  /**
+   * Get the raw transition counts observed for a context
+   *
+   * @param context Context key (elements joined with "|")
+   */
+  getTransitionCounts(context: string): Map<string, number> {
+    return new Map(this.transitionCounts.get(context) || []);
+  }
+
   /**
    * Generate a new sequence using the trained Markov chain
    *
@@ -170,28 +368,17 @@ export class MarkovChain {
         console.log(`Restarting context at position ${i} to prevent repetition`);
       }
 
-      const contextKey = currentContext.join("|");
-      const state = this.states.get(contextKey);
+      const next = this.getNextTransitions(currentContext);
 
       let selectedElement = "";
       let attempts = 0;
       const maxAttempts = 15; // Increased attempts for longer sequences
 
       while (attempts < maxAttempts) {
-        let candidateElement = "";
+        if (!next) break;
 
-        if (!state || state.transitions.size === 0) {
-          // Use fallback state
-          const fallbackState = this.findFallbackState(currentContext);
-          if (!fallbackState) break;
-
-          const transitions = this.applyTemperature(fallbackState.transitions);
-          candidateElement = this.selectFromTransitions(transitions);
-        } else {
-          // Use normal state
-          const transitions = this.applyTemperature(state.transitions);
-          candidateElement = this.selectFromTransitions(transitions);
-        }
+        const transitions = this.applyDecoding(next.transitions);
+        const candidateElement = this.selectFromTransitions(transitions);
 
         // Check if this element would create too much repetition
         if (this.wouldCreateExcessiveRepetition(candidateElement, recentElements, maxRepetition)) {
@@ -214,9 +401,9 @@ export class MarkovChain {
 
       // If we couldn't find a non-repetitive element, use the best available
       if (!selectedElement) {
-        const fallbackState = this.findFallbackState(currentContext);
-        if (fallbackState) {
-          const transitions = this.applyTemperature(fallbackState.transitions);
+        const fallback = this.config.variableOrder ? next : this.findFallbackState(currentContext);
+        if (fallback) {
+          const transitions = this.applyDecoding(fallback.transitions);
           selectedElement = this.selectFromTransitions(transitions);
         } else {
           break;
@@ -232,7 +419,7 @@ export class MarkovChain {
       }
 
       // Update context for next iteration
-      currentContext = [...currentContext.slice(1), selectedElement];
+      currentContext = this.advanceContext(currentContext, selectedElement);
     }
 
     return sequence;
@@ -299,7 +486,7 @@ export class MarkovChain {
    * Select an element from transitions using weighted random selection
    */
   private selectFromTransitions(transitions: Map<string, number>): string {
-    const random = Math.random();
+    const random = this.random.next();
     let cumulativeProbability = 0;
 
     for (const [element, probability] of transitions) {
@@ -321,22 +508,10 @@ export class MarkovChain {
     startContext?: string[]
   ): {
     sequence: string[];
-    steps: Array<{
-      step: number;
-      context: string;
-      availableTransitions: Array<{ element: string; probability: number }>;
-      selectedElement: string;
-      randomValue: number;
-    }>;
+    steps: GenerationStep[];
   } {
     const sequence: string[] = [];
-    const steps: Array<{
-      step: number;
-      context: string;
-      availableTransitions: Array<{ element: string; probability: number }>;
-      selectedElement: string;
-      randomValue: number;
-    }> = [];
+    const steps: GenerationStep[] = [];
 
     if (!length || length <= 0) {
       throw new Error("Length must be a positive number");
@@ -348,58 +523,13 @@ export class MarkovChain {
     // Generate sequence up to requested length
     for (let i = 0; i < length; i++) {
       const contextKey = currentContext.join("|");
-      const state = this.states.get(contextKey);
-
-      if (!state || state.transitions.size === 0) {
-        // Try to find a fallback state or use a random element from all possible elements
-        const fallbackState = this.findFallbackState(currentContext);
-        if (!fallbackState) {
-          break;
-        }
-        // Use the fallback state for this iteration
-        const transitions = this.applyTemperature(fallbackState.transitions);
-
-        // Get available transitions for display
-        const availableTransitions = Array.from(transitions.entries()).map(
-          ([element, probability]) => ({
-            element,
-            probability,
-          })
-        );
-
-        // Use weighted random selection
-        const random = Math.random();
-        let cumulativeProbability = 0;
-        let selectedElement = "";
-
-        for (const [nextElement, probability] of transitions) {
-          cumulativeProbability += probability;
-          if (random <= cumulativeProbability) {
-            selectedElement = nextElement;
-            break;
-          }
-        }
-
-        if (selectedElement) {
-          sequence.push(selectedElement);
-          steps.push({
-            step: i,
-            context: contextKey,
-            availableTransitions,
-            selectedElement,
-            randomValue: random,
-          });
-
-          // Update context for next iteration
-          currentContext = [...currentContext.slice(1), selectedElement];
-        } else {
-          break;
-        }
-        continue;
+      const next = this.getNextTransitions(currentContext);
+      if (!next) {
+        break;
       }
 
-      // Apply temperature if set
-      const transitions = this.applyTemperature(state.transitions);
+      // Apply temperature and the decoding filters if set
+      const transitions = this.applyDecoding(next.transitions);
 
       // Get available transitions for display
       const availableTransitions = Array.from(transitions.entries()).map(
@@ -410,7 +540,7 @@ export class MarkovChain {
       );
 
       // Use weighted random selection
-      const random = Math.random();
+      const random = this.random.next();
       let cumulativeProbability = 0;
       let selectedElement = "";
 
@@ -426,6 +556,9 @@ export class MarkovChain {
       if (!selectedElement) {
         selectedElement = Array.from(transitions.keys())[0] || "";
       }
+      if (!selectedElement) {
+        break;
+      }
 
       steps.push({
         step: i + 1,
@@ -433,17 +566,558 @@ export class MarkovChain {
         availableTransitions,
         selectedElement,
         randomValue: random,
+        order: next.orders.get(selectedElement) ?? next.order,
       });
 
       sequence.push(selectedElement);
 
       // Update context for next iteration
-      currentContext = [...currentContext.slice(1), selectedElement];
+      currentContext = this.advanceContext(currentContext, selectedElement);
     }
 
     return { sequence, steps };
   }
 
+  /**
+   * Generate endlessly from a context, one element at a time (see MarkovStream)
+   * A context without continuations restarts from a random training context
+   *
+   * @param startContext Optional starting context (a random training context otherwise)
+   * @param signal Optional signal that cancels the stream
+   */
+  stream(startContext?: string[], signal?: AbortSignal): MarkovStream<string> {
+    let context = startContext || this.getRandomStartContext();
+
+    return new MarkovStream<string>((injected) => {
+      let element = injected.shift();
+      if (element === undefined) {
+        let next = this.getNextTransitions(context);
+        if (!next) {
+          context = this.getRandomStartContext();
+          next = this.getNextTransitions(context);
+        }
+        if (!next) return null;
+        element = this.selectFromTransitions(this.applyDecoding(next.transitions));
+      }
+      if (!element) return null;
+
+      context = this.advanceContext(context, element);
+      return element;
+    }, signal);
+  }
+
+  /**
+   * Beam search for the most probable continuations of a context
+   * Keeps the beamWidth best partial sequences at every step, scored by the model's own
+   * probabilities (temperature and decoding options do not apply). Beams that reach a context
+   * without continuations are only returned when no beam reaches the full length.
+   *
+   * @param length Number of elements to generate
+   * @param beamWidth Number of sequences kept at every step, and returned
+   * @param startContext Optional starting context (a random training context otherwise)
+   * @returns Up to beamWidth sequences, most probable first
+   */
+  beamSearch(length: number, beamWidth: number = 5, startContext?: string[]): ScoredSequence[] {
+    if (!length || length <= 0) {
+      throw new Error("Length must be a positive number");
+    }
+    if (!Number.isInteger(beamWidth) || beamWidth < 1) {
+      throw new Error(`Beam width must be a positive integer, got ${beamWidth}`);
+    }
+
+    type Beam = ScoredSequence & { context: string[] };
+    let beams: Beam[] = [
+      { sequence: [], logProbability: 0, context: startContext || this.getRandomStartContext() },
+    ];
+    const ended: Beam[] = [];
+
+    for (let step = 0; step < length && beams.length > 0; step++) {
+      const candidates: Beam[] = [];
+
+      for (const beam of beams) {
+        const next = this.getNextTransitions(beam.context);
+        const total = next ? this.sumCounts(next.transitions) : 0;
+        if (!next || total <= 0) {
+          if (beam.sequence.length > 0) ended.push(beam);
+          continue;
+        }
+
+        for (const [element, probability] of next.transitions) {
+          if (probability <= 0) continue;
+          candidates.push({
+            sequence: [...beam.sequence, element],
+            logProbability: beam.logProbability + Math.log(probability / total),
+            context: this.advanceContext(beam.context, element),
+          });
+        }
+      }
+
+      // The sort is stable, so ties keep the order of the transitions
+      beams = candidates.sort((a, b) => b.logProbability - a.logProbability).slice(0, beamWidth);
+    }
+
+    const results = beams.length > 0 ? beams : ended;
+    return results
+      .sort((a, b) => b.logProbability - a.logProbability)
+      .slice(0, beamWidth)
+      .map(({ sequence, logProbability }) => ({ sequence, logProbability }));
+  }
+
+  /**
+   * Generate a sequence and report which context order was used at every step
+   * Most useful with variableOrder enabled, where the chain backs off to shorter contexts
+   */
+  generateWithOrderAnalysis(
+    length: number,
+    startContext?: string[]
+  ): { sequence: string[]; orders: number[]; analysis: OrderAnalysis } {
+    const { sequence, steps } = this.generateWithSteps(length, startContext);
+    const orders = steps.map((step) => step.order);
+
+    const orderDistribution: { [order: number]: number } = {};
+    let adaptationEvents = 0;
+    let totalEntropy = 0;
+
+    steps.forEach((step, index) => {
+      orderDistribution[step.order] = (orderDistribution[step.order] || 0) + 1;
+      if (index > 0 && step.order !== steps[index - 1].order) {
+        adaptationEvents++;
+      }
+      for (const { probability } of step.availableTransitions) {
+        if (probability > 0) totalEntropy -= probability * Math.log2(probability);
+      }
+    });
+
+    return {
+      sequence,
+      orders,
+      analysis: {
+        currentOrder: orders.length > 0 ? orders[orders.length - 1] : this.config.order,
+        averageOrder:
+          orders.length > 0 ? orders.reduce((sum, order) => sum + order, 0) / orders.length : 0,
+        orderDistribution,
+        adaptationEvents,
+        contextComplexity: steps.length > 0 ? totalEntropy / steps.length : 0,
+      },
+    };
+  }
+
+  /**
+   * Log-probability (natural log) of every predicted token of a sequence, using the same
+   * distributions as generation (smoothing, back-off and fallback states) but no temperature.
+   * Fixed-order chains take the first `order` tokens as the starting context and score the rest;
+   * variable-order chains score every token, the first ones from shorter contexts.
+   * Tokens the model cannot produce get -Infinity.
+   */
+  tokenLogProbabilities(sequence: string[]): TokenLogProbability[] {
+    const scored: TokenLogProbability[] = [];
+    const start = this.config.variableOrder ? 0 : this.config.order;
+    let context = sequence.slice(0, start);
+
+    for (let position = start; position < sequence.length; position++) {
+      const token = sequence[position];
+      const next = this.getNextTransitions(context);
+
+      let logProbability = -Infinity;
+      if (next) {
+        // Subclasses may reweight the distribution, so normalize it here
+        const total = Array.from(next.transitions.values()).reduce((sum, p) => sum + p, 0);
+        const probability = total > 0 ? (next.transitions.get(token) ?? 0) / total : 0;
+        logProbability = Math.log(probability);
+      }
+
+      scored.push({
+        token,
+        context: context.join("|"),
+        logProbability,
+        order: next ? (next.orders.get(token) ?? next.order) : 0,
+      });
+      context = this.advanceContext(context, token);
+    }
+
+    return scored;
+  }
+
+  /**
+   * Log-likelihood (natural log) of a sequence under the model, see tokenLogProbabilities
+   */
+  logLikelihood(sequence: string[]): number {
+    return this.tokenLogProbabilities(sequence).reduce(
+      (total, scored) => total + scored.logProbability,
+      0
+    );
+  }
+
+  /**
+   * Average number of bits per token the model needs for held-out sequences
+   * Infinity when any token is impossible under the model
+   */
+  crossEntropy(sequences: string[][]): number {
+    const scored = sequences.flatMap((sequence) => this.tokenLogProbabilities(sequence));
+    if (scored.length === 0) {
+      throw new Error("No tokens to score: sequences must be longer than the chain order");
+    }
+
+    const totalLogProbability = scored.reduce((total, token) => total + token.logProbability, 0);
+    return -totalLogProbability / scored.length / Math.LN2;
+  }
+
+  /**
+   * Perplexity of held-out sequences: 2 ^ crossEntropy, the effective number of equally likely
+   * choices per token (lower means the model predicts the sequences better)
+   */
+  perplexity(sequences: string[][]): number {
+    return Math.pow(2, this.crossEntropy(sequences));
+  }
+
+  /**
+   * Generate a sequence with elements pinned at given positions, e.g. start on C4, reach G4 at
+   * step 16 and end on the tonic. A backward pass gives, for every context and step, the
+   * probability of still meeting the remaining constraints; weighting each transition by it
+   * samples exactly from the chain's distribution conditioned on the constraints.
+   *
+   * @param length Desired sequence length
+   * @param constraints Elements required at given positions (negative positions count from the end)
+   * @param startContext Optional starting context (otherwise drawn like getRandomStartContext)
+   * @returns Generated sequence
+   */
+  generateConstrained(
+    length: number,
+    constraints: PositionConstraints,
+    startContext?: string[]
+  ): string[] {
+    if (!length || length <= 0) {
+      throw new Error("Length must be a positive number");
+    }
+
+    const pinned = this.resolveConstraints(length, constraints);
+    const startWeights = startContext
+      ? new Map([[startContext.join("|"), 1]])
+      : this.getStartContextWeights();
+
+    // Forward pass: every context reachable at each step and the transitions it may take
+    const transitionCache = new Map<string, Map<string, number> | null>();
+    const layers: Array<Map<string, ConstrainedState>> = [];
+    let reachable = new Map<string, string[]>();
+    for (const key of startWeights.keys()) {
+      reachable.set(key, startContext ?? key.split("|"));
+    }
+
+    for (let i = 0; i < length; i++) {
+      const layer = new Map<string, ConstrainedState>();
+      const nextReachable = new Map<string, string[]>();
+
+      for (const [key, context] of reachable) {
+        if (!transitionCache.has(key)) {
+          const next = this.getNextTransitions(context);
+          transitionCache.set(key, next ? this.applyTemperature(next.transitions) : null);
+        }
+
+        const successors: ConstrainedState["successors"] = [];
+        for (const [element, probability] of transitionCache.get(key) ?? []) {
+          if (probability <= 0 || (pinned.has(i) && !pinned.get(i)!.includes(element))) continue;
+
+          const nextContext = this.advanceContext(context, element);
+          const nextKey = nextContext.join("|");
+          nextReachable.set(nextKey, nextContext);
+          successors.push({ element, probability, nextKey });
+        }
+        layer.set(key, { context, successors });
+      }
+
+      layers.push(layer);
+      reachable = nextReachable;
+    }
+
+    // Backward pass: messages[i] maps a context to the (scaled) probability of satisfying
+    // every constraint from step i onwards
+    const messages: Array<Map<string, number>> = new Array(length + 1);
+    messages[length] = new Map(Array.from(reachable.keys()).map((key) => [key, 1]));
+
+    for (let i = length - 1; i >= 0; i--) {
+      const message = new Map<string, number>();
+      let largest = 0;
+
+      for (const [key, state] of layers[i]) {
+        const value = state.successors.reduce(
+          (sum, { probability, nextKey }) =>
+            sum + probability * (messages[i + 1].get(nextKey) ?? 0),
+          0
+        );
+        message.set(key, value);
+        largest = Math.max(largest, value);
+      }
+
+      // Only relative values matter, so rescale to avoid underflow on long sequences
+      if (largest > 0) {
+        for (const [key, value] of message) message.set(key, value / largest);
+      }
+      messages[i] = message;
+    }
+
+    let currentKey = this.sampleWeighted(
+      Array.from(startWeights).map(([key, weight]) => [key, weight * (messages[0].get(key) ?? 0)])
+    );
+    if (currentKey === null) {
+      const described = Array.from(pinned)
+        .map(([position, elements]) => `"${elements.join('" or "')}" at ${position}`)
+        .join(", ");
+      throw new Error(
+        `Constraints cannot be satisfied with the trained transitions: ${described} (length ${length})`
+      );
+    }
+
+    // Sample forwards, weighting each transition by the chance of meeting the later constraints
+    const sequence: string[] = [];
+    for (let i = 0; i < length; i++) {
+      const state = layers[i].get(currentKey) as ConstrainedState;
+      const element = this.sampleWeighted(
+        state.successors.map(({ element, probability, nextKey }) => [
+          element,
+          probability * (messages[i + 1].get(nextKey) ?? 0),
+        ])
+      ) as string;
+
+      sequence.push(element);
+      currentKey = this.advanceContext(state.context, element).join("|");
+    }
+
+    return sequence;
+  }
+
+  /**
+   * Turn position constraints into a map of absolute positions
+   */
+  private resolveConstraints(
+    length: number,
+    constraints: PositionConstraints
+  ): Map<number, string[]> {
+    const pinned = new Map<number, string[]>();
+
+    for (const [position, allowed] of Object.entries(constraints)) {
+      const index = Number(position);
+      if (!Number.isInteger(index)) {
+        throw new Error(`Invalid constraint position: ${position}`);
+      }
+
+      const resolved = index < 0 ? length + index : index;
+      if (resolved < 0 || resolved >= length) {
+        throw new Error(
+          `Constraint position ${position} is outside a sequence of length ${length}`
+        );
+      }
+
+      // The same position can be pinned twice (e.g. 3 and -1), keep what both allow
+      const elements = Array.isArray(allowed) ? allowed : [allowed];
+      const previous = pinned.get(resolved);
+      const combined = previous
+        ? elements.filter((element) => previous.includes(element))
+        : elements;
+      if (combined.length === 0) {
+        throw new Error(
+          `Conflicting constraints at position ${resolved}: "${previous}" and "${elements}"`
+        );
+      }
+      pinned.set(resolved, combined);
+    }
+
+    return pinned;
+  }
+
+  /**
+   * Probability of each start context under getRandomStartContext
+   */
+  private getStartContextWeights(): Map<string, number> {
+    if (this.trainingData.length === 0) {
+      throw new Error("No training data available");
+    }
+
+    const weights = new Map<string, number>();
+    for (const sequence of this.trainingData) {
+      const starts = Math.max(1, sequence.length - this.config.order);
+      for (let startIndex = 0; startIndex < starts; startIndex++) {
+        const key = sequence.slice(startIndex, startIndex + this.config.order).join("|");
+        weights.set(key, (weights.get(key) || 0) + 1 / (this.trainingData.length * starts));
+      }
+    }
+    return weights;
+  }
+
+  /**
+   * Pick an item with probability proportional to its weight (null when every weight is zero)
+   */
+  private sampleWeighted<T>(items: Array<[T, number]>): T | null {
+    const total = items.reduce((sum, [, weight]) => sum + weight, 0);
+    if (!(total > 0)) return null;
+
+    const random = this.random.next() * total;
+    let cumulativeWeight = 0;
+    for (const [item, weight] of items) {
+      cumulativeWeight += weight;
+      if (weight > 0 && random <= cumulativeWeight) {
+        return item;
+      }
+    }
+
+    // Floating point rounding: fall back to the last item with any weight
+    return [...items].reverse().find(([, weight]) => weight > 0)?.[0] ?? null;
+  }
+
+  /**
+   * Look up the distribution of the next element for a context
+   * Vocabulary smoothing methods give every known element a probability (see SmoothingMethod)
+   * Otherwise fixed-order chains use the exact state, or the entropy-based fallback (reported
+   * as order 0), and variable-order chains blend every order with PPM escape probabilities
+   */
+  protected getNextTransitions(context: string[]): NextTransitions | null {
+    if (this.smoothsVocabulary()) {
+      return this.getSmoothedTransitions(context);
+    }
+    if (this.config.variableOrder) {
+      return this.getBackoffTransitions(context);
+    }
+
+    const state = this.states.get(context.join("|"));
+    if (state && state.transitions.size > 0) {
+      return { transitions: state.transitions, order: this.config.order, orders: new Map() };
+    }
+
+    const fallbackState = this.findFallbackState(context);
+    if (!fallbackState) return null;
+    return { transitions: fallbackState.transitions, order: 0, orders: new Map() };
+  }
+
+  /**
+   * Blend the distributions of all context orders, from the longest matching context down to
+   * the unigram counts, using PPM method C: each order keeps n / (n + d) of the remaining mass
+   * (n = count of its unseen-so-far continuations, d = their number) and escapes with the rest.
+   * Continuations already predicted by a longer context are excluded from shorter ones.
+   */
+  private getBackoffTransitions(context: string[]): NextTransitions | null {
+    const transitions = new Map<string, number>();
+    const orders = new Map<string, number>();
+    let escapeMass = 1;
+    let highestOrder = -1;
+
+    for (let order = Math.min(this.config.order, context.length); order >= 0; order--) {
+      const contextKey = context.slice(context.length - order).join("|");
+      const counts = this.getCountsForOrder(order, contextKey);
+      if (!counts) continue;
+
+      const candidates = Array.from(counts.entries()).filter(([element]) => !orders.has(element));
+      if (candidates.length === 0) continue;
+
+      const total = candidates.reduce((sum, [, count]) => sum + count, 0);
+      const distinct = candidates.length;
+      for (const [element, count] of candidates) {
+        transitions.set(element, (escapeMass * count) / (total + distinct));
+        orders.set(element, order);
+      }
+
+      if (highestOrder < 0) highestOrder = order;
+      escapeMass *= distinct / (total + distinct);
+    }
+
+    if (transitions.size === 0) return null;
+
+    // The escape mass left below order 0 has nowhere to go, so renormalize
+    const totalMass = 1 - escapeMass;
+    for (const [element, probability] of transitions) {
+      transitions.set(element, probability / totalMass);
+    }
+
+    return { transitions, order: highestOrder, orders };
+  }
+
+  /**
+   * Distribution over the whole vocabulary for a context
+   * Additive smoothing uses the longest context alone (uniform when it was never seen); the
+   * other methods start from a uniform distribution and interpolate each order up to the
+   * longest context, skipping contexts that were never seen
+   */
+  private getSmoothedTransitions(context: string[]): NextTransitions | null {
+    const size = this.vocabulary.length;
+    if (size === 0) return null;
+
+    const method = this.config.smoothingMethod;
+    const smoothing = this.config.smoothing;
+    const longest = Math.min(this.config.order, context.length);
+    let distribution = new Map(this.vocabulary.map((element) => [element, 1 / size]));
+    let highestOrder = 0;
+
+    if (method === "additive") {
+      const counts = this.getCountsForOrder(
+        longest,
+        context.slice(context.length - longest).join("|")
+      );
+      const total = counts ? this.sumCounts(counts) : 0;
+      if (total + smoothing * size > 0) {
+        distribution = new Map(
+          this.vocabulary.map((element) => [
+            element,
+            ((counts?.get(element) || 0) + smoothing) / (total + smoothing * size),
+          ])
+        );
+        if (total > 0) highestOrder = longest;
+      }
+      return { transitions: distribution, order: highestOrder, orders: new Map() };
+    }
+
+    for (let order = 0; order <= longest; order++) {
+      const contextKey = context.slice(context.length - order).join("|");
+      const counts =
+        method === "kneserNey" && order < longest
+          ? this.continuationCounts.get(order)?.get(contextKey)
+          : this.getCountsForOrder(order, contextKey);
+      if (!counts || counts.size === 0) continue;
+
+      const total = this.sumCounts(counts);
+      const distinct = counts.size;
+      const lower = distribution;
+      distribution = new Map();
+
+      for (const element of this.vocabulary) {
+        const count = counts.get(element) || 0;
+        const lowerProbability = lower.get(element) || 0;
+        distribution.set(
+          element,
+          method === "wittenBell"
+            ? (count + distinct * lowerProbability) / (total + distinct)
+            : Math.max(count - smoothing, 0) / total +
+                ((smoothing * distinct) / total) * lowerProbability
+        );
+      }
+      highestOrder = order;
+    }
+
+    return { transitions: distribution, order: highestOrder, orders: new Map() };
+  }
+
+  private sumCounts(counts: Map<string, number>): number {
+    return Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Get the raw counts of a context for a given order (the full order lives in transitionCounts)
+   */
+  private getCountsForOrder(order: number, contextKey: string): Map<string, number> | undefined {
+    if (order === this.config.order) {
+      return this.transitionCounts.get(contextKey);
+    }
+    return this.backoffCounts.get(order)?.get(contextKey);
+  }
+
+  /**
+   * Shift the context window forward by one element
+   * Variable-order chains let short start contexts grow up to the full order
+   */
+  private advanceContext(context: string[], element: string): string[] {
+    if (this.config.variableOrder) {
+      return [...context, element].slice(-this.config.order);
+    }
+    return [...context.slice(1), element];
+  }
+
   /**
    * Get statistics about the trained Markov chain
    * Useful for understanding the learned patterns
@@ -579,6 +1253,37 @@ export class MarkovChain {
     this.config.temperature = Math.max(0.1, Math.min(2.0, temperature));
   }
 
+  /**
+   * Choose how generate() picks each element (omit to go back to plain sampling)
+   * generateConstrained keeps sampling the temperature-scaled distribution, since filtering
+   * could leave the constraints unreachable. A MusicMarkovChain only decodes its notes; its
+   * rhythm and velocity chains keep sampling.
+   */
+  setDecoding(decoding?: DecodingOptions): void {
+    MarkovChain.validateDecoding(decoding);
+    if (decoding) {
+      this.config.decoding = { ...decoding };
+    } else {
+      delete this.config.decoding;
+    }
+  }
+
+  /**
+   * Seed the random number generator so that generation becomes reproducible
+   * The same seed and trained model always yield the same output
+   */
+  setSeed(seed: number): void {
+    this.config.seed = seed;
+    this.setRandomSource(new SeededRandom(seed));
+  }
+
+  /**
+   * Replace the random number source used for all sampling
+   */
+  setRandomSource(random: RandomSource): void {
+    this.random = random;
+  }
+
   /**
    * Apply temperature to transition probabilities during generation
    */
@@ -605,6 +1310,42 @@ export class MarkovChain {
     return adjustedTransitions;
   }
 
+  /**
+   * Apply temperature, then the decoding strategy and filters, to a distribution
+   * The result is renormalized and, with decoding options, ordered most probable first
+   */
+  private applyDecoding(transitions: Map<string, number>): Map<string, number> {
+    const tempered = this.applyTemperature(transitions);
+    const decoding = this.config.decoding;
+    if (!decoding || tempered.size === 0) return tempered;
+
+    let ranked = Array.from(tempered.entries()).sort((a, b) => b[1] - a[1]);
+    const total = ranked.reduce((sum, [, probability]) => sum + probability, 0);
+
+    if (decoding.strategy === "greedy") {
+      ranked = ranked.slice(0, 1);
+    }
+    if (decoding.minProbability !== undefined) {
+      const threshold = decoding.minProbability * total;
+      ranked = ranked.filter(([, probability], index) => index === 0 || probability >= threshold);
+    }
+    if (decoding.topK !== undefined) {
+      ranked = ranked.slice(0, decoding.topK);
+    }
+    if (decoding.topP !== undefined) {
+      const nucleusMass = decoding.topP * total;
+      let mass = 0;
+      ranked = ranked.filter(([, probability]) => {
+        const inNucleus = mass < nucleusMass - 1e-12;
+        mass += probability;
+        return inNucleus;
+      });
+    }
+
+    const keptTotal = ranked.reduce((sum, [, probability]) => sum + probability, 0);
+    return new Map(ranked.map(([element, probability]) => [element, probability / keptTotal]));
+  }
+
   /**
    * Select the next element based on current context and transition probabilities
    * This implements the probabilistic nature of the Markov chain
@@ -635,7 +1376,7 @@ export class MarkovChain {
     );
 
     // Use weighted random selection based on probabilities
-    const random = Math.random();
+    const random = this.random.next();
     let cumulativeProbability = 0;
     console.log(`Random value: ${random.toFixed(3)}`);
 
@@ -687,7 +1428,8 @@ export class MarkovChain {
     let stepCount = 0;
     let totalTransitions = 0;
 
-    // Replay the learning process
+    // Replay the learning process, counting transitions as they were observed
+    const replayCounts = new Map<string, number>();
     for (const sequence of this.trainingData) {
       for (let i = 0; i <= sequence.length - this.config.order; i++) {
         const currentContext = this.getContextKey(sequence, i);
@@ -697,9 +1439,9 @@ export class MarkovChain {
           stepCount++;
           totalTransitions++;
 
-          // Get current state to show counts
-          const state = this.states.get(currentContext);
-          const currentCount = state?.transitions.get(nextElement) || 0;
+          const replayKey = `${currentContext}\u0000${nextElement}`;
+          const currentCount = replayCounts.get(replayKey) || 0;
+          replayCounts.set(replayKey, currentCount + 1);
 
           learningSteps.push({
             step: stepCount,
@@ -718,7 +1460,7 @@ export class MarkovChain {
       context,
       transitions: Array.from(state.transitions.entries()).map(([element, probability]) => ({
         element,
-        count: Math.round(probability * state.visitCount),
+        count: this.transitionCounts.get(context)?.get(element) || 0,
         probability: probability,
       })),
     }));
@@ -739,9 +1481,10 @@ export class MarkovChain {
       throw new Error("No training data available");
     }
 
-    const randomSequence = this.trainingData[Math.floor(Math.random() * this.trainingData.length)];
+    const randomSequence =
+      this.trainingData[Math.floor(this.random.next() * this.trainingData.length)];
     const startIndex = Math.floor(
-      Math.random() * Math.max(1, randomSequence.length - this.config.order)
+      this.random.next() * Math.max(1, randomSequence.length - this.config.order)
     );
     return randomSequence.slice(startIndex, startIndex + this.config.order);
   }
@@ -751,6 +1494,11 @@ export class MarkovChain {
    */
   reset(): void {
     this.states.clear();
+    this.transitionCounts.clear();
+    this.backoffCounts.clear();
+    this.continuationCounts.clear();
+    this.vocabulary = [];
+    this.extraVocabulary.clear();
     this.trainingData = [];
   }
 
@@ -820,4 +1568,176 @@ export class MarkovChain {
       recommendations,
     };
   }
+
+  /**
+   * Serialize the trained chain to a plain JSON-compatible object
+   * JSON.stringify(chain) uses this automatically
+   */
+  toJSON(): SerializedMarkovChain {
+    return {
+      formatVersion: MODEL_FORMAT_VERSION,
+      type: "MarkovChain",
+      config: { ...this.config },
+      states: Array.from(this.transitionCounts.entries()).map(([context, counts]) => ({
+        id: context,
+        transitions: Array.from(counts.entries()),
+        visitCount: Array.from(counts.values()).reduce((sum, count) => sum + count, 0),
+      })),
+      trainingData: this.trainingData.map((sequence) => [...sequence]),
+    };
+  }
+
+  /**
+   * Restore a chain previously saved with toJSON()
+   *
+   * @param data Serialized model, either as a JSON string or an already parsed object
+   */
+  static fromJSON(data: string | unknown): MarkovChain {
+    const parsed = MarkovChain.parseSerialized(data);
+    MarkovChain.validateSerializedChain(parsed, "model");
+
+    const chain = new MarkovChain(parsed.config);
+    chain.restoreSerializedState(parsed);
+    return chain;
+  }
+
+  /**
+   * Replace this chain's learned states and training data with serialized ones
+   */
+  protected restoreSerializedState(data: SerializedMarkovChain): void {
+    this.config = { ...data.config };
+
+    if (data.formatVersion === 1) {
+      // Version 1 stored smoothed probabilities, so the counts are rebuilt from the training data
+      this.train(data.trainingData.map((sequence) => [...sequence]));
+      return;
+    }
+
+    this.transitionCounts = new Map(
+      data.states.map((state) => [state.id, new Map(state.transitions)])
+    );
+    this.trainingData = data.trainingData.map((sequence) => [...sequence]);
+
+    // Shorter-order counts are not stored; they are rebuilt from the training data
+    this.backoffCounts.clear();
+    if (this.needsLowerOrderCounts()) {
+      for (const sequence of this.trainingData) {
+        this.processBackoffContexts(sequence);
+      }
+    }
+    this.normalizeProbabilities();
+  }
+
+  /**
+   * Parse a JSON string if needed, surfacing syntax errors with context
+   */
+  protected static parseSerialized(data: string | unknown): unknown {
+    if (typeof data !== "string") return data;
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      throw new Error(`Invalid serialized model: ${error}`);
+    }
+  }
+
+  /**
+   * Validate the shape of a serialized chain, throwing a descriptive error on malformed input
+   */
+  protected static validateSerializedChain(
+    data: unknown,
+    path: string
+  ): asserts data is SerializedMarkovChain {
+    const fail = (message: string): never => {
+      throw new Error(`Invalid serialized model: ${path}${message}`);
+    };
+
+    if (!isRecord(data)) fail(" must be an object");
+    const model = data as Record<string, unknown>;
+
+    if (
+      !Number.isInteger(model.formatVersion) ||
+      (model.formatVersion as number) < 1 ||
+      (model.formatVersion as number) > MODEL_FORMAT_VERSION
+    ) {
+      fail(
+        `.formatVersion must be between 1 and ${MODEL_FORMAT_VERSION} (got ${JSON.stringify(
+          model.formatVersion
+        )})`
+      );
+    }
+    if (model.type !== "MarkovChain" && model.type !== "MusicMarkovChain") {
+      fail(`.type must be "MarkovChain" or "MusicMarkovChain"`);
+    }
+
+    if (!isRecord(model.config)) fail(".config must be an object");
+    const config = model.config as Record<string, unknown>;
+    if (!Number.isInteger(config.order) || (config.order as number) < 1) {
+      fail(".config.order must be a positive integer");
+    }
+    if (!isFiniteNumber(config.smoothing) || (config.smoothing as number) < 0) {
+      fail(".config.smoothing must be a non-negative number");
+    }
+    if (config.temperature !== undefined && !isFiniteNumber(config.temperature)) {
+      fail(".config.temperature must be a number");
+    }
+    if (config.maxLength !== undefined && !isFiniteNumber(config.maxLength)) {
+      fail(".config.maxLength must be a number");
+    }
+    if (config.seed !== undefined && !isFiniteNumber(config.seed)) {
+      fail(".config.seed must be a number");
+    }
+    if (config.variableOrder !== undefined && typeof config.variableOrder !== "boolean") {
+      fail(".config.variableOrder must be a boolean");
+    }
+    if (
+      config.smoothingMethod !== undefined &&
+      !SMOOTHING_METHODS.includes(config.smoothingMethod as SmoothingMethod)
+    ) {
+      fail(`.config.smoothingMethod must be one of ${SMOOTHING_METHODS.join(", ")}`);
+    }
+    if (config.decoding !== undefined && !isRecord(config.decoding)) {
+      fail(".config.decoding must be an object");
+    }
+
+    if (!Array.isArray(model.states)) fail(".states must be an array");
+    (model.states as unknown[]).forEach((state, index) => {
+      if (!isSerializedState(state)) {
+        fail(`.states[${index}] must have an id, [element, count] transitions and visitCount`);
+      }
+    });
+
+    if (
+      !Array.isArray(model.trainingData) ||
+      !model.trainingData.every(
+        (sequence) => Array.isArray(sequence) && sequence.every((e) => typeof e === "string")
+      )
+    ) {
+      fail(".trainingData must be an array of string arrays");
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isSerializedState(value: unknown): value is SerializedMarkovState {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === "string" &&
+    isFiniteNumber(value.visitCount) &&
+    Array.isArray(value.transitions) &&
+    value.transitions.every(
+      (entry) =>
+        Array.isArray(entry) &&
+        entry.length === 2 &&
+        typeof entry[0] === "string" &&
+        isFiniteNumber(entry[1])
+    )
+  );
 }
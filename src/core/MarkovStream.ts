@@ -0,0 +1,124 @@
+/**
+ * Endless generation from a trained chain, one value at a time
+ * - Chains read their temperature, decoding options and key at every step, so changing them
+ *   while streaming takes effect on the next value
+ * - inject() queues tokens that are emitted next; generation continues from them
+ * - The stream ends once its AbortSignal is aborted, stop() is called or a for...of loop breaks
+ *
+ * Use it as a synchronous iterator, or as an async iterator that can wait until each value
+ * is due (e.g. notes played in real time).
+ */
+
+/**
+ * Produce the next value, consuming injected tokens from the front of the queue first
+ * Returns null when nothing more can be generated
+ */
+export type StreamStep<T> = (injected: string[]) => T | null;
+
+export class MarkovStream<T = string> implements IterableIterator<T>, AsyncIterable<T> {
+  private injected: string[] = [];
+  private stopped: boolean = false;
+  private startedAt: number | null = null;
+  // Ends the pending real-time wait early, while one is running
+  private wake: (() => void) | null = null;
+
+  /**
+   * @param step Generates each value
+   * @param signal Optional signal that cancels the stream
+   * @param dueTime Milliseconds after the first async read at which a value is due; async
+   *   iteration waits until then (no waiting when omitted)
+   */
+  constructor(
+    private readonly step: StreamStep<T>,
+    private readonly signal?: AbortSignal,
+    private readonly dueTime?: (value: T) => number
+  ) {}
+
+  /**
+   * Queue tokens to be emitted next, in order, before generation resumes from them
+   */
+  inject(...tokens: string[]): void {
+    this.injected.push(...tokens);
+  }
+
+  /**
+   * End the stream; every later read is done
+   */
+  stop(): void {
+    this.finish();
+  }
+
+  isDone(): boolean {
+    return this.stopped || this.signal?.aborted === true;
+  }
+
+  next(): IteratorResult<T> {
+    if (this.isDone()) return this.finish();
+
+    const value = this.step(this.injected);
+    if (value === null) return this.finish();
+    return { done: false, value };
+  }
+
+  /**
+   * Called when a for...of loop exits early
+   */
+  return(): IteratorResult<T> {
+    return this.finish();
+  }
+
+  /**
+   * Read up to count values (fewer when the stream ends)
+   */
+  take(count: number): T[] {
+    const values: T[] = [];
+    for (let i = 0; i < count; i++) {
+      const result = this.next();
+      if (result.done) break;
+      values.push(result.value);
+    }
+    return values;
+  }
+
+  [Symbol.iterator](): MarkovStream<T> {
+    return this;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: async () => {
+        const result = this.next();
+        if (result.done || !this.dueTime) return result;
+
+        if (this.startedAt === null) this.startedAt = Date.now();
+        const wait = this.dueTime(result.value) - (Date.now() - this.startedAt);
+        if (wait > 0) await this.sleep(wait);
+        return this.isDone() ? this.finish() : result;
+      },
+      return: async () => this.finish(),
+    };
+  }
+
+  private finish(): IteratorResult<T> {
+    this.stopped = true;
+    this.wake?.();
+    return { done: true, value: undefined };
+  }
+
+  /**
+   * Wait for the given time, waking up early when the signal aborts or the stream is stopped
+   */
+  private sleep(milliseconds: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.signal?.removeEventListener("abort", wake);
+        this.wake = null;
+        resolve();
+      };
+      const timer = setTimeout(wake, milliseconds);
+      this.signal?.addEventListener("abort", wake, { once: true });
+      this.wake = wake;
+    });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Random number sources used by the Markov chains for sampling
+ * Injecting a seeded source makes generation reproducible
+ */
+
+/**
+ * Anything that can produce uniformly distributed numbers in [0, 1)
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+/**
+ * Small, fast seeded PRNG (mulberry32)
+ * The same seed always produces the same stream of numbers
+ */
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = SeededRandom.normalizeSeed(seed);
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Fold any finite number (including fractional and negative seeds) into a 32-bit integer
+   */
+  private static normalizeSeed(seed: number): number {
+    if (!Number.isFinite(seed)) {
+      throw new Error(`Seed must be a finite number (got ${seed})`);
+    }
+
+    let hash = Math.floor(seed) | 0;
+    const fraction = seed - Math.floor(seed);
+    if (fraction > 0) {
+      hash ^= Math.floor(fraction * 4294967296) | 0;
+    }
+    return hash;
+  }
+}
+
+/**
+ * Unseeded source backed by Math.random()
+ */
+export const mathRandom: RandomSource = {
+  next: () => Math.random(),
+};
+
+/**
+ * Create a seeded source when a seed is given, otherwise fall back to Math.random()
+ */
+export function createRandomSource(seed?: number): RandomSource {
+  return seed === undefined ? mathRandom : new SeededRandom(seed);
+}
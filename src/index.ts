@@ -3,20 +3,75 @@
  */
 
 // Core Libraries
-export { MarkovChain } from "./core/MarkovChain";
+export { MarkovChain, MODEL_FORMAT_VERSION } from "./core/MarkovChain";
+export { MarkovStream } from "./core/MarkovStream";
+export type { StreamStep } from "./core/MarkovStream";
+export { SeededRandom, createRandomSource } from "./core/Random";
+export type { RandomSource } from "./core/Random";
 export { MusicMarkovChain } from "./music/MusicMarkovChain";
+export type { NoteStreamOptions } from "./music/MusicMarkovChain";
 export { MIDIGenerator } from "./music/MIDIGenerator";
+export { MultiVoiceGenerator } from "./music/MultiVoiceGenerator";
+export { DrumMarkovChain } from "./music/DrumMarkovChain";
+export { MetricRhythmChain } from "./music/MetricRhythmChain";
+export { ChordProgressionChain } from "./music/ChordProgressionChain";
+export { VoiceLeadingEngine } from "./music/VoiceLeadingEngine";
+export type { VoiceLeadingViolation } from "./music/VoiceLeadingEngine";
+export {
+  GM_DRUM_MAP,
+  DRUM_CHANNEL,
+  DRUM_REST,
+  drumNameForPitch,
+  drumTokenForPitch,
+  pitchForDrumToken,
+  drumHitsToToken,
+  drumTokenToHits,
+} from "./music/DrumMap";
+export type { DrumSound } from "./music/DrumMap";
+export {
+  NOTE_NAMES,
+  SCALE_INTERVALS,
+  MAJOR_KEYS,
+  MINOR_KEYS,
+  parseKey,
+  snapToScale,
+  pitchToNoteName,
+  noteNameToPitch,
+} from "./music/Scales";
+export type { ParsedKey } from "./music/Scales";
+export { DYNAMIC_BANDS, velocityToDynamic, dynamicToVelocity } from "./music/Dynamics";
+export type { DynamicBand } from "./music/Dynamics";
+export {
+  REST_NOTE,
+  parseRhythmToken,
+  rhythmToBeats,
+  isRest,
+  beatsToRhythmToken,
+  beatsToExactRhythmToken,
+  parseTimeSignature,
+  getMetricPositions,
+  getMetricPosition,
+} from "./music/Rhythm";
+export type { ParsedRhythm, Meter } from "./music/Rhythm";
 
 // Input/Output
 export { MIDIParser } from "./input/MIDIParser";
+export { LeadSheetParser } from "./input/LeadSheetParser";
+export type { LeadSheet } from "./input/LeadSheetParser";
 
 // Analysis Modules
 export { AutomataAnalysis } from "./analysis/AutomataAnalysis";
 export { EntropyAnalysis } from "./analysis/EntropyAnalysis";
 export { ComplexityAnalysis } from "./analysis/ComplexityAnalysis";
+export type {
+  CrossValidationOptions,
+  CrossValidationResult,
+  OrderSelection,
+} from "./analysis/ComplexityAnalysis";
 
 // Music Analysis
 export { HarmonicAnalyzer } from "./music/HarmonicAnalyzer";
+export type { ChordTemplate, KeyCandidate, KeyRegion } from "./music/HarmonicAnalyzer";
 
 // Types
 export * from "./types";
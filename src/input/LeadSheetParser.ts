@@ -0,0 +1,147 @@
+/**
+ * Lead-sheet parser for training on chord progressions written as text
+ * Accepts chord symbols with bar lines, e.g. "Cmaj7 | Am7 D7 | Gmaj7", and voices every chord
+ * through HarmonicAnalyzer into chord tokens for MusicMarkovChain.trainWithPolyphonicMusic
+ */
+
+import { HarmonicAnalyzer } from "../music/HarmonicAnalyzer";
+import {
+  beatsToExactRhythmToken,
+  beatsToRhythmToken,
+  parseRhythmToken,
+  parseTimeSignature,
+  rhythmToBeats,
+} from "../music/Rhythm";
+import { pitchToNoteName } from "../music/Scales";
+
+export interface LeadSheet {
+  /** Voiced chord ids per line, e.g. ["C3+E4+G4+B4", ...] */
+  chordSequences: string[][];
+  /** Rhythm token per chord */
+  rhythmSequences: string[][];
+}
+
+export class LeadSheetParser {
+  private timeSignature: string = "4/4";
+  private harmonicAnalyzer = new HarmonicAnalyzer();
+
+  constructor(timeSignature: string = "4/4") {
+    this.setTimeSignature(timeSignature);
+  }
+
+  /**
+   * Set the meter that bars are filled to, e.g. "3/4"
+   */
+  setTimeSignature(timeSignature: string): void {
+    parseTimeSignature(timeSignature);
+    this.timeSignature = timeSignature;
+  }
+
+  /**
+   * Parse a lead sheet, one progression per line
+   * - Bars are separated by "|"; a bar holding only "%" repeats the previous bar
+   * - A chord may carry a rhythm token, e.g. "D7:8."; chords without one share what is left
+   *   of the bar equally, and a bar must add up to exactly one bar of the time signature
+   * - Each line is voiced with smooth upper voices, the bass on the root or the slash note
+   */
+  parse(text: string): LeadSheet {
+    const chordSequences: string[][] = [];
+    const rhythmSequences: string[][] = [];
+
+    text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .forEach((line, index) => {
+        const { chords, rhythms } = this.parseLine(line, index + 1);
+        chordSequences.push(chords);
+        rhythmSequences.push(rhythms);
+      });
+
+    return { chordSequences, rhythmSequences };
+  }
+
+  /**
+   * Parse a lead sheet into "chord:rhythm" tokens, the format of the web training text
+   */
+  toTokens(text: string): string[][] {
+    const { chordSequences, rhythmSequences } = this.parse(text);
+    return chordSequences.map((chords, line) =>
+      chords.map((chord, index) => `${chord}:${rhythmSequences[line][index]}`)
+    );
+  }
+
+  private parseLine(line: string, lineNumber: number): { chords: string[]; rhythms: string[] } {
+    const barBeats = parseTimeSignature(this.timeSignature).barBeats;
+    const chords: string[] = [];
+    const rhythms: string[] = [];
+    let previousVoicing: number[] | undefined;
+    let previousBar: string[] = [];
+
+    const bars = line
+      .split("|")
+      .map((bar) => bar.trim().split(/\s+/).filter(Boolean))
+      .filter((bar) => bar.length > 0);
+
+    bars.forEach((tokens, barIndex) => {
+      const bar = tokens.length === 1 && tokens[0] === "%" ? previousBar : tokens;
+      if (bar.length === 0) {
+        throw new Error(`Line ${lineNumber} repeats a bar before any chords`);
+      }
+      previousBar = bar;
+
+      const entries = bar.map((token) => {
+        const [symbol, rhythm] = token.split(":");
+        if (rhythm === undefined) return { symbol, rhythm, beats: undefined };
+
+        const parsed = parseRhythmToken(rhythm);
+        if (!parsed || parsed.rest) {
+          throw new Error(`Invalid rhythm for chord ${symbol}: ${rhythm}`);
+        }
+        return { symbol, rhythm, beats: parsed.beats };
+      });
+
+      const fixedBeats = entries.reduce((total, entry) => total + (entry.beats ?? 0), 0);
+      const flexible = entries.filter((entry) => entry.beats === undefined).length;
+      // Explicit rhythms must fill the bar exactly, or leave room for the chords without one
+      const fits =
+        flexible > 0 ? fixedBeats < barBeats - 1e-9 : Math.abs(fixedBeats - barBeats) < 1e-9;
+      if (!fits) {
+        throw new Error(
+          `Bar ${barIndex + 1} of line ${lineNumber} does not fit in ${this.timeSignature}`
+        );
+      }
+
+      // Chords without a rhythm get an equal share snapped to the grid; the last one takes
+      // whatever is left, so the bar fills exactly even when the share does not divide evenly
+      const share = (barBeats - fixedBeats) / flexible;
+      let remaining = barBeats - fixedBeats;
+      let flexibleLeft = flexible;
+
+      for (const entry of entries) {
+        const { bass, pitchClasses } = this.harmonicAnalyzer.parseChordSymbol(entry.symbol);
+        const voicing = this.harmonicAnalyzer.voiceChord(pitchClasses, bass, previousVoicing);
+        previousVoicing = voicing;
+        chords.push(voicing.map((pitch) => pitchToNoteName(pitch)).join("+"));
+
+        if (entry.rhythm !== undefined) {
+          rhythms.push(entry.rhythm);
+          continue;
+        }
+
+        flexibleLeft--;
+        const rhythm =
+          flexibleLeft > 0 ? beatsToRhythmToken(share) : beatsToExactRhythmToken(remaining);
+        remaining -= rhythmToBeats(rhythm);
+        if (remaining < -1e-9 || (flexibleLeft > 0 && remaining < 1e-9)) {
+          throw new Error(
+            `Bar ${barIndex + 1} of line ${lineNumber} does not fit in ${this.timeSignature}`
+          );
+        }
+        rhythms.push(rhythm);
+      }
+    });
+
+    return { chords, rhythms };
+  }
+}
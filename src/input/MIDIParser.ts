@@ -5,6 +5,10 @@
 
 import { Midi } from "@tonejs/midi";
 import { Note, Chord, PolyphonicSequence } from "../types";
+import { drumHitsToToken } from "../music/DrumMap";
+import { velocityToDynamic } from "../music/Dynamics";
+import { REST_NOTE, beatsToRhythmToken, parseTimeSignature } from "../music/Rhythm";
+import { pitchToNoteName } from "../music/Scales";
 
 export interface ParsedMIDI {
   tracks: MIDITrack[];
@@ -26,13 +30,28 @@ export interface MIDISequence {
   rhythmSequence: string[];
 }
 
+/** A note of a monophonic line, or a rest (null) between two notes */
+interface LineEvent {
+  note: Note | null;
+  duration: number;
+}
+
 export class MIDIParser {
   private quantization: number = 16; // 16th note quantization by default
+  private includeRests: boolean = false; // Emit rests for gaps between notes
 
   constructor(quantization: number = 16) {
     this.quantization = quantization;
   }
 
+  /**
+   * Emit a rest wherever a line pauses for at least one grid step: "R" in note sequences,
+   * an "r" rhythm such as "r8" and the previous dynamic in velocity sequences
+   */
+  setIncludeRests(enabled: boolean): void {
+    this.includeRests = enabled;
+  }
+
   /**
    * Parse a MIDI file from ArrayBuffer
    */
@@ -136,16 +155,14 @@ export class MIDIParser {
     for (const track of midi.tracks) {
       if (track.isDrumTrack) {
         console.log(`Skipping drum track: ${track.name}`);
-        continue; // Skip drum tracks for now
+        continue; // Drum tracks are handled by extractDrumSequences
       }
 
       console.log(`Processing track: ${track.name} with ${track.notes.length} notes`);
 
-      // Sort notes by start time
-      const sortedNotes = [...track.notes].sort((a, b) => a.startTime - b.startTime);
-
       // Convert to note name strings
-      const noteSequence = sortedNotes.map((note) => {
+      const noteSequence = this.getLineEvents(track, midi.tempo).map(({ note }) => {
+        if (!note) return REST_NOTE;
         const noteName = this.midiToNoteName(note.pitch);
         if (!noteName || noteName.includes("undefined")) {
           console.warn(`Failed to convert pitch ${note.pitch} to note name, got: ${noteName}`);
@@ -179,16 +196,13 @@ export class MIDIParser {
     const sequences: string[][] = [];
 
     for (const track of midi.tracks) {
-      if (track.isDrumTrack) continue; // Skip drum tracks for now
-
-      // Sort notes by start time
-      const sortedNotes = [...track.notes].sort((a, b) => a.startTime - b.startTime);
+      if (track.isDrumTrack) continue; // Drum tracks are handled by extractDrumSequences
 
       // Convert durations to rhythm strings
-      const rhythmSequence = sortedNotes.map((note) => {
-        const rhythm = this.durationToRhythmString(note.duration, midi.tempo);
+      const rhythmSequence = this.getLineEvents(track, midi.tempo).map(({ note, duration }) => {
+        const rhythm = this.durationToRhythmString(duration, midi.tempo, note === null);
         if (!rhythm || rhythm.includes("NaN")) {
-          console.warn(`Failed to convert duration ${note.duration} to rhythm, got: ${rhythm}`);
+          console.warn(`Failed to convert duration ${duration} to rhythm, got: ${rhythm}`);
         }
         return rhythm;
       });
@@ -201,6 +215,31 @@ export class MIDIParser {
     return sequences;
   }
 
+  /**
+   * Extract velocity sequences quantized to dynamic markings (pp..ff)
+   * Aligned note for note with extractNoteSequences and extractRhythmSequences
+   */
+  extractVelocitySequences(midi: ParsedMIDI): string[][] {
+    const sequences: string[][] = [];
+
+    for (const track of midi.tracks) {
+      if (track.isDrumTrack) continue; // Drum tracks are handled by extractDrumSequences
+
+      // Rests repeat the previous dynamic so the sequence stays aligned with the notes
+      let dynamic = "mf";
+      const velocitySequence = this.getLineEvents(track, midi.tempo).map(({ note }) => {
+        if (note) dynamic = velocityToDynamic(note.velocity);
+        return dynamic;
+      });
+
+      if (velocitySequence.length > 0) {
+        sequences.push(velocitySequence);
+      }
+    }
+
+    return sequences;
+  }
+
   /**
    * Extract combined note:rhythm sequences for joint training
    */
@@ -208,15 +247,12 @@ export class MIDIParser {
     const sequences: string[][] = [];
 
     for (const track of midi.tracks) {
-      if (track.isDrumTrack) continue; // Skip drum tracks for now
-
-      // Sort notes by start time
-      const sortedNotes = [...track.notes].sort((a, b) => a.startTime - b.startTime);
+      if (track.isDrumTrack) continue; // Drum tracks are handled by extractDrumSequences
 
       // Create combined note:rhythm strings
-      const combinedSequence = sortedNotes.map((note) => {
-        const noteName = this.midiToNoteName(note.pitch);
-        const rhythm = this.durationToRhythmString(note.duration, midi.tempo);
+      const combinedSequence = this.getLineEvents(track, midi.tempo).map(({ note, duration }) => {
+        const noteName = note ? this.midiToNoteName(note.pitch) : REST_NOTE;
+        const rhythm = this.durationToRhythmString(duration, midi.tempo, note === null);
         return `${noteName}:${rhythm}`;
       });
 
@@ -228,6 +264,61 @@ export class MIDIParser {
     return sequences;
   }
 
+  /**
+   * Extract drum tracks as step-grid sequences for percussion training
+   * Each step (a sixteenth note by default) becomes one token listing the drums hit on it,
+   * e.g. "K+HH", or "-" for an empty step. Sequences are padded to whole bars.
+   *
+   * @param midi Parsed MIDI
+   * @param stepsPerBeat Grid resolution per quarter note (4 = sixteenth notes)
+   */
+  extractDrumSequences(midi: ParsedMIDI, stepsPerBeat: number = 4): string[][] {
+    const sequences: string[][] = [];
+    const stepDuration = 60000 / (midi.tempo || 120) / stepsPerBeat;
+    const stepsPerBar = this.getStepsPerBar(midi.timeSignature, stepsPerBeat);
+
+    for (const track of midi.tracks) {
+      if (!track.isDrumTrack || track.notes.length === 0) continue;
+
+      console.log(`Processing drum track: ${track.name} with ${track.notes.length} hits`);
+
+      // Collect the percussion keys hit on each grid step
+      const hitsPerStep = new Map<number, number[]>();
+      for (const note of track.notes) {
+        const step = Math.round(note.startTime / stepDuration);
+        const hits = hitsPerStep.get(step) || [];
+        hits.push(note.pitch);
+        hitsPerStep.set(step, hits);
+      }
+
+      // A loop rather than Math.max(...steps), which overflows the stack on long tracks
+      let lastStep = 0;
+      for (const step of hitsPerStep.keys()) lastStep = Math.max(lastStep, step);
+      const totalSteps = Math.ceil((lastStep + 1) / stepsPerBar) * stepsPerBar;
+      const stepSequence: string[] = [];
+      for (let step = 0; step < totalSteps; step++) {
+        stepSequence.push(drumHitsToToken(hitsPerStep.get(step) || []));
+      }
+
+      sequences.push(stepSequence);
+    }
+
+    return sequences;
+  }
+
+  /**
+   * Number of grid steps in one bar of the given time signature (4/4 when it is unsupported)
+   */
+  getStepsPerBar(timeSignature: string, stepsPerBeat: number = 4): number {
+    let barBeats = 4;
+    try {
+      barBeats = parseTimeSignature(timeSignature).barBeats;
+    } catch {
+      // Keep 4/4
+    }
+    return Math.max(1, Math.round(barBeats * stepsPerBeat));
+  }
+
   /**
    * Extract polyphonic sequences (chords) from parsed MIDI
    */
@@ -235,7 +326,7 @@ export class MIDIParser {
     const sequences: PolyphonicSequence[] = [];
 
     for (const track of midi.tracks) {
-      if (track.isDrumTrack) continue; // Skip drum tracks for now
+      if (track.isDrumTrack) continue; // Drum tracks are handled by extractDrumSequences
 
       console.log(`Processing polyphonic track: ${track.name} with ${track.notes.length} notes`);
 
@@ -354,20 +445,39 @@ export class MIDIParser {
       return "C4";
     }
 
-    const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-    const octave = Math.floor(midi / 12) - 1;
-    const noteIndex = midi % 12;
-    return `${noteNames[noteIndex]}${octave}`;
+    return pitchToNoteName(midi);
   }
 
   /**
-   * Convert duration in milliseconds to rhythm string
+   * Sort a track's notes by start time, adding rests for gaps when rests are enabled
    */
-  private durationToRhythmString(durationMs: number, tempo: number): string {
+  private getLineEvents(track: MIDITrack, tempo: number): LineEvent[] {
+    const sortedNotes = [...track.notes].sort((a, b) => a.startTime - b.startTime);
+    const events: LineEvent[] = [];
+    // Gaps shorter than half a grid step are timing jitter, not rests
+    const minRest = (60000 / (tempo || 120)) * (4 / this.quantization) * 0.5;
+    let lineEnd: number | null = null;
+
+    for (const note of sortedNotes) {
+      if (this.includeRests && lineEnd !== null && note.startTime - lineEnd >= minRest) {
+        events.push({ note: null, duration: note.startTime - lineEnd });
+      }
+      events.push({ note, duration: note.duration });
+      lineEnd = Math.max(lineEnd ?? 0, note.startTime + note.duration);
+    }
+
+    return events;
+  }
+
+  /**
+   * Convert duration in milliseconds to a rhythm token, quantized to the straight or triplet
+   * grid. Dotted values are recognised and longer durations are tied, e.g. "4.", "8t", "2~8"
+   */
+  private durationToRhythmString(durationMs: number, tempo: number, rest = false): string {
     // Validate inputs
     if (typeof durationMs !== "number" || isNaN(durationMs) || durationMs <= 0) {
       console.warn(`Invalid duration: ${durationMs}, using quarter note as fallback`);
-      return "4";
+      return rest ? "r4" : "4";
     }
 
     if (typeof tempo !== "number" || isNaN(tempo) || tempo <= 0) {
@@ -376,15 +486,7 @@ export class MIDIParser {
     }
 
     const beatDuration = (60 / tempo) * 1000; // Beat duration in milliseconds
-
-    // Calculate note value based on duration
-    if (durationMs >= beatDuration * 4) return "1"; // Whole note
-    if (durationMs >= beatDuration * 2) return "2"; // Half note
-    if (durationMs >= beatDuration) return "4"; // Quarter note
-    if (durationMs >= beatDuration / 2) return "8"; // Eighth note
-    if (durationMs >= beatDuration / 4) return "16"; // Sixteenth note
-    if (durationMs >= beatDuration / 8) return "32"; // Thirty-second note
-    return "4"; // Default to quarter note
+    return beatsToRhythmToken(durationMs / beatDuration, this.quantization, rest);
   }
 
   /**
@@ -0,0 +1,157 @@
+/**
+ * This class extends the base MarkovChain to learn and generate chord progressions:
+ * - Chords are named by HarmonicAnalyzer as Roman numerals relative to the key (I, vi, IV, V7),
+ *   so progressions learned in one key can be generated in any other
+ * - Generated numerals are realized as voiced chords: the root in the bass and the upper voices
+ *   moving as little as possible from one chord to the next
+ */
+
+import { MarkovChain } from "../core/MarkovChain";
+import { Chord, MarkovConfig, Note, PolyphonicSequence } from "../types";
+import { HarmonicAnalyzer } from "./HarmonicAnalyzer";
+import { noteNameToPitch, pitchToNoteName } from "./Scales";
+
+export class ChordProgressionChain extends MarkovChain {
+  private harmonicAnalyzer = new HarmonicAnalyzer();
+
+  /**
+   * Restore a progression chain previously saved with toJSON()
+   *
+   * @param data Serialized model, either as a JSON string or an already parsed object
+   */
+  static fromJSON(data: string | unknown): ChordProgressionChain {
+    const parsed = MarkovChain.parseSerialized(data);
+    MarkovChain.validateSerializedChain(parsed, "model");
+
+    const chain = new ChordProgressionChain(parsed.config);
+    chain.restoreSerializedState(parsed);
+    return chain;
+  }
+
+  /**
+   * Train with chord sequences such as those from MIDIParser.extractChordSequences
+   * ("C4+E4+G4" chord ids). Each sequence is converted to Roman numerals in its own key
+   *
+   * @param chordSequences Chord id sequences
+   * @param key Key of all sequences, detected per sequence when omitted
+   */
+  trainWithChords(chordSequences: string[][], key?: string): void {
+    this.train(this.toNumeralSequences(chordSequences, key));
+  }
+
+  /**
+   * Append more chord sequences to an already trained chain
+   */
+  appendChords(chordSequences: string[][], key?: string): void {
+    this.trainAppend(this.toNumeralSequences(chordSequences, key));
+  }
+
+  /**
+   * Train directly with Roman-numeral progressions, e.g. [["I", "vi", "IV", "V7"]]
+   */
+  trainWithNumerals(progressions: string[][]): void {
+    for (const numeral of progressions.flat()) {
+      this.harmonicAnalyzer.parseRomanNumeral(numeral, "C major");
+    }
+    this.train(progressions);
+  }
+
+  /**
+   * Convert a chord id sequence to Roman numerals; notes that do not form a chord are skipped
+   *
+   * @param chordSequence Chord ids such as "C4+E4+G4"
+   * @param key Key of the sequence, detected from its notes when omitted
+   */
+  toRomanNumerals(chordSequence: string[], key?: string): string[] {
+    const chordNotes = chordSequence.map((chordId) => this.parseChordId(chordId));
+    return this.harmonicAnalyzer.analyzeProgression(chordNotes, key).romanNumerals;
+  }
+
+  /**
+   * Generate a progression of Roman numerals
+   */
+  generateProgression(length: number): string[] {
+    if (!length || length <= 0) {
+      throw new Error("Length must be a positive number");
+    }
+
+    const startContext = this.getRandomStartContext();
+    if (startContext.length >= length) {
+      return startContext.slice(0, length);
+    }
+    return [...startContext, ...this.generate(length - startContext.length, startContext)];
+  }
+
+  /**
+   * Voice Roman numerals as chords in a key
+   *
+   * @param numerals Roman numerals such as "I", "vi", "V7" or "bVII"
+   * @param key Key to realize the progression in (e.g. "D major", "F#m")
+   * @param chordDuration Length of each chord in milliseconds
+   */
+  realize(numerals: string[], key: string, chordDuration: number = 2000): Chord[] {
+    let previous: number[] | undefined;
+
+    return numerals.map((numeral, index) => {
+      const { root, pitchClasses } = this.harmonicAnalyzer.parseRomanNumeral(numeral, key);
+      const voicing = this.harmonicAnalyzer.voiceChord(pitchClasses, root, previous);
+      previous = voicing;
+
+      const startTime = index * chordDuration;
+      const notes: Note[] = voicing.map((pitch) => ({
+        pitch,
+        velocity: 80,
+        startTime,
+        duration: chordDuration,
+      }));
+
+      return {
+        notes,
+        startTime,
+        duration: chordDuration,
+        id: notes.map((note) => pitchToNoteName(note.pitch)).join("+"),
+      };
+    });
+  }
+
+  /**
+   * Generate a progression and realize it in a key
+   *
+   * @param length Number of chords
+   * @param key Key to generate in
+   * @param chordDuration Length of each chord in milliseconds
+   */
+  generatePolyphonicSequence(
+    length: number = 8,
+    key: string = "C major",
+    chordDuration: number = 2000
+  ): PolyphonicSequence {
+    const chords = this.realize(this.generateProgression(length), key, chordDuration);
+
+    return {
+      chords,
+      duration: chords.length * chordDuration,
+      key,
+      timeSignature: "4/4",
+    };
+  }
+
+  private toNumeralSequences(chordSequences: string[][], key?: string): string[][] {
+    return chordSequences
+      .map((sequence) => this.toRomanNumerals(sequence, key))
+      .filter((numerals) => numerals.length > 0);
+  }
+
+  private parseChordId(chordId: string): Note[] {
+    const notes: Note[] = [];
+
+    for (const noteStr of chordId.split("+")) {
+      const pitch = noteNameToPitch(noteStr);
+      if (pitch !== null) {
+        notes.push({ pitch, velocity: 80, startTime: 0, duration: 1000 });
+      }
+    }
+
+    return notes;
+  }
+}
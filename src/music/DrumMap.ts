@@ -0,0 +1,130 @@
+/**
+ * General MIDI percussion map (channel 10) and the short tokens used for drum step grids
+ * e.g. a sixteenth step with a kick and a closed hi-hat becomes "K+HH"
+ */
+
+export interface DrumSound {
+  /** General MIDI percussion key name */
+  name: string;
+  /** Short token used in step-grid sequences (shared by closely related sounds) */
+  token: string;
+}
+
+/** MIDI channel reserved for percussion (channel 10, 0-indexed) */
+export const DRUM_CHANNEL = 9;
+
+/** Token for a step without any hits */
+export const DRUM_REST = "-";
+
+export const GM_DRUM_MAP: Record<number, DrumSound> = {
+  35: { name: "Acoustic Bass Drum", token: "K" },
+  36: { name: "Bass Drum 1", token: "K" },
+  37: { name: "Side Stick", token: "RS" },
+  38: { name: "Acoustic Snare", token: "S" },
+  39: { name: "Hand Clap", token: "CP" },
+  40: { name: "Electric Snare", token: "S" },
+  41: { name: "Low Floor Tom", token: "LT" },
+  42: { name: "Closed Hi-Hat", token: "HH" },
+  43: { name: "High Floor Tom", token: "LT" },
+  44: { name: "Pedal Hi-Hat", token: "PH" },
+  45: { name: "Low Tom", token: "MT" },
+  46: { name: "Open Hi-Hat", token: "OH" },
+  47: { name: "Low-Mid Tom", token: "MT" },
+  48: { name: "Hi-Mid Tom", token: "HT" },
+  49: { name: "Crash Cymbal 1", token: "CR" },
+  50: { name: "High Tom", token: "HT" },
+  51: { name: "Ride Cymbal 1", token: "RD" },
+  52: { name: "Chinese Cymbal", token: "CH" },
+  53: { name: "Ride Bell", token: "RB" },
+  54: { name: "Tambourine", token: "TB" },
+  55: { name: "Splash Cymbal", token: "SP" },
+  56: { name: "Cowbell", token: "CB" },
+  57: { name: "Crash Cymbal 2", token: "CR" },
+  58: { name: "Vibraslap", token: "VS" },
+  59: { name: "Ride Cymbal 2", token: "RD" },
+  60: { name: "Hi Bongo", token: "HB" },
+  61: { name: "Low Bongo", token: "LB" },
+  62: { name: "Mute Hi Conga", token: "MC" },
+  63: { name: "Open Hi Conga", token: "HC" },
+  64: { name: "Low Conga", token: "LC" },
+  65: { name: "High Timbale", token: "HTB" },
+  66: { name: "Low Timbale", token: "LTB" },
+  67: { name: "High Agogo", token: "HA" },
+  68: { name: "Low Agogo", token: "LA" },
+  69: { name: "Cabasa", token: "CA" },
+  70: { name: "Maracas", token: "MA" },
+  71: { name: "Short Whistle", token: "SW" },
+  72: { name: "Long Whistle", token: "LW" },
+  73: { name: "Short Guiro", token: "SG" },
+  74: { name: "Long Guiro", token: "LG" },
+  75: { name: "Claves", token: "CL" },
+  76: { name: "Hi Wood Block", token: "HW" },
+  77: { name: "Low Wood Block", token: "LWB" },
+  78: { name: "Mute Cuica", token: "MCU" },
+  79: { name: "Open Cuica", token: "OCU" },
+  80: { name: "Mute Triangle", token: "MTR" },
+  81: { name: "Open Triangle", token: "OTR" },
+};
+
+const PREFERRED_PITCHES: Record<string, number> = {
+  K: 36,
+  S: 38,
+  LT: 41,
+  MT: 45,
+  HT: 48,
+  CR: 49,
+};
+
+// Order hits appear in within a token, roughly from the bottom of the kit to the top
+const TOKEN_ORDER = ["K", "S", "RS", "CP", "LT", "MT", "HT", "HH", "PH", "OH", "RD", "RB", "CR"];
+
+/**
+ * Get the General MIDI name of a percussion key
+ */
+export function drumNameForPitch(pitch: number): string {
+  return GM_DRUM_MAP[pitch]?.name ?? `Percussion ${pitch}`;
+}
+
+/**
+ * Get the step-grid token for a percussion key (unmapped keys become "N<pitch>")
+ */
+export function drumTokenForPitch(pitch: number): string {
+  return GM_DRUM_MAP[pitch]?.token ?? `N${pitch}`;
+}
+
+/**
+ * Get the MIDI key for a drum token, using the first (most common) sound that shares it
+ */
+export function pitchForDrumToken(token: string): number | null {
+  const unmapped = token.match(/^N(\d+)$/);
+  if (unmapped) return parseInt(unmapped[1], 10);
+
+  // Prefer Bass Drum 1, Acoustic Snare etc. over their less common twins
+  if (PREFERRED_PITCHES[token] !== undefined) return PREFERRED_PITCHES[token];
+
+  for (const [pitch, sound] of Object.entries(GM_DRUM_MAP)) {
+    if (sound.token === token) return parseInt(pitch, 10);
+  }
+  return null;
+}
+
+/**
+ * Build a step token from the percussion keys hit on that step (e.g. [36, 42] -> "K+HH")
+ */
+export function drumHitsToToken(pitches: number[]): string {
+  const tokens = [...new Set(pitches.map(drumTokenForPitch))];
+  if (tokens.length === 0) return DRUM_REST;
+
+  const rank = (token: string) => {
+    const index = TOKEN_ORDER.indexOf(token);
+    return index === -1 ? TOKEN_ORDER.length : index;
+  };
+  return tokens.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b)).join("+");
+}
+
+/**
+ * Split a step token back into its individual drum tokens
+ */
+export function drumTokenToHits(token: string): string[] {
+  return token === DRUM_REST || token === "" ? [] : token.split("+");
+}
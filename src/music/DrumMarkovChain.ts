@@ -0,0 +1,174 @@
+/**
+ * This class extends the base MarkovChain to generate drum grooves:
+ * - Each token is one grid step (a sixteenth by default) listing the drums hit, e.g. "K+HH"
+ * - Tokens are tagged with their position in the bar while training, so the chain learns
+ *   where in the bar each hit pattern tends to happen
+ * - Output is always a whole number of bars, ready for export on MIDI channel 10
+ */
+
+import { MarkovChain } from "../core/MarkovChain";
+import { MarkovConfig, MusicSequence, Note } from "../types";
+import { DRUM_CHANNEL, DRUM_REST, drumTokenToHits, pitchForDrumToken } from "./DrumMap";
+import { parseTimeSignature } from "./Rhythm";
+
+export class DrumMarkovChain extends MarkovChain {
+  private stepsPerBeat: number;
+  private stepsPerBar: number;
+  private timeSignature: string;
+  private tempo: number = 120; // BPM
+
+  /**
+   * @param config Chain configuration
+   * @param timeSignature Time signature of the grooves (e.g. "4/4", "6/8")
+   * @param stepsPerBeat Grid resolution per quarter note (4 = sixteenth notes)
+   */
+  constructor(config: MarkovConfig, timeSignature: string = "4/4", stepsPerBeat: number = 4) {
+    super(config);
+
+    this.timeSignature = timeSignature;
+    this.stepsPerBeat = stepsPerBeat;
+    this.stepsPerBar = Math.max(
+      1,
+      Math.round(parseTimeSignature(timeSignature).barBeats * stepsPerBeat)
+    );
+  }
+
+  /**
+   * Train with step-grid sequences such as those from MIDIParser.extractDrumSequences
+   * Every sequence is expected to start on a downbeat
+   */
+  trainWithGrooves(stepSequences: string[][]): void {
+    this.train(stepSequences.map((sequence) => this.tagPositions(sequence)));
+  }
+
+  /**
+   * Append more grooves to an already trained chain
+   */
+  appendGrooves(stepSequences: string[][]): void {
+    this.trainAppend(stepSequences.map((sequence) => this.tagPositions(sequence)));
+  }
+
+  /**
+   * Generate a number of whole bars of step tokens
+   */
+  generateBars(bars: number = 1): string[] {
+    if (!bars || bars <= 0) {
+      throw new Error("Bars must be a positive number");
+    }
+
+    const totalSteps = bars * this.stepsPerBar;
+    const startContext = this.getDownbeatStartContext();
+
+    let tagged = startContext.slice(0, totalSteps);
+    if (tagged.length < totalSteps) {
+      tagged = [...tagged, ...this.generate(totalSteps - tagged.length, startContext)];
+    }
+
+    const steps = tagged.map((token) => this.untagPosition(token));
+    while (steps.length < totalSteps) {
+      steps.push(DRUM_REST);
+    }
+    return steps;
+  }
+
+  /**
+   * Generate whole bars of drums as notes on the General MIDI percussion channel
+   */
+  generateGroove(bars: number = 1): MusicSequence {
+    const steps = this.generateBars(bars);
+    const notes = this.stepsToNotes(steps);
+
+    return {
+      notes,
+      duration: steps.length * this.getStepDuration(),
+      timeSignature: this.timeSignature,
+    };
+  }
+
+  /**
+   * Convert step tokens into drum hits, accenting downbeats and beats
+   */
+  stepsToNotes(steps: string[]): Note[] {
+    const notes: Note[] = [];
+    const stepDuration = this.getStepDuration();
+
+    steps.forEach((token, index) => {
+      for (const hit of drumTokenToHits(token)) {
+        const pitch = pitchForDrumToken(hit);
+        if (pitch === null) {
+          console.warn(`Unknown drum token: ${hit}`);
+          continue;
+        }
+
+        notes.push({
+          pitch,
+          velocity: this.getAccentVelocity(index % this.stepsPerBar),
+          duration: stepDuration,
+          startTime: index * stepDuration,
+          channel: DRUM_CHANNEL,
+        });
+      }
+    });
+
+    return notes;
+  }
+
+  /**
+   * Set the tempo used to convert steps to milliseconds
+   */
+  setTempo(tempo: number): void {
+    this.tempo = tempo;
+  }
+
+  /**
+   * Number of grid steps per bar
+   */
+  getStepsPerBar(): number {
+    return this.stepsPerBar;
+  }
+
+  private getStepDuration(): number {
+    return 60000 / this.tempo / this.stepsPerBeat;
+  }
+
+  private getAccentVelocity(position: number): number {
+    if (position === 0) return 112; // Downbeat
+    if (position % this.stepsPerBeat === 0) return 96; // Other beats
+    if (position % (this.stepsPerBeat / 2) === 0) return 84; // Off-beat eighths
+    return 72;
+  }
+
+  /**
+   * Tag each step with its position in the bar. Grooves loop, so the opening steps are
+   * repeated at the end to teach the chain how the last bar leads back into the first
+   */
+  private tagPositions(sequence: string[]): string[] {
+    const looped =
+      sequence.length % this.stepsPerBar === 0
+        ? [...sequence, ...sequence.slice(0, this.config.order)]
+        : sequence;
+    return looped.map((token, index) => `${index % this.stepsPerBar}@${token}`);
+  }
+
+  private untagPosition(token: string): string {
+    const separator = token.indexOf("@");
+    return separator === -1 ? token : token.slice(separator + 1);
+  }
+
+  /**
+   * Pick a context from the training data that starts on a downbeat
+   */
+  private getDownbeatStartContext(): string[] {
+    const candidates: string[][] = [];
+    for (const sequence of this.trainingData) {
+      for (let i = 0; i + this.config.order <= sequence.length; i += this.stepsPerBar) {
+        candidates.push(sequence.slice(i, i + this.config.order));
+      }
+    }
+
+    if (candidates.length === 0) {
+      return this.getRandomStartContext();
+    }
+    return candidates[Math.floor(this.random.next() * candidates.length)];
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Dynamic markings (pp..ff) used to quantize MIDI velocities into a small vocabulary
+ * so that dynamics can be learned by a Markov chain
+ */
+
+export interface DynamicBand {
+  /** Dynamic marking, e.g. "mf" */
+  name: string;
+  /** Lowest MIDI velocity in the band */
+  min: number;
+  /** Velocity used when rendering the band back to MIDI */
+  velocity: number;
+}
+
+/** Bands from softest to loudest; each runs up to the next band's minimum */
+export const DYNAMIC_BANDS: DynamicBand[] = [
+  { name: "pp", min: 1, velocity: 33 },
+  { name: "p", min: 41, velocity: 49 },
+  { name: "mp", min: 57, velocity: 64 },
+  { name: "mf", min: 72, velocity: 80 },
+  { name: "f", min: 88, velocity: 96 },
+  { name: "ff", min: 104, velocity: 112 },
+];
+
+/**
+ * Quantize a MIDI velocity (0-127) to its dynamic marking
+ */
+export function velocityToDynamic(velocity: number): string {
+  let band = DYNAMIC_BANDS[0];
+  for (const candidate of DYNAMIC_BANDS) {
+    if (velocity >= candidate.min) band = candidate;
+  }
+  return band.name;
+}
+
+/**
+ * Get the MIDI velocity for a dynamic marking, or null if the marking is unknown
+ */
+export function dynamicToVelocity(dynamic: string): number | null {
+  return DYNAMIC_BANDS.find((band) => band.name === dynamic)?.velocity ?? null;
+}
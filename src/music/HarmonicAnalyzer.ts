@@ -3,19 +3,27 @@
  */
 
 import { Note } from "../types";
+import {
+  MAJOR_KEYS,
+  MINOR_KEYS,
+  NOTE_NAMES,
+  noteNameToPitch,
+  parseKey,
+  pitchToNoteName,
+} from "./Scales";
 
 export interface Chord {
   root: string;
-  quality:
-    | "major"
-    | "minor"
-    | "diminished"
-    | "augmented"
-    | "suspended"
-    | "dominant7"
-    | "major7"
-    | "minor7";
+  /** A registered chord quality, e.g. "major", "minor9" or "halfDiminished7" */
+  quality: string;
   notes: string[];
+  /** Lowest sounding note, when it is known */
+  bass?: string;
+  /**
+   * 0 in root position, 1 with the second chord tone in the bass, and so on
+   * Missing when the bass is not a chord tone
+   */
+  inversion?: number;
   startTime: number;
   duration: number;
   confidence: number;
@@ -36,20 +44,135 @@ export interface VoiceLeadingRule {
   preferStepwiseMotion: boolean;
 }
 
+export interface ChordTemplate {
+  /** Chord tones in semitones above the root, root first, e.g. [0, 4, 7, 11, 14] for maj9 */
+  intervals: number[];
+  /** Chord symbol suffix, e.g. "maj9" in "Cmaj9" */
+  symbol: string;
+  /**
+   * Roman numeral form: case of the numeral and suffix, e.g. { upper: false, suffix: "ø7" }
+   * Defaults to an upper-case numeral unless the chord has a minor third, with the symbol suffix
+   */
+  numeral?: { upper: boolean; suffix: string };
+}
+
+export interface KeyCandidate {
+  /** Key name, e.g. "Eb major" or "C# minor" */
+  key: string;
+  /** Correlation of the pitch-class durations with the key profile (-1 to 1) */
+  score: number;
+}
+
+export interface KeyRegion {
+  key: string;
+  startTime: number;
+  endTime: number;
+  /** Average key score of the windows in the region */
+  confidence: number;
+}
+
+// Krumhansl-Kessler probe-tone profiles, from the tonic up
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+// Every major key followed by its parallel minor, e.g. "C major", "C minor", "Db major", ...
+const KEY_NAMES = MAJOR_KEYS.flatMap((major, tonic) => [
+  `${major} major`,
+  `${MINOR_KEYS[tonic].slice(0, -1)} minor`,
+]);
+
+export const DEFAULT_VOICE_LEADING_RULES: VoiceLeadingRule = {
+  maxInterval: 7, // Maximum interval in semitones
+  avoidParallelFifths: true,
+  avoidParallelOctaves: true,
+  preferStepwiseMotion: true,
+};
+
+// Chord qualities every analyzer knows; more can be added with registerChordQuality
+const BUILT_IN_CHORD_TEMPLATES: Record<string, ChordTemplate> = {
+  major: { intervals: [0, 4, 7], symbol: "", numeral: { upper: true, suffix: "" } },
+  minor: { intervals: [0, 3, 7], symbol: "m", numeral: { upper: false, suffix: "" } },
+  diminished: { intervals: [0, 3, 6], symbol: "dim", numeral: { upper: false, suffix: "°" } },
+  augmented: { intervals: [0, 4, 8], symbol: "aug", numeral: { upper: true, suffix: "+" } },
+  suspended: { intervals: [0, 5, 7], symbol: "sus4", numeral: { upper: true, suffix: "sus" } },
+  suspended2: { intervals: [0, 2, 7], symbol: "sus2", numeral: { upper: true, suffix: "sus2" } },
+  dominant7: { intervals: [0, 4, 7, 10], symbol: "7", numeral: { upper: true, suffix: "7" } },
+  major7: { intervals: [0, 4, 7, 11], symbol: "maj7", numeral: { upper: true, suffix: "maj7" } },
+  minor7: { intervals: [0, 3, 7, 10], symbol: "m7", numeral: { upper: false, suffix: "7" } },
+  halfDiminished7: {
+    intervals: [0, 3, 6, 10],
+    symbol: "m7b5",
+    numeral: { upper: false, suffix: "ø7" },
+  },
+  diminished7: { intervals: [0, 3, 6, 9], symbol: "dim7", numeral: { upper: false, suffix: "°7" } },
+  major6: { intervals: [0, 4, 7, 9], symbol: "6", numeral: { upper: true, suffix: "6" } },
+  minor6: { intervals: [0, 3, 7, 9], symbol: "m6", numeral: { upper: false, suffix: "6" } },
+  add9: { intervals: [0, 4, 7, 14], symbol: "add9", numeral: { upper: true, suffix: "add9" } },
+  dominant9: { intervals: [0, 4, 7, 10, 14], symbol: "9", numeral: { upper: true, suffix: "9" } },
+  major9: {
+    intervals: [0, 4, 7, 11, 14],
+    symbol: "maj9",
+    numeral: { upper: true, suffix: "maj9" },
+  },
+  minor9: { intervals: [0, 3, 7, 10, 14], symbol: "m9", numeral: { upper: false, suffix: "9" } },
+  // The third is usually left out under an eleventh
+  dominant11: {
+    intervals: [0, 7, 10, 14, 17],
+    symbol: "11",
+    numeral: { upper: true, suffix: "11" },
+  },
+  minor11: {
+    intervals: [0, 3, 7, 10, 14, 17],
+    symbol: "m11",
+    numeral: { upper: false, suffix: "11" },
+  },
+};
+
+// Other spellings of chord symbol suffixes found on lead sheets
+const CHORD_SYMBOL_ALIASES: Record<string, string> = {
+  maj: "",
+  M: "",
+  min: "m",
+  "-": "m",
+  "°": "dim",
+  o: "dim",
+  "+": "aug",
+  sus: "sus4",
+  M7: "maj7",
+  Δ: "maj7",
+  Δ7: "maj7",
+  min7: "m7",
+  "-7": "m7",
+  ø: "m7b5",
+  ø7: "m7b5",
+  "-7b5": "m7b5",
+  "°7": "dim7",
+  o7: "dim7",
+  min6: "m6",
+  "-6": "m6",
+  M9: "maj9",
+  Δ9: "maj9",
+  min9: "m9",
+  "-9": "m9",
+  min11: "m11",
+  "-11": "m11",
+};
+
+// Voiced chords put the bass between E2 and D#3 and the lowest upper voice between G3 and F#4
+const BASS_LOW = 40;
+const UPPER_LOW = 55;
+// Upper voices of a first chord are led from C4-E4-G4
+const REFERENCE_VOICING = [60, 64, 67];
+
+// Score bonus for a chord whose root is in the bass, e.g. Am7 over C6 for A-C-E-G with A lowest
+const ROOT_IN_BASS_BONUS = 0.25;
+
 export class HarmonicAnalyzer {
-  private chordTemplates: Map<string, number[]> = new Map();
-  private keySignatures: Map<string, number[]> = new Map();
+  private chordTemplates: Map<string, ChordTemplate> = new Map();
   private voiceLeadingRules: VoiceLeadingRule;
 
   constructor() {
     this.initializeChordTemplates();
-    this.initializeKeySignatures();
-    this.voiceLeadingRules = {
-      maxInterval: 7, // Maximum interval in semitones
-      avoidParallelFifths: true,
-      avoidParallelOctaves: true,
-      preferStepwiseMotion: true,
-    };
+    this.voiceLeadingRules = { ...DEFAULT_VOICE_LEADING_RULES };
   }
 
   /**
@@ -124,58 +247,382 @@ export class HarmonicAnalyzer {
   }
 
   /**
-   * Detect the key of a musical sequence
+   * Detect the key of a musical sequence (see rankKeys)
    */
   detectKey(notes: Note[]): string {
-    const noteCounts = new Map<string, number>();
+    return this.rankKeys(notes)[0]?.key ?? "C major";
+  }
 
-    // Count occurrences of each note
+  /**
+   * Rank all 24 major and minor keys by Krumhansl-Schmuckler key finding: the correlation of
+   * the time each pitch class sounds with each key's probe-tone profile
+   */
+  rankKeys(notes: Note[]): KeyCandidate[] {
+    if (notes.length === 0) return [];
+
+    // Notes without a duration count once each
+    const durations = new Array(12).fill(0);
+    const weighted = notes.some((note) => note.duration > 0);
     for (const note of notes) {
-      const noteName = this.midiToNoteName(note.pitch);
-      noteCounts.set(noteName, (noteCounts.get(noteName) || 0) + 1);
+      durations[((note.pitch % 12) + 12) % 12] += weighted ? Math.max(0, note.duration) : 1;
     }
 
-    // Compare against known key signatures
-    let bestKey = "C major";
-    let bestScore = 0;
+    return this.rankKeysByDurations(durations);
+  }
 
-    for (const [key, scale] of this.keySignatures) {
-      const score = this.calculateKeyScore(noteCounts, scale);
-      if (score > bestScore) {
-        bestScore = score;
-        bestKey = key;
+  /**
+   * Split a piece into key regions, for training data that modulates
+   * Keys are found in consecutive windows, then a path through the windows is chosen that
+   * maximizes the total key score minus a penalty for every change of key
+   *
+   * @param notes Notes of the piece
+   * @param windowSize Window length in milliseconds
+   * @param modulationPenalty Score a key change must gain to be taken (0 follows every window)
+   */
+  detectKeyRegions(
+    notes: Note[],
+    windowSize: number = 4000,
+    modulationPenalty: number = 0.5
+  ): KeyRegion[] {
+    if (!(windowSize > 0)) {
+      throw new Error("Window size must be a positive number");
+    }
+    if (notes.length === 0) return [];
+
+    const startTime = Math.min(...notes.map((note) => note.startTime));
+    const endTime = Math.max(...notes.map((note) => note.startTime + note.duration));
+    const windowCount = Math.max(1, Math.ceil((endTime - startTime) / windowSize));
+
+    // Score every key in every window from the time each pitch class sounds in it
+    const keys = KEY_NAMES;
+    const windowScores: number[][] = [];
+    for (let window = 0; window < windowCount; window++) {
+      const from = startTime + window * windowSize;
+      const to = from + windowSize;
+      const durations = new Array(12).fill(0);
+      for (const note of notes) {
+        const overlap =
+          Math.min(to, note.startTime + note.duration) - Math.max(from, note.startTime);
+        if (overlap > 0) durations[((note.pitch % 12) + 12) % 12] += overlap;
       }
+
+      const scores = new Map(
+        this.rankKeysByDurations(durations).map((candidate) => [candidate.key, candidate.score])
+      );
+      windowScores.push(keys.map((key) => scores.get(key) ?? 0));
+    }
+
+    // Viterbi search over the windows
+    let totals = [...windowScores[0]];
+    const backPointers: number[][] = [];
+    for (let window = 1; window < windowCount; window++) {
+      const bestPrevious = totals.indexOf(Math.max(...totals));
+      const pointers: number[] = [];
+      totals = keys.map((_, key) => {
+        const switchTotal = totals[bestPrevious] - modulationPenalty;
+        const stay = totals[key] >= switchTotal;
+        pointers.push(stay ? key : bestPrevious);
+        return (stay ? totals[key] : switchTotal) + windowScores[window][key];
+      });
+      backPointers.push(pointers);
+    }
+
+    const path = [totals.indexOf(Math.max(...totals))];
+    for (let window = backPointers.length - 1; window >= 0; window--) {
+      path.unshift(backPointers[window][path[0]]);
     }
 
-    return bestKey;
+    // Merge consecutive windows in the same key
+    const regions: KeyRegion[] = [];
+    let windowsInRegion = 0;
+    path.forEach((key, window) => {
+      const last = regions[regions.length - 1];
+      const score = windowScores[window][key];
+      if (last && last.key === keys[key]) {
+        last.confidence = (last.confidence * windowsInRegion + score) / (windowsInRegion + 1);
+        last.endTime = Math.min(endTime, startTime + (window + 1) * windowSize);
+        windowsInRegion++;
+        return;
+      }
+
+      regions.push({
+        key: keys[key],
+        startTime: startTime + window * windowSize,
+        endTime: Math.min(endTime, startTime + (window + 1) * windowSize),
+        confidence: score,
+      });
+      windowsInRegion = 1;
+    });
+
+    return regions;
+  }
+
+  /**
+   * Add a chord quality to the template registry, or replace an existing one
+   *
+   * @param quality Name of the quality, e.g. "dominant13"
+   * @param template Chord tones above the root, chord symbol suffix and Roman numeral form
+   */
+  registerChordQuality(quality: string, template: ChordTemplate): void {
+    if (!quality) {
+      throw new Error("Chord quality name must not be empty");
+    }
+    const { intervals } = template;
+    if (
+      intervals.length === 0 ||
+      intervals[0] !== 0 ||
+      !intervals.every((interval) => Number.isInteger(interval) && interval >= 0) ||
+      new Set(intervals.map((interval) => interval % 12)).size !== intervals.length
+    ) {
+      throw new Error(
+        `Chord quality ${quality} needs distinct whole-semitone intervals starting with the root (0)`
+      );
+    }
+
+    const numeral = template.numeral ?? {
+      upper: !intervals.includes(3),
+      suffix: template.symbol,
+    };
+    for (const [other, existing] of this.chordTemplates) {
+      if (
+        other !== quality &&
+        existing.numeral!.upper === numeral.upper &&
+        existing.numeral!.suffix === numeral.suffix
+      ) {
+        throw new Error(`Chord quality ${quality} has the same Roman numeral form as ${other}`);
+      }
+    }
+
+    this.chordTemplates.set(quality, { ...template, intervals: [...intervals], numeral });
+  }
+
+  /**
+   * Names of all registered chord qualities
+   */
+  getChordQualities(): string[] {
+    return [...this.chordTemplates.keys()];
+  }
+
+  /**
+   * Write a chord as a chord symbol, e.g. "Cmaj9", "F#m7b5" or "Cmaj9/E" for an inversion
+   */
+  toChordSymbol(chord: Chord): string {
+    const template = this.chordTemplates.get(chord.quality);
+    if (!template) {
+      throw new Error(`Unknown chord quality: ${chord.quality}`);
+    }
+    const slash = chord.bass && chord.bass !== chord.root ? `/${chord.bass}` : "";
+    return `${chord.root}${template.symbol}${slash}`;
+  }
+
+  /**
+   * Parse a chord symbol such as "Cmaj7", "F#m7b5", "Bb9", "Am/G" or "C-7"
+   * The bass is the root unless a slash chord names another note
+   */
+  parseChordSymbol(symbol: string): {
+    root: number;
+    quality: string;
+    bass: number;
+    pitchClasses: number[];
+  } {
+    const match = symbol.match(/^([A-G])([#b]?)([^/]*)(?:\/([A-G])([#b]?))?$/);
+    const suffix = match ? (CHORD_SYMBOL_ALIASES[match[3]] ?? match[3]) : "";
+    const quality = [...this.chordTemplates.keys()].find(
+      (candidate) => this.chordTemplates.get(candidate)!.symbol === suffix
+    );
+    if (!match || !quality) {
+      throw new Error(`Unknown chord symbol: ${symbol}`);
+    }
+
+    const toPitchClass = (letter: string, accidental: string) =>
+      (NOTE_NAMES.indexOf(letter) + (accidental === "#" ? 1 : accidental === "b" ? -1 : 0) + 12) %
+      12;
+    const root = toPitchClass(match[1], match[2]);
+
+    return {
+      root,
+      quality,
+      bass: match[4] ? toPitchClass(match[4], match[5]) : root,
+      pitchClasses: this.chordTemplates
+        .get(quality)!
+        .intervals.map((interval) => (root + interval) % 12),
+    };
+  }
+
+  /**
+   * Voice a chord as MIDI pitches: the bass between E2 and D#3, then the close-position
+   * inversion of the chord tones whose voices are nearest the previous chord's upper voices
+   *
+   * @param pitchClasses Chord tones
+   * @param bass Pitch class of the bass
+   * @param previous Previous voicing from voiceChord, to lead the upper voices from
+   */
+  voiceChord(pitchClasses: number[], bass: number, previous?: number[]): number[] {
+    const previousUpper = previous ? previous.slice(1) : REFERENCE_VOICING;
+    let best: number[] = [];
+    let bestCost = Infinity;
+
+    for (let rotation = 0; rotation < pitchClasses.length; rotation++) {
+      const order = [...pitchClasses.slice(rotation), ...pitchClasses.slice(0, rotation)];
+      let pitch = UPPER_LOW + ((order[0] - UPPER_LOW + 120) % 12);
+      const voicing = order.map((pitchClass, index) => {
+        if (index > 0) pitch += (pitchClass - pitch + 120) % 12 || 12;
+        return pitch;
+      });
+
+      const cost = voicing.reduce(
+        (total, voice) =>
+          total +
+          Math.min(...previousUpper.map((previousVoice) => Math.abs(voice - previousVoice))),
+        0
+      );
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = voicing;
+      }
+    }
+
+    return [BASS_LOW + ((bass - BASS_LOW + 120) % 12), ...best];
+  }
+
+  /**
+   * Identify a chord from simultaneous notes, or null when fewer than two notes sound
+   * The lowest note is reported as the bass, with the inversion it makes
+   */
+  identifyChord(notes: Note[]): Chord | null {
+    if (notes.length === 0) return null;
+    const startTime = Math.min(...notes.map((note) => note.startTime));
+    const duration = Math.max(...notes.map((note) => note.duration));
+    return this.analyzeChord(notes, startTime, duration);
+  }
+
+  /**
+   * Identify each group of simultaneous notes as a chord and name it in the key
+   * Groups that are not chords are skipped
+   *
+   * @param chordNotes Notes of each chord, in order
+   * @param key Key to analyze in, detected from all notes when omitted
+   */
+  analyzeProgression(chordNotes: Note[][], key?: string): ChordProgression {
+    const progressionKey = key ?? this.detectKey(chordNotes.flat());
+    const chords = chordNotes
+      .map((notes) => this.identifyChord(notes))
+      .filter((chord): chord is Chord => chord !== null);
+
+    return {
+      chords,
+      key: progressionKey,
+      romanNumerals: chords.map((chord) => this.toRomanNumeral(chord, progressionKey)),
+      duration: chords.reduce((total, chord) => total + chord.duration, 0),
+      tension: 0.5,
+    };
+  }
+
+  /**
+   * Name a chord by its scale degree in the key, e.g. "V7" for G7 in C major, "ii7" for Dm7,
+   * "vii°" for B diminished and "bVII" for Bb major. Chromatic roots are flattened or sharpened
+   * relative to the key's scale
+   */
+  toRomanNumeral(chord: Chord, key: string): string {
+    const { tonic, pitchClasses } = parseKey(key);
+    const offsets = pitchClasses.map((pitchClass) => (pitchClass - tonic + 12) % 12);
+    const offset = (NOTE_NAMES.indexOf(chord.root) - tonic + 12) % 12;
+
+    let accidental = "";
+    let degree = offsets.indexOf(offset);
+    if (degree === -1 && offsets.includes(offset + 1)) {
+      accidental = "b";
+      degree = offsets.indexOf(offset + 1);
+    } else if (degree === -1) {
+      accidental = "#";
+      degree = offsets.indexOf((offset + 11) % 12);
+    }
+
+    const form = this.chordTemplates.get(chord.quality)?.numeral;
+    if (!form) {
+      throw new Error(`Unknown chord quality: ${chord.quality}`);
+    }
+    const numeral = this.indexToRomanNumeral(degree);
+    return `${accidental}${form.upper ? numeral : numeral.toLowerCase()}${form.suffix}`;
+  }
+
+  /**
+   * Parse a Roman numeral such as "V7", "ii", "vii°", "iiø7" or "bVI" in a key
+   * "o" may be written for "°"
+   */
+  parseRomanNumeral(
+    numeral: string,
+    key: string
+  ): { root: number; quality: string; pitchClasses: number[] } {
+    const match = numeral.match(/^([b#]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)(.*)$/);
+    const form = match ? match[3].replace(/^o/, "°") : "";
+    const upper = match ? match[2] === match[2].toUpperCase() : false;
+    const quality = [...this.chordTemplates.keys()].find((candidate) => {
+      const candidateForm = this.chordTemplates.get(candidate)!.numeral!;
+      return candidateForm.upper === upper && candidateForm.suffix === form;
+    });
+    if (!match || !quality) {
+      throw new Error(`Invalid Roman numeral: ${numeral}`);
+    }
+
+    const { pitchClasses } = parseKey(key);
+    const degree = ["I", "II", "III", "IV", "V", "VI", "VII"].indexOf(match[2].toUpperCase());
+    const alteration = match[1] === "b" ? -1 : match[1] === "#" ? 1 : 0;
+    const root = (pitchClasses[degree] + alteration + 12) % 12;
+
+    return {
+      root,
+      quality,
+      pitchClasses: this.chordTemplates
+        .get(quality)!
+        .intervals.map((interval) => (root + interval) % 12),
+    };
   }
 
   // Private helper methods
 
+  /**
+   * Correlate pitch-class durations with every key profile, best first
+   */
+  private rankKeysByDurations(durations: number[]): KeyCandidate[] {
+    const candidates = KEY_NAMES.map((key, index) => {
+      const tonic = Math.floor(index / 2);
+      const rotated = durations.map((_, offset) => durations[(tonic + offset) % 12]);
+      return {
+        key,
+        score: this.correlate(rotated, index % 2 === 0 ? MAJOR_PROFILE : MINOR_PROFILE),
+      };
+    });
+
+    // Stable sort: on ties, lower tonics and major keys come first
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Pearson correlation; 0 when either side does not vary
+   */
+  private correlate(values: number[], profile: number[]): number {
+    const mean = (list: number[]) => list.reduce((sum, value) => sum + value, 0) / list.length;
+    const valueMean = mean(values);
+    const profileMean = mean(profile);
+
+    let covariance = 0;
+    let valueVariance = 0;
+    let profileVariance = 0;
+    values.forEach((value, index) => {
+      covariance += (value - valueMean) * (profile[index] - profileMean);
+      valueVariance += (value - valueMean) ** 2;
+      profileVariance += (profile[index] - profileMean) ** 2;
+    });
+
+    const denominator = Math.sqrt(valueVariance * profileVariance);
+    return denominator === 0 ? 0 : covariance / denominator;
+  }
+
   private initializeChordTemplates(): void {
-    this.chordTemplates.set("major", [0, 4, 7]);
-    this.chordTemplates.set("minor", [0, 3, 7]);
-    this.chordTemplates.set("diminished", [0, 3, 6]);
-    this.chordTemplates.set("augmented", [0, 4, 8]);
-    this.chordTemplates.set("suspended", [0, 5, 7]);
-    this.chordTemplates.set("dominant7", [0, 4, 7, 10]);
-    this.chordTemplates.set("major7", [0, 4, 7, 11]);
-    this.chordTemplates.set("minor7", [0, 3, 7, 10]);
-  }
-
-  private initializeKeySignatures(): void {
-    this.keySignatures.set("C major", [0, 2, 4, 5, 7, 9, 11]);
-    this.keySignatures.set("G major", [7, 9, 11, 0, 2, 4, 6]);
-    this.keySignatures.set("D major", [2, 4, 6, 7, 9, 11, 1]);
-    this.keySignatures.set("A major", [9, 11, 1, 2, 4, 6, 8]);
-    this.keySignatures.set("E major", [4, 6, 8, 9, 11, 1, 3]);
-    this.keySignatures.set("B major", [11, 1, 3, 4, 6, 8, 10]);
-    this.keySignatures.set("F# major", [6, 8, 10, 11, 1, 3, 5]);
-    this.keySignatures.set("F major", [5, 7, 9, 10, 0, 2, 4]);
-    this.keySignatures.set("Bb major", [10, 0, 2, 3, 5, 7, 9]);
-    this.keySignatures.set("Eb major", [3, 5, 7, 8, 10, 0, 2]);
-    this.keySignatures.set("Ab major", [8, 10, 0, 1, 3, 5, 7]);
-    this.keySignatures.set("Db major", [1, 3, 5, 6, 8, 10, 0]);
+    for (const [quality, template] of Object.entries(BUILT_IN_CHORD_TEMPLATES)) {
+      this.registerChordQuality(quality, template);
+    }
   }
 
   private groupNotesByTime(
@@ -214,6 +661,7 @@ export class HarmonicAnalyzer {
     // Convert notes to pitch classes (0-11)
     const pitchClasses = notes.map((note) => note.pitch % 12);
     const uniquePitchClasses = [...new Set(pitchClasses)].sort((a, b) => a - b);
+    const bass = Math.min(...notes.map((note) => note.pitch)) % 12;
 
     // Find best matching chord
     let bestChord: Chord | null = null;
@@ -221,15 +669,18 @@ export class HarmonicAnalyzer {
 
     for (const [quality, template] of this.chordTemplates) {
       for (let root = 0; root < 12; root++) {
-        const chordNotes = template.map((interval) => (root + interval) % 12);
-        const score = this.calculateChordScore(uniquePitchClasses, chordNotes);
+        const chordNotes = template.intervals.map((interval) => (root + interval) % 12);
+        const score = this.calculateChordScore(uniquePitchClasses, chordNotes, bass);
 
         if (score > bestScore) {
+          const inversion = chordNotes.indexOf(bass);
           bestScore = score;
           bestChord = {
-            root: this.indexToNoteName(root),
-            quality: quality as Chord["quality"],
-            notes: chordNotes.map((pc) => this.indexToNoteName(pc)),
+            root: NOTE_NAMES[root],
+            quality,
+            notes: chordNotes.map((pc) => NOTE_NAMES[pc]),
+            bass: NOTE_NAMES[bass],
+            ...(inversion !== -1 && { inversion }),
             startTime,
             duration,
             confidence: score,
@@ -241,7 +692,11 @@ export class HarmonicAnalyzer {
     return bestChord;
   }
 
-  private calculateChordScore(actualPitchClasses: number[], chordTemplate: number[]): number {
+  private calculateChordScore(
+    actualPitchClasses: number[],
+    chordTemplate: number[],
+    bass?: number
+  ): number {
     let score = 0;
     let matches = 0;
 
@@ -249,6 +704,9 @@ export class HarmonicAnalyzer {
       if (chordTemplate.includes(pc)) {
         matches++;
         score += 1;
+      } else {
+        // Notes outside the template point to a richer chord, e.g. the seventh of G7
+        score -= 0.5;
       }
     }
 
@@ -256,6 +714,10 @@ export class HarmonicAnalyzer {
     if (chordTemplate.length > 0 && actualPitchClasses.includes(chordTemplate[0])) {
       score += 0.5;
     }
+    // Tie-break between chords with the same notes, e.g. Am7 and C6
+    if (bass !== undefined && chordTemplate[0] === bass) {
+      score += ROOT_IN_BASS_BONUS;
+    }
 
     // Normalize by chord template size
     return score / chordTemplate.length;
@@ -263,9 +725,8 @@ export class HarmonicAnalyzer {
 
   private stringSequenceToNotes(sequence: string[]): Note[] {
     return sequence.map((noteStr, index) => {
-      const midi = this.noteNameToMidi(noteStr);
       return {
-        pitch: midi,
+        pitch: noteNameToPitch(noteStr) ?? 60, // Default to middle C
         velocity: 80,
         duration: 1000,
         startTime: index * 1000,
@@ -273,36 +734,16 @@ export class HarmonicAnalyzer {
     });
   }
 
-  private calculateKeyScore(noteCounts: Map<string, number>, scale: number[]): number {
-    let score = 0;
-    let totalNotes = 0;
-
-    for (const [noteName, count] of noteCounts) {
-      const pitchClass = this.noteNameToMidi(noteName) % 12;
-      if (scale.includes(pitchClass)) {
-        score += count;
-      }
-      totalNotes += count;
-    }
-
-    return totalNotes > 0 ? score / totalNotes : 0;
-  }
-
   private createChord(root: string, quality: string, startTime: number, duration: number): Chord {
-    const template = this.chordTemplates.get(quality) || [0, 4, 7];
-    const rootPitch = this.noteNameToMidi(root) % 12;
+    const template = this.chordTemplates.get(quality)?.intervals ?? [0, 4, 7];
+    const rootPitch = Math.max(0, NOTE_NAMES.indexOf(root));
 
     // Create chord notes in a reasonable octave (octave 4)
-    const baseOctave = 4;
-    const chordNotes = template.map((interval) => {
-      const noteIndex = (rootPitch + interval) % 12;
-      const octave = baseOctave + Math.floor((rootPitch + interval) / 12);
-      return this.indexToNoteName(noteIndex) + octave;
-    });
+    const chordNotes = template.map((interval) => pitchToNoteName(60 + rootPitch + interval));
 
     return {
       root,
-      quality: quality as Chord["quality"],
+      quality,
       notes: chordNotes,
       startTime,
       duration,
@@ -310,32 +751,8 @@ export class HarmonicAnalyzer {
     };
   }
 
-  private midiToNoteName(midi: number): string {
-    const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-    const octave = Math.floor(midi / 12) - 1;
-    const noteIndex = midi % 12;
-    return `${noteNames[noteIndex]}${octave}`;
-  }
-
-  private noteNameToMidi(noteName: string): number {
-    const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-    const match = noteName.match(/^([A-G]#?)(\d+)$/);
-    if (!match) return 60; // Default to middle C
-
-    const note = match[1];
-    const octave = parseInt(match[2], 10);
-    const noteIndex = noteNames.indexOf(note);
-
-    return noteIndex + (octave + 1) * 12;
-  }
-
-  private indexToNoteName(index: number): string {
-    const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-    return noteNames[index % 12];
-  }
-
   private indexToRomanNumeral(index: number): string {
-    const numerals = ["I", "ii", "iii", "IV", "V", "vi", "vii°"];
+    const numerals = ["I", "II", "III", "IV", "V", "VI", "VII"];
     return numerals[index % 7];
   }
 
@@ -417,10 +834,10 @@ export class HarmonicAnalyzer {
 
   private calculateChordTransitionSmoothness(fromChord: Chord, toChord: Chord): number {
     // Simplified smoothness calculation
-    const fromRoot = this.noteNameToMidi(fromChord.root);
-    const toRoot = this.noteNameToMidi(toChord.root);
+    const fromRoot = NOTE_NAMES.indexOf(fromChord.root);
+    const toRoot = NOTE_NAMES.indexOf(toChord.root);
 
-    if (fromRoot === undefined || toRoot === undefined) return 0;
+    if (fromRoot === -1 || toRoot === -1) return 0;
 
     const interval = (toRoot - fromRoot + 12) % 12;
 
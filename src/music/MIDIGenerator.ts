@@ -5,6 +5,8 @@
  */
 
 import { MusicSequence, Note, PolyphonicSequence, Chord } from "../types";
+import { DRUM_CHANNEL } from "./DrumMap";
+import { isRest, rhythmToBeats } from "./Rhythm";
 
 // MIDI-specific extensions of base types
 export interface MIDINote extends Note {
@@ -29,6 +31,64 @@ export interface MIDISequence {
   keySignature: string;
 }
 
+export interface MIDITrackData {
+  /** Track name written as a meta event */
+  name: string;
+  /** Notes for this track (times in ticks) */
+  notes: MIDINote[];
+}
+
+export interface MIDIFileOptions {
+  /** Write one track per MIDI channel instead of a single note track (default false) */
+  splitByChannel?: boolean;
+}
+
+interface MIDIEvent {
+  /** Absolute time in ticks */
+  tick: number;
+  /** Ordering among events at the same tick (meta, note-off, note-on) */
+  order: number;
+  /** Event bytes without the delta time */
+  data: number[];
+}
+
+// Number of sharps (positive) or flats (negative) for each tonic
+const MAJOR_KEY_SIGNATURES: Record<string, number> = {
+  Cb: -7,
+  Gb: -6,
+  Db: -5,
+  Ab: -4,
+  Eb: -3,
+  Bb: -2,
+  F: -1,
+  C: 0,
+  G: 1,
+  D: 2,
+  A: 3,
+  E: 4,
+  B: 5,
+  "F#": 6,
+  "C#": 7,
+};
+
+const MINOR_KEY_SIGNATURES: Record<string, number> = {
+  Ab: -7,
+  Eb: -6,
+  Bb: -5,
+  F: -4,
+  C: -3,
+  G: -2,
+  D: -1,
+  A: 0,
+  E: 1,
+  B: 2,
+  "F#": 3,
+  "C#": 4,
+  "G#": 5,
+  "D#": 6,
+  "A#": 7,
+};
+
 export class MIDIGenerator {
   private ticksPerBeat: number = 480; // Standard MIDI resolution
   private tempo: number = 120; // BPM
@@ -50,7 +110,7 @@ export class MIDIGenerator {
         velocity: note.velocity,
         startTime: this.convertTimeToTicks(note.startTime),
         duration: this.convertTimeToTicks(note.duration),
-        channel: 0, // Default to channel 0
+        channel: note.channel ?? 0, // Default to channel 0
       };
       return midiNote;
     });
@@ -93,6 +153,50 @@ export class MIDIGenerator {
     };
   }
 
+  /**
+   * Lay out pitches with rhythm tokens such as "4.", "8t", "2~8" or "r8"
+   * Rests and steps without pitches advance time without sounding
+   *
+   * @param pitches MIDI pitches sounding at each step (several for a chord)
+   * @param rhythms Rhythm token for each step
+   * @param velocity Velocity of every note
+   * @param channel MIDI channel of every note
+   */
+  generateMIDIFromRhythm(
+    pitches: number[][],
+    rhythms: string[],
+    velocity: number = 80,
+    channel: number = 0
+  ): MIDISequence {
+    const midiNotes: MIDINote[] = [];
+    let tick = 0;
+
+    rhythms.forEach((rhythm, index) => {
+      const duration = this.rhythmToTicks(rhythm);
+      if (!isRest(rhythm)) {
+        for (const pitch of pitches[index] ?? []) {
+          midiNotes.push({ pitch, velocity, startTime: tick, duration, channel });
+        }
+      }
+      tick += duration;
+    });
+
+    return {
+      notes: midiNotes,
+      duration: tick,
+      tempo: this.tempo,
+      timeSignature: this.timeSignature,
+      keySignature: this.keySignature,
+    };
+  }
+
+  /**
+   * Length of a rhythm token in MIDI ticks
+   */
+  rhythmToTicks(rhythm: string): number {
+    return Math.round(rhythmToBeats(rhythm) * this.ticksPerBeat);
+  }
+
   // Personality-related methods removed for simplicity
 
   // All personality-related methods removed for simplicity
@@ -108,19 +212,67 @@ export class MIDIGenerator {
   }
 
   /**
-   * Generate MIDI file data (binary format)
+   * Generate a format-1 Standard MIDI File (binary format)
+   * The first track carries tempo, time signature and key signature; notes follow in a single
+   * track, or in one track per channel when splitByChannel is set
    */
-  generateMIDIFile(midiSequence: MIDISequence): Uint8Array {
-    // This is a simplified MIDI file generation
-    // In a full implementation, you'd want to use a proper MIDI library
+  generateMIDIFile(midiSequence: MIDISequence, options: MIDIFileOptions = {}): Uint8Array {
+    const splitByChannel = options.splitByChannel ?? false;
+    const tracks: MIDITrackData[] = [];
+
+    if (splitByChannel) {
+      const channels = [...new Set(midiSequence.notes.map((note) => note.channel))].sort(
+        (a, b) => a - b
+      );
+      for (const channel of channels) {
+        tracks.push({
+          name: channel === DRUM_CHANNEL ? "Drums" : `Channel ${channel + 1}`,
+          notes: midiSequence.notes.filter((note) => note.channel === channel),
+        });
+      }
+    } else {
+      tracks.push({ name: "Markov Mania", notes: midiSequence.notes });
+    }
 
-    const header = this.createMIDIHeader();
-    const trackData = this.createMIDITrack(midiSequence);
+    return this.generateMultiTrackMIDIFile(tracks, midiSequence);
+  }
 
-    // Combine header and track data
-    const midiData = new Uint8Array(header.length + trackData.length);
-    midiData.set(header, 0);
-    midiData.set(trackData, header.length);
+  /**
+   * Generate a format-1 Standard MIDI File with one track per entry (e.g. one per voice)
+   *
+   * @param tracks Named note lists, each written to its own track
+   * @param timing Tempo, signatures and total duration in ticks (defaults to generator settings)
+   */
+  generateMultiTrackMIDIFile(
+    tracks: MIDITrackData[],
+    timing: Partial<
+      Pick<MIDISequence, "tempo" | "timeSignature" | "keySignature" | "duration">
+    > = {}
+  ): Uint8Array {
+    const tempo = timing.tempo ?? this.tempo;
+    const timeSignature = timing.timeSignature ?? this.timeSignature;
+    const keySignature = timing.keySignature ?? this.keySignature;
+    // A loop rather than Math.max(...notes), which overflows the stack on long tracks
+    let endTick = timing.duration ?? 0;
+    for (const track of tracks) {
+      for (const note of track.notes) {
+        endTick = Math.max(endTick, note.startTime + note.duration);
+      }
+    }
+
+    const chunks: Uint8Array[] = [
+      this.createMIDIHeader(tracks.length + 1),
+      this.createConductorTrack(tempo, timeSignature, keySignature, endTick),
+      ...tracks.map((track) => this.createMIDITrack(track, endTick)),
+    ];
+
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const midiData = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const chunk of chunks) {
+      midiData.set(chunk, offset);
+      offset += chunk.length;
+    }
 
     return midiData;
   }
@@ -128,8 +280,7 @@ export class MIDIGenerator {
   /**
    * Create MIDI file header
    */
-  private createMIDIHeader(): Uint8Array {
-    // MIDI file header (simplified)
+  private createMIDIHeader(trackCount: number): Uint8Array {
     const header = new Uint8Array(14);
 
     // "MThd" identifier
@@ -149,8 +300,8 @@ export class MIDIGenerator {
     header[9] = 0x01;
 
     // Number of tracks
-    header[10] = 0x00;
-    header[11] = 0x01;
+    header[10] = (trackCount >> 8) & 0xff;
+    header[11] = trackCount & 0xff;
 
     // Ticks per quarter note
     header[12] = (this.ticksPerBeat >> 8) & 0xff;
@@ -160,53 +311,199 @@ export class MIDIGenerator {
   }
 
   /**
-   * Create MIDI track data
+   * Create the conductor track holding tempo, time signature and key signature meta events
    */
-  private createMIDITrack(midiSequence: MIDISequence): Uint8Array {
-    // This is a simplified track creation
-    // In practice, you'd want to use a proper MIDI library
+  private createConductorTrack(
+    tempo: number,
+    timeSignature: string,
+    keySignature: string,
+    endTick: number
+  ): Uint8Array {
+    const events: MIDIEvent[] = [];
+
+    // Tempo meta event (microseconds per quarter note)
+    const microsecondsPerBeat = Math.round(60000000 / tempo);
+    events.push({
+      tick: 0,
+      order: 0,
+      data: [
+        0xff,
+        0x51,
+        0x03,
+        (microsecondsPerBeat >> 16) & 0xff,
+        (microsecondsPerBeat >> 8) & 0xff,
+        microsecondsPerBeat & 0xff,
+      ],
+    });
 
+    // Time signature meta event
+    const { numerator, denominator } = this.parseTimeSignature(timeSignature);
+    const isCompound = numerator > 3 && numerator % 3 === 0 && denominator >= 8;
+    const clocksPerClick = ((24 * 4) / denominator) * (isCompound ? 3 : 1);
+    events.push({
+      tick: 0,
+      order: 0,
+      data: [0xff, 0x58, 0x04, numerator, Math.log2(denominator), clocksPerClick, 0x08],
+    });
+
+    // Key signature meta event (sharps/flats as a signed byte, then major/minor)
+    const { sharpsOrFlats, isMinor } = this.parseKeySignature(keySignature);
+    events.push({
+      tick: 0,
+      order: 0,
+      data: [0xff, 0x59, 0x02, sharpsOrFlats & 0xff, isMinor ? 0x01 : 0x00],
+    });
+
+    return this.encodeTrack(events, endTick);
+  }
+
+  /**
+   * Create a note track with real delta times between events
+   */
+  private createMIDITrack(track: MIDITrackData, endTick: number): Uint8Array {
+    const events: MIDIEvent[] = [];
+
+    // Track name meta event
+    const nameBytes = Array.from(track.name, (char) => char.charCodeAt(0) & 0x7f);
+    events.push({
+      tick: 0,
+      order: 0,
+      data: [0xff, 0x03, ...this.encodeVariableLength(nameBytes.length), ...nameBytes],
+    });
+
+    for (const note of this.resolveOverlappingNotes(track.notes)) {
+      const channel = Math.max(0, Math.min(15, note.channel)) & 0x0f;
+      const pitch = Math.max(0, Math.min(127, Math.round(note.pitch)));
+      // A note-on with velocity 0 would be read as a note-off
+      const velocity = Math.max(1, Math.min(127, Math.round(note.velocity)));
+
+      events.push({ tick: note.startTime, order: 2, data: [0x90 | channel, pitch, velocity] });
+      events.push({
+        tick: note.startTime + note.duration,
+        order: 1,
+        data: [0x80 | channel, pitch, 0x00],
+      });
+    }
+
+    return this.encodeTrack(events, endTick);
+  }
+
+  /**
+   * Sort events and encode them into an "MTrk" chunk with variable-length delta times
+   * At equal ticks meta events come first, then note-offs, then note-ons, so a repeated
+   * pitch is released before it is struck again
+   */
+  private encodeTrack(events: MIDIEvent[], endTick: number): Uint8Array {
+    const sortedEvents = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
     const trackData: number[] = [];
+    let lastTick = 0;
 
-    // Track header
-    trackData.push(0x4d, 0x54, 0x72, 0x6b); // "MTrk"
+    for (const event of sortedEvents) {
+      trackData.push(...this.encodeVariableLength(event.tick - lastTick), ...event.data);
+      lastTick = event.tick;
+    }
 
-    // Track length placeholder (will be filled later)
-    trackData.push(0x00, 0x00, 0x00, 0x00);
+    // End of track, placed at the end of the sequence
+    trackData.push(...this.encodeVariableLength(Math.max(0, endTick - lastTick)), 0xff, 0x2f, 0x00);
 
-    // Tempo meta event
-    const tempo = Math.round(60000000 / midiSequence.tempo); // microseconds per quarter note
-    trackData.push(0x00, 0xff, 0x51, 0x03);
-    trackData.push((tempo >> 16) & 0xff, (tempo >> 8) & 0xff, tempo & 0xff);
+    const chunk = new Uint8Array(8 + trackData.length);
+    chunk.set([0x4d, 0x54, 0x72, 0x6b], 0); // "MTrk"
+    chunk[4] = (trackData.length >> 24) & 0xff;
+    chunk[5] = (trackData.length >> 16) & 0xff;
+    chunk[6] = (trackData.length >> 8) & 0xff;
+    chunk[7] = trackData.length & 0xff;
+    chunk.set(trackData, 8);
 
-    // Time signature meta event
-    trackData.push(0x00, 0xff, 0x58, 0x04);
-    trackData.push(0x04, 0x02, 0x18, 0x08); // 4/4 time
+    return chunk;
+  }
 
-    // Key signature meta event
-    trackData.push(0x00, 0xff, 0x59, 0x02);
-    trackData.push(0x00, 0x00); // C major
+  /**
+   * Make sure notes of the same pitch on the same channel never overlap
+   * An earlier note is cut short where the next one starts; simultaneous duplicates are merged
+   */
+  private resolveOverlappingNotes(notes: MIDINote[]): MIDINote[] {
+    const byChannelAndPitch = new Map<string, MIDINote[]>();
+    for (const note of notes) {
+      const key = `${note.channel}:${note.pitch}`;
+      const group = byChannelAndPitch.get(key) || [];
+      group.push({
+        ...note,
+        startTime: Math.max(0, Math.round(note.startTime)),
+        duration: Math.max(1, Math.round(note.duration)),
+      });
+      byChannelAndPitch.set(key, group);
+    }
+
+    const resolved: MIDINote[] = [];
+    for (const group of byChannelAndPitch.values()) {
+      group.sort((a, b) => a.startTime - b.startTime || b.duration - a.duration);
+
+      let previous: MIDINote | null = null;
+      for (const note of group) {
+        if (previous && note.startTime === previous.startTime) {
+          // Same pitch struck twice at once: keep a single, longest note
+          continue;
+        }
+        if (previous && previous.startTime + previous.duration > note.startTime) {
+          previous.duration = note.startTime - previous.startTime;
+        }
+        resolved.push(note);
+        previous = note;
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Encode a non-negative integer as a MIDI variable-length quantity
+   */
+  private encodeVariableLength(value: number): number[] {
+    let remaining = Math.max(0, Math.round(value));
+    const bytes = [remaining & 0x7f];
+    remaining = Math.floor(remaining / 128);
+
+    while (remaining > 0) {
+      bytes.unshift((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
 
-    // Add notes
-    for (const note of midiSequence.notes) {
-      // Note on
-      trackData.push(0x00, 0x90 | note.channel, note.pitch, note.velocity);
+    return bytes;
+  }
 
-      // Note off (after duration)
-      trackData.push(0x00, 0x80 | note.channel, note.pitch, 0x00);
+  /**
+   * Parse a time signature such as "3/4" or "6/8"
+   */
+  private parseTimeSignature(timeSignature: string): { numerator: number; denominator: number } {
+    const match = timeSignature.trim().match(/^(\d+)\/(\d+)$/);
+    const numerator = match ? parseInt(match[1], 10) : NaN;
+    const denominator = match ? parseInt(match[2], 10) : NaN;
+
+    if (
+      !(numerator >= 1 && numerator <= 255) ||
+      !(denominator >= 1 && denominator <= 128) ||
+      !Number.isInteger(Math.log2(denominator))
+    ) {
+      throw new Error(`Unsupported time signature: ${timeSignature}`);
     }
 
-    // End of track
-    trackData.push(0x00, 0xff, 0x2f, 0x00);
+    return { numerator, denominator };
+  }
 
-    // Update track length
-    const trackLength = trackData.length - 8; // Subtract header
-    trackData[4] = (trackLength >> 24) & 0xff;
-    trackData[5] = (trackLength >> 16) & 0xff;
-    trackData[6] = (trackLength >> 8) & 0xff;
-    trackData[7] = trackLength & 0xff;
+  /**
+   * Parse a key signature such as "C", "Am", "F# minor" or "Bb major"
+   */
+  private parseKeySignature(keySignature: string): { sharpsOrFlats: number; isMinor: boolean } {
+    const match = keySignature.trim().match(/^([A-G](?:#|b)?)\s*(m|min|minor|maj|major)?$/i);
+    const tonic = match ? match[1].charAt(0).toUpperCase() + match[1].slice(1) : "";
+    const isMinor = !!match && !!match[2] && /^m(in(or)?)?$/i.test(match[2]);
+
+    const sharpsOrFlats = isMinor ? MINOR_KEY_SIGNATURES[tonic] : MAJOR_KEY_SIGNATURES[tonic];
+    if (sharpsOrFlats === undefined) {
+      throw new Error(`Unsupported key signature: ${keySignature}`);
+    }
 
-    return new Uint8Array(trackData);
+    return { sharpsOrFlats, isMinor };
   }
 
   /**
@@ -217,16 +514,18 @@ export class MIDIGenerator {
   }
 
   /**
-   * Set time signature
+   * Set time signature (e.g. "3/4", "6/8")
    */
   setTimeSignature(timeSignature: string): void {
+    this.parseTimeSignature(timeSignature);
     this.timeSignature = timeSignature;
   }
 
   /**
-   * Set key signature
+   * Set key signature (e.g. "G", "Em", "Bb major")
    */
   setKeySignature(keySignature: string): void {
+    this.parseKeySignature(keySignature);
     this.keySignature = keySignature;
   }
 }
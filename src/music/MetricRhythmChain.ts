@@ -0,0 +1,249 @@
+/**
+ * This class extends the base MarkovChain to generate rhythms that follow the meter:
+ * - Rhythm tokens are tagged with the position in the bar where they start, e.g. "12@8",
+ *   so the chain learns which durations are chosen on which beat
+ * - During generation only continuations starting where the previous token ends are allowed
+ * - Rhythms can be generated as an exact number of bars for any time signature
+ */
+
+import { MarkovChain, NextTransitions } from "../core/MarkovChain";
+import { MarkovStream } from "../core/MarkovStream";
+import { MarkovConfig } from "../types";
+import {
+  Meter,
+  beatsToExactRhythmToken,
+  isRest,
+  parseTimeSignature,
+  rhythmToBeats,
+} from "./Rhythm";
+
+// Positions are counted in 24ths of a beat, which hold dotted values and triplets exactly
+const TICKS_PER_BEAT = 24;
+
+export class MetricRhythmChain extends MarkovChain {
+  private timeSignature: string;
+  private meter: Meter;
+
+  /**
+   * @param config Chain configuration
+   * @param timeSignature Time signature of the rhythms (e.g. "3/4", "6/8", "7/8")
+   */
+  constructor(config: MarkovConfig, timeSignature: string = "4/4") {
+    super(config);
+    this.meter = parseTimeSignature(timeSignature);
+    this.timeSignature = timeSignature;
+  }
+
+  /**
+   * Restore a rhythm chain previously saved with toJSON()
+   *
+   * @param data Serialized model, either as a JSON string or an already parsed object
+   * @param timeSignature Time signature the chain was trained with
+   */
+  static fromJSON(data: string | unknown, timeSignature: string = "4/4"): MetricRhythmChain {
+    const parsed = MarkovChain.parseSerialized(data);
+    MarkovChain.validateSerializedChain(parsed, "model");
+
+    const chain = new MetricRhythmChain(parsed.config, timeSignature);
+    chain.restoreSerializedState(parsed);
+    return chain;
+  }
+
+  /**
+   * Set the time signature; takes effect on the next training call
+   */
+  setTimeSignature(timeSignature: string): void {
+    this.meter = parseTimeSignature(timeSignature);
+    this.timeSignature = timeSignature;
+  }
+
+  getTimeSignature(): string {
+    return this.timeSignature;
+  }
+
+  /**
+   * Bar length in quarter-note beats
+   */
+  getBarBeats(): number {
+    return this.meter.barBeats;
+  }
+
+  /**
+   * Train with rhythm sequences, each expected to start on a downbeat
+   */
+  trainWithRhythms(rhythms: string[][]): void {
+    this.train(rhythms.map((sequence) => this.tagPositions(sequence)));
+  }
+
+  /**
+   * Append more rhythm sequences to an already trained chain
+   */
+  appendRhythms(rhythms: string[][]): void {
+    this.trainAppend(rhythms.map((sequence) => this.tagPositions(sequence)));
+  }
+
+  /**
+   * Generate a number of rhythm tokens starting on a downbeat
+   */
+  generateRhythm(length: number): string[] {
+    if (!length || length <= 0) {
+      throw new Error("Length must be a positive number");
+    }
+
+    const tagged = this.generateFromDownbeat((sequence) => sequence.length >= length);
+    return tagged.slice(0, length).map((token) => this.untagPosition(token));
+  }
+
+  /**
+   * Generate rhythm tokens filling exactly the given number of bars
+   * A note that would cross the final barline is shortened, and rests pad a chain that stops early
+   */
+  generateBars(bars: number = 1): string[] {
+    if (!bars || bars <= 0) {
+      throw new Error("Bars must be a positive number");
+    }
+
+    const totalBeats = bars * this.meter.barBeats;
+    const tagged = this.generateFromDownbeat(
+      (sequence) => this.getLength(sequence.map((token) => this.untagPosition(token))) >= totalBeats
+    );
+    return this.fitToBars(
+      tagged.map((token) => this.untagPosition(token)),
+      bars
+    );
+  }
+
+  /**
+   * Generate rhythm tokens endlessly, starting on a downbeat (see MarkovChain.stream)
+   * Injected tokens must carry their position tag, e.g. "0@4"
+   */
+  streamRhythm(signal?: AbortSignal): MarkovStream<string> {
+    const tagged = this.stream(this.getDownbeatStartContext());
+
+    return new MarkovStream<string>((injected) => {
+      tagged.inject(...injected.splice(0));
+      const result = tagged.next();
+      return result.done ? null : this.untagPosition(result.value);
+    }, signal);
+  }
+
+  /**
+   * Cut or pad a rhythm so that it lasts exactly the given number of bars
+   */
+  fitToBars(rhythm: string[], bars: number): string[] {
+    const totalTicks = Math.round(bars * this.meter.barBeats * TICKS_PER_BEAT);
+    const fitted: string[] = [];
+    let ticks = 0;
+
+    for (const token of rhythm) {
+      if (ticks >= totalTicks) break;
+
+      const length = this.toTicks(token);
+      if (ticks + length <= totalTicks) {
+        fitted.push(token);
+      } else {
+        fitted.push(beatsToExactRhythmToken((totalTicks - ticks) / TICKS_PER_BEAT, isRest(token)));
+      }
+      ticks += length;
+    }
+
+    if (ticks < totalTicks) {
+      fitted.push(beatsToExactRhythmToken((totalTicks - ticks) / TICKS_PER_BEAT, true));
+    }
+    return fitted;
+  }
+
+  /**
+   * Only allow continuations that start where the previous token ends
+   * Falls back to the unfiltered distribution when the chain has never seen such a continuation
+   */
+  protected getNextTransitions(context: string[]): NextTransitions | null {
+    const next = super.getNextTransitions(context);
+    const last = context[context.length - 1];
+    if (!next || !last || last.indexOf("@") === -1) return next;
+
+    const barTicks = Math.round(this.meter.barBeats * TICKS_PER_BEAT);
+    const expected = (this.getTag(last) + this.toTicks(this.untagPosition(last))) % barTicks;
+
+    const transitions = new Map<string, number>();
+    let total = 0;
+    for (const [element, probability] of next.transitions) {
+      if (this.getTag(element) === expected) {
+        transitions.set(element, probability);
+        total += probability;
+      }
+    }
+    if (total === 0) return next;
+
+    for (const [element, probability] of transitions) {
+      transitions.set(element, probability / total);
+    }
+    return { ...next, transitions };
+  }
+
+  /**
+   * Generate tagged tokens from a context that starts on a downbeat until done() holds
+   */
+  private generateFromDownbeat(done: (sequence: string[]) => boolean): string[] {
+    const sequence = [...this.getDownbeatStartContext()];
+
+    while (!done(sequence)) {
+      const context = sequence.slice(-this.config.order);
+      const next = this.generate(1, context);
+      if (next.length === 0) break;
+      sequence.push(next[0]);
+    }
+    return sequence;
+  }
+
+  /**
+   * Pick a context from the training data that starts on a downbeat
+   */
+  private getDownbeatStartContext(): string[] {
+    const candidates: string[][] = [];
+    for (const sequence of this.trainingData) {
+      for (let i = 0; i + this.config.order <= sequence.length; i++) {
+        if (this.getTag(sequence[i]) === 0) {
+          candidates.push(sequence.slice(i, i + this.config.order));
+        }
+      }
+    }
+
+    if (candidates.length === 0) {
+      return this.getRandomStartContext();
+    }
+    return candidates[Math.floor(this.random.next() * candidates.length)];
+  }
+
+  /**
+   * Tag each rhythm token with the tick in the bar where it starts
+   */
+  private tagPositions(sequence: string[]): string[] {
+    const barTicks = Math.round(this.meter.barBeats * TICKS_PER_BEAT);
+    let ticks = 0;
+
+    return sequence.map((token) => {
+      const tagged = `${ticks % barTicks}@${token}`;
+      ticks += this.toTicks(token);
+      return tagged;
+    });
+  }
+
+  private untagPosition(token: string): string {
+    const separator = token.indexOf("@");
+    return separator === -1 ? token : token.slice(separator + 1);
+  }
+
+  private getTag(token: string): number {
+    const separator = token.indexOf("@");
+    return separator === -1 ? -1 : parseInt(token.slice(0, separator), 10);
+  }
+
+  private toTicks(token: string): number {
+    return Math.round(rhythmToBeats(token) * TICKS_PER_BEAT);
+  }
+
+  private getLength(rhythm: string[]): number {
+    return rhythm.reduce((beats, token) => beats + rhythmToBeats(token), 0);
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * Generates several aligned voices (melody, bass, harmony, rhythm) at once:
+ * - Each voice is backed by its own MusicMarkovChain trained on the matching MIDI tracks
+ * - The interaction mode decides whether voices share the lead voice's rhythm,
+ *   follow the harmony implied by the lead voice, or both
+ */
+
+import { MusicMarkovChain } from "./MusicMarkovChain";
+import { HarmonicAnalyzer, Chord as HarmonicChord } from "./HarmonicAnalyzer";
+import { MIDIParser, ParsedMIDI, MIDITrack } from "../input/MIDIParser";
+import { DRUM_CHANNEL } from "./DrumMap";
+import { parseTimeSignature } from "./Rhythm";
+import { NOTE_NAMES } from "./Scales";
+import {
+  MarkovConfig,
+  MultiVoiceConfig,
+  MultiVoiceSequence,
+  MusicSequence,
+  Note,
+  VoiceConfig,
+} from "../types";
+
+export class MultiVoiceGenerator {
+  private config: MultiVoiceConfig;
+  private voiceChains: Map<string, MusicMarkovChain> = new Map();
+  private trainedVoices: Set<string> = new Set();
+  // Voices trained from drum tracks, generated on the drum channel
+  private drumVoices: Set<string> = new Set();
+  private harmonicAnalyzer: HarmonicAnalyzer;
+  private midiParser: MIDIParser;
+  private tempo: number = 120; // BPM
+
+  /**
+   * @param config Voices and how they interact
+   * @param baseConfig Settings shared by every voice chain (order and temperature come from each voice)
+   */
+  constructor(config: MultiVoiceConfig, baseConfig: Partial<MarkovConfig> = {}) {
+    if (config.voices.length === 0) {
+      throw new Error("MultiVoiceConfig must define at least one voice");
+    }
+    const names = config.voices.map((voice) => voice.name);
+    if (new Set(names).size !== names.length) {
+      throw new Error(`Voice names must be unique (got ${names.join(", ")})`);
+    }
+    // One MIDI channel per voice, leaving the drum channel to drum voices
+    if (config.voices.length > 15) {
+      throw new Error(`MultiVoiceConfig supports at most 15 voices (got ${config.voices.length})`);
+    }
+    if (!(config.maxPolyphony >= 1)) {
+      throw new Error("maxPolyphony must be at least 1");
+    }
+
+    this.config = config;
+    this.harmonicAnalyzer = new HarmonicAnalyzer();
+    this.midiParser = new MIDIParser();
+
+    config.voices.forEach((voice, index) => {
+      const chain = new MusicMarkovChain({
+        smoothing: 0.1,
+        ...baseConfig,
+        order: voice.order,
+        temperature: voice.temperature,
+        // Offset the seed per voice so voices don't mirror each other's random choices
+        seed: baseConfig.seed !== undefined ? baseConfig.seed + index : undefined,
+      });
+      chain.setPitchRange(voice.voiceRange.min, voice.voiceRange.max);
+      this.voiceChains.set(voice.name, chain);
+    });
+  }
+
+  /**
+   * Train a single voice with note (or chord) tokens, rhythm tokens and optional velocities
+   */
+  trainVoice(
+    voiceName: string,
+    musicSequences: string[][],
+    rhythmSequences: string[][],
+    velocitySequences?: string[][]
+  ): void {
+    const voice = this.getVoice(voiceName);
+    const chain = this.getVoiceChain(voiceName);
+    this.drumVoices.delete(voiceName);
+
+    if (this.usesHarmony(voice) && musicSequences.some((seq) => seq.some((t) => t.includes("+")))) {
+      chain.trainWithPolyphonicMusic(musicSequences, rhythmSequences, velocitySequences);
+    } else {
+      chain.trainWithMusic(musicSequences, rhythmSequences, velocitySequences);
+    }
+
+    if (musicSequences.some((sequence) => sequence.length > 0)) {
+      this.trainedVoices.add(voiceName);
+    }
+  }
+
+  /**
+   * Train every voice from the tracks of a parsed MIDI file
+   *
+   * @param midi Parsed MIDI file
+   * @param trackAssignments Optional track indices per voice name; unassigned voices are matched
+   *   automatically (melody = highest track, bass = lowest, harmony = chordal/middle tracks,
+   *   rhythm = drum track or the busiest track)
+   */
+  trainFromMIDI(midi: ParsedMIDI, trackAssignments: { [voiceName: string]: number[] } = {}): void {
+    this.tempo = midi.tempo || this.tempo;
+    this.setTempo(this.tempo);
+    try {
+      this.voiceChains.forEach((chain) => chain.setTimeSignature(midi.timeSignature));
+    } catch (error) {
+      console.warn("Keeping the previous time signature:", error);
+    }
+
+    const assignments = this.assignTracksToVoices(midi, trackAssignments);
+
+    for (const voice of this.config.voices) {
+      const tracks = (assignments.get(voice.name) || [])
+        .map((index) => midi.tracks[index])
+        .filter((track): track is MIDITrack => !!track);
+
+      if (tracks.length === 0) {
+        console.warn(`No MIDI tracks found for voice "${voice.name}"`);
+        continue;
+      }
+
+      // The extractors skip drum tracks, so read drum notes as pitches and generate the voice
+      // back on the drum channel
+      const drums = tracks.every((track) => track.isDrumTrack);
+      const voiceMIDI: ParsedMIDI = {
+        ...midi,
+        tracks: tracks.map((track) => ({ ...track, isDrumTrack: false })),
+      };
+      const chordal = this.usesHarmony(voice) && this.midiParser.hasChords(voiceMIDI);
+      const musicSequences = chordal
+        ? this.midiParser.extractChordSequences(voiceMIDI)
+        : this.midiParser.extractNoteSequences(voiceMIDI);
+      const rhythmSequences = this.midiParser.extractRhythmSequences(voiceMIDI);
+      // Velocities are extracted per note, so they only line up with single-note sequences
+      const velocitySequences = chordal
+        ? undefined
+        : this.midiParser.extractVelocitySequences(voiceMIDI);
+
+      this.trainVoice(voice.name, musicSequences, rhythmSequences, velocitySequences);
+      if (drums) this.drumVoices.add(voice.name);
+    }
+  }
+
+  /**
+   * Generate all trained voices, aligned according to the voice interaction mode
+   *
+   * @param length Number of tokens to generate per voice
+   */
+  generate(length: number = 16): MultiVoiceSequence {
+    if (!length || length <= 0) {
+      throw new Error("Length must be a positive number");
+    }
+
+    const activeVoices = this.config.voices.filter((voice) => this.trainedVoices.has(voice.name));
+    if (activeVoices.length === 0) {
+      throw new Error("No training data available");
+    }
+
+    const interaction = this.config.voiceInteraction;
+    const shareRhythm = interaction === "rhythmic" || interaction === "full";
+    const shareHarmony = interaction === "harmonic" || interaction === "full";
+
+    // The lead voice drives the shared rhythm and the implied harmony
+    const leadVoice = this.getLeadVoice(activeVoices);
+    const leadChain = this.getVoiceChain(leadVoice.name);
+    const lead = leadChain.generateTokensAndRhythm(length);
+    const sharedRhythm = lead.rhythm;
+
+    const voiceSequences = new Map<string, MusicSequence>();
+    for (const voice of activeVoices) {
+      const chain = this.getVoiceChain(voice.name);
+      const { musicTokens, rhythm: ownRhythm } =
+        voice === leadVoice ? lead : chain.generateTokensAndRhythm(length);
+      const rhythm = shareRhythm && this.usesRhythm(voice) ? sharedRhythm : ownRhythm;
+
+      voiceSequences.set(
+        voice.name,
+        chain.convertTokensToMusicSequence(musicTokens, rhythm, chain.generateVelocities(rhythm))
+      );
+    }
+
+    const leadSequence = voiceSequences.get(leadVoice.name)!;
+    const chords = this.detectProgression(leadSequence.notes, leadChain);
+
+    if (shareHarmony && chords.length > 0) {
+      for (const voice of activeVoices) {
+        if (voice === leadVoice || !this.usesHarmony(voice) || this.drumVoices.has(voice.name)) {
+          continue;
+        }
+        const sequence = voiceSequences.get(voice.name)!;
+        sequence.notes = this.fitNotesToChords(sequence.notes, chords, voice);
+      }
+    }
+
+    // Give each pitched voice its own MIDI channel, skipping the drum channel (at most 15
+    // voices, see the constructor); drum voices share the drum channel
+    let pitchedChannels = 0;
+    for (const voice of activeVoices) {
+      let channel = DRUM_CHANNEL;
+      if (!this.drumVoices.has(voice.name)) {
+        channel = pitchedChannels >= DRUM_CHANNEL ? pitchedChannels + 1 : pitchedChannels;
+        pitchedChannels++;
+      }
+      voiceSequences.get(voice.name)!.notes.forEach((note) => (note.channel = channel));
+    }
+
+    const polyphony = this.limitPolyphony(activeVoices, voiceSequences);
+    const allNotes = Array.from(voiceSequences.values()).flatMap((sequence) => sequence.notes);
+    const pitchedNotes = allNotes.filter((note) => note.channel !== DRUM_CHANNEL);
+    let totalDuration = 0;
+    for (const note of allNotes) {
+      totalDuration = Math.max(totalDuration, note.startTime + note.duration);
+    }
+
+    const voices: MultiVoiceSequence["voices"] = {};
+    for (const voice of activeVoices) {
+      voices[voice.name] = voiceSequences.get(voice.name)!;
+    }
+
+    return {
+      voices,
+      globalHarmony: {
+        chordProgression: chords.map((chord) => this.harmonicAnalyzer.toChordSymbol(chord)),
+        key: pitchedNotes.length > 0 ? this.harmonicAnalyzer.detectKey(pitchedNotes) : "C major",
+        tension: this.calculateTension(pitchedNotes, chords),
+      },
+      globalRhythm: this.describeRhythm(sharedRhythm, allNotes),
+      totalDuration,
+      polyphony,
+    };
+  }
+
+  /**
+   * Set the tempo used for rhythm durations on all voices
+   */
+  setTempo(tempo: number): void {
+    this.tempo = tempo;
+    for (const chain of this.voiceChains.values()) {
+      chain.setTempo(tempo);
+    }
+  }
+
+  /**
+   * Get the Markov chain backing a voice (for analysis or fine-grained training)
+   */
+  getVoiceChain(voiceName: string): MusicMarkovChain {
+    const chain = this.voiceChains.get(voiceName);
+    if (!chain) {
+      throw new Error(`Unknown voice: ${voiceName}`);
+    }
+    return chain;
+  }
+
+  private getVoice(voiceName: string): VoiceConfig {
+    const voice = this.config.voices.find((v) => v.name === voiceName);
+    if (!voice) {
+      throw new Error(`Unknown voice: ${voiceName}`);
+    }
+    return voice;
+  }
+
+  private usesHarmony(voice: VoiceConfig): boolean {
+    return voice.harmonicMode || this.config.globalHarmonicMode;
+  }
+
+  private usesRhythm(voice: VoiceConfig): boolean {
+    return voice.rhythmEnhancement || this.config.globalRhythmEnhancement;
+  }
+
+  /**
+   * Pick the voice that leads: the heaviest melody voice, or the heaviest voice overall
+   */
+  private getLeadVoice(voices: VoiceConfig[]): VoiceConfig {
+    const byWeight = [...voices].sort((a, b) => b.weight - a.weight);
+    return byWeight.find((voice) => voice.voiceType === "melody") || byWeight[0];
+  }
+
+  /**
+   * Match MIDI tracks to voices, honoring explicit assignments first
+   */
+  private assignTracksToVoices(
+    midi: ParsedMIDI,
+    trackAssignments: { [voiceName: string]: number[] }
+  ): Map<string, number[]> {
+    const assignments = new Map<string, number[]>();
+    const used = new Set<number>();
+
+    for (const [voiceName, indices] of Object.entries(trackAssignments)) {
+      this.getVoice(voiceName);
+      assignments.set(voiceName, indices);
+      indices.forEach((index) => used.add(index));
+    }
+
+    const averagePitch = (track: MIDITrack) =>
+      track.notes.reduce((sum, note) => sum + note.pitch, 0) / track.notes.length;
+    const available = () =>
+      midi.tracks
+        .map((track, index) => ({ track, index }))
+        .filter(({ track, index }) => !used.has(index) && track.notes.length > 0);
+    const take = (voiceName: string, indices: number[]) => {
+      assignments.set(voiceName, indices);
+      indices.forEach((index) => used.add(index));
+    };
+
+    const unassigned = this.config.voices.filter((voice) => !assignments.has(voice.name));
+    const order: VoiceConfig["voiceType"][] = ["rhythm", "melody", "bass", "harmony"];
+
+    for (const voiceType of order) {
+      for (const voice of unassigned.filter((v) => v.voiceType === voiceType)) {
+        const pitched = available().filter(({ track }) => !track.isDrumTrack);
+        let pick: number[] = [];
+
+        if (voiceType === "rhythm") {
+          const drums = available().filter(({ track }) => track.isDrumTrack);
+          const busiest = [...pitched].sort((a, b) => b.track.notes.length - a.track.notes.length);
+          pick = drums.length > 0 ? [drums[0].index] : busiest.slice(0, 1).map((t) => t.index);
+        } else if (voiceType === "melody") {
+          const highest = [...pitched].sort(
+            (a, b) => averagePitch(b.track) - averagePitch(a.track)
+          );
+          pick = highest.slice(0, 1).map((t) => t.index);
+        } else if (voiceType === "bass") {
+          const lowest = [...pitched].sort((a, b) => averagePitch(a.track) - averagePitch(b.track));
+          pick = lowest.slice(0, 1).map((t) => t.index);
+        } else {
+          const chordal = pitched.filter(({ track }) =>
+            this.midiParser.hasChords({ ...midi, tracks: [track] })
+          );
+          pick = (chordal.length > 0 ? chordal : pitched).slice(0, 1).map((t) => t.index);
+        }
+
+        if (pick.length > 0) {
+          take(voice.name, pick);
+        }
+      }
+    }
+
+    return assignments;
+  }
+
+  /**
+   * Infer one chord per bar of the lead voice's time signature
+   */
+  private detectProgression(notes: Note[], leadChain: MusicMarkovChain): HarmonicChord[] {
+    const barBeats = parseTimeSignature(leadChain.getTimeSignature()).barBeats;
+    const barDuration = (60 / this.tempo) * 1000 * barBeats;
+    return this.harmonicAnalyzer.detectChords(notes, barDuration);
+  }
+
+  /**
+   * Move each note to the nearest chord tone of the chord sounding at its start time
+   */
+  private fitNotesToChords(notes: Note[], chords: HarmonicChord[], voice: VoiceConfig): Note[] {
+    return notes.map((note) => {
+      const chord = this.findChordAt(chords, note.startTime);
+      if (!chord) return note;
+
+      const chordPitchClasses = chord.notes.map((name) => NOTE_NAMES.indexOf(name));
+      let bestPitch = note.pitch;
+      let bestDistance = Infinity;
+
+      for (let offset = 0; offset <= 6; offset++) {
+        for (const candidate of [note.pitch - offset, note.pitch + offset]) {
+          if (candidate < voice.voiceRange.min || candidate > voice.voiceRange.max) continue;
+          if (chordPitchClasses.includes(((candidate % 12) + 12) % 12) && offset < bestDistance) {
+            bestPitch = candidate;
+            bestDistance = offset;
+          }
+        }
+        if (bestDistance !== Infinity) break;
+      }
+
+      return { ...note, pitch: bestPitch };
+    });
+  }
+
+  private findChordAt(chords: HarmonicChord[], time: number): HarmonicChord | undefined {
+    return chords.find(
+      (chord) => time >= chord.startTime && time < chord.startTime + chord.duration
+    );
+  }
+
+  /**
+   * Drop notes from the lightest voices until no more than maxPolyphony notes sound at once
+   * Returns the highest number of simultaneous notes that remains
+   */
+  private limitPolyphony(voices: VoiceConfig[], sequences: Map<string, MusicSequence>): number {
+    const accepted: Note[] = [];
+    let maxSimultaneous = 0;
+
+    const byWeight = [...voices].sort((a, b) => b.weight - a.weight);
+    for (const voice of byWeight) {
+      const sequence = sequences.get(voice.name)!;
+
+      sequence.notes = sequence.notes.filter((note) => {
+        const simultaneous = this.countSimultaneousNotes(accepted, note) + 1;
+        if (simultaneous > this.config.maxPolyphony) {
+          return false;
+        }
+        accepted.push(note);
+        maxSimultaneous = Math.max(maxSimultaneous, simultaneous);
+        return true;
+      });
+    }
+
+    return maxSimultaneous;
+  }
+
+  /**
+   * Highest number of already accepted notes sounding at any point during a note
+   */
+  private countSimultaneousNotes(accepted: Note[], note: Note): number {
+    const end = note.startTime + note.duration;
+    const overlapping = accepted.filter(
+      (other) => other.startTime < end && other.startTime + other.duration > note.startTime
+    );
+
+    // Concurrency only changes at note starts, so checking those points is enough
+    const checkpoints = [
+      note.startTime,
+      ...overlapping.map((other) => other.startTime).filter((t) => t > note.startTime),
+    ];
+    return Math.max(
+      0,
+      ...checkpoints.map(
+        (time) =>
+          overlapping.filter(
+            (other) => other.startTime <= time && other.startTime + other.duration > time
+          ).length
+      )
+    );
+  }
+
+  /**
+   * Share of notes that fall outside the chord sounding at their start time
+   */
+  private calculateTension(notes: Note[], chords: HarmonicChord[]): number {
+    if (notes.length === 0 || chords.length === 0) return 0;
+
+    let nonChordTones = 0;
+    let considered = 0;
+
+    for (const note of notes) {
+      const chord = this.findChordAt(chords, note.startTime);
+      if (!chord) continue;
+      considered++;
+      if (!chord.notes.includes(NOTE_NAMES[note.pitch % 12])) {
+        nonChordTones++;
+      }
+    }
+
+    return considered > 0 ? nonChordTones / considered : 0;
+  }
+
+  /**
+   * Summarize the shared rhythm: its tokens, how syncopated the onsets are and a groove label
+   */
+  private describeRhythm(
+    patterns: string[],
+    notes: Note[]
+  ): NonNullable<MultiVoiceSequence["globalRhythm"]> {
+    const beatDuration = (60 / this.tempo) * 1000;
+    const onsets = [...new Set(notes.map((note) => note.startTime))];
+    const offBeat = onsets.filter((time) => {
+      const position = (time % beatDuration) / beatDuration;
+      return position > 0.01 && position < 0.99;
+    });
+    const syncopation = onsets.length > 0 ? offBeat.length / onsets.length : 0;
+
+    let groove = "straight";
+    if (syncopation >= 0.5) groove = "syncopated";
+    else if (syncopation >= 0.2) groove = "mixed";
+
+    return { patterns, groove, syncopation };
+  }
+}
@@ -2,14 +2,74 @@
  * This class extends the base MarkovChain to work specifically with musical elements:
  * - Note sequences (melodies)
  * - Rhythm patterns (groove)
+ * - Dynamics (velocity bands), optionally conditioned on metric position
+ * - Bars and beats of the time signature, optionally conditioning rhythms on beat position
+ * - Melodies over a chord progression, favouring chord tones as learned from melody/harmony pairs
+ *
+ * Rhythm tokens follow the grammar in Rhythm.ts; rest rhythms ("r8") and the rest note token
+ * ("R") advance time without sounding a note
  */
 
-import { MarkovChain } from "../core/MarkovChain";
-import { MarkovConfig, MusicSequence, Note, Chord, PolyphonicSequence } from "../types";
-import { HarmonicAnalyzer, ChordProgression, Chord as HarmonicChord } from "./HarmonicAnalyzer";
+import { MarkovChain, NextTransitions } from "../core/MarkovChain";
+import { MarkovStream } from "../core/MarkovStream";
+import { RandomSource } from "../core/Random";
+import {
+  ChordToneCount,
+  ChordToneMode,
+  MarkovConfig,
+  MusicSequence,
+  Note,
+  NoteRhythmCoupling,
+  Chord,
+  PitchRepresentation,
+  PolyphonicSequence,
+  PositionConstraints,
+  ScaleConstraintMode,
+  SerializedMusicMarkovChain,
+} from "../types";
+import {
+  HarmonicAnalyzer,
+  ChordProgression,
+  Chord as HarmonicChord,
+  KeyRegion,
+} from "./HarmonicAnalyzer";
+import { NOTE_NAMES, noteNameToPitch, parseKey, pitchToNoteName, snapToScale } from "./Scales";
+import { DYNAMIC_BANDS, dynamicToVelocity, velocityToDynamic } from "./Dynamics";
+import {
+  REST_NOTE,
+  getMetricPosition,
+  getMetricPositions,
+  isRest,
+  parseTimeSignature,
+  rhythmToBeats,
+} from "./Rhythm";
+import { MetricRhythmChain } from "./MetricRhythmChain";
+import { ParsedMIDI } from "../input/MIDIParser";
+
+// Share of chord tones assumed before any melody/harmony pairs are learned, and its weight
+// in pseudo-counts once they are
+const CHORD_TONE_PRIOR = 0.75;
+const CHORD_TONE_PRIOR_WEIGHT = 4;
+// Key regions are found in windows of two 4/4 bars at the 120 BPM used for analysis
+const KEY_REGION_WINDOW = 4000;
+// Consecutive rests (or unreadable tokens) after which a note stream gives up
+const MAX_SILENT_TOKENS = 256;
+
+export interface NoteStreamOptions {
+  /** Cancels the stream */
+  signal?: AbortSignal;
+  /** Async iteration waits until each note's start time, measured from the first read */
+  realTime?: boolean;
+}
 
 export class MusicMarkovChain extends MarkovChain {
-  private rhythmChain: MarkovChain;
+  private rhythmChain: MetricRhythmChain;
+  private velocityChain: MarkovChain;
+  private noteRhythmChain: MarkovChain; // Rhythm given the current note (factored coupling)
+  private rhythmCoupling: NoteRhythmCoupling = "independent";
+  private metricVelocity: boolean = false; // Tag velocity tokens with their metric position
+  private metricRhythm: boolean = false; // Tag rhythm tokens with their position in the bar
+  private timeSignature: string = "4/4";
   private harmonicAnalyzer: HarmonicAnalyzer;
 
   // Musical constraints and scales
@@ -18,15 +78,36 @@ export class MusicMarkovChain extends MarkovChain {
   private tempo: number = 120; // BPM
   private minPitch: number = 24; // C2 TODO: Allow this to be set, or use in the input value to help infer it
   private maxPitch: number = 84; // C6 TODO: Allow this to be set, or use in the input value to help infer it
+  private scaleConstraint: ScaleConstraintMode = "off";
+  private scalePenalty: number = 0.1; // Weight multiplier for out-of-scale continuations
+  private pitchRepresentation: PitchRepresentation = "absolute";
+  private startNote: string | null = null; // First note when rendering intervals (tonic by default)
 
   // Harmonic analysis
   private detectedKey: string = "C major";
+  private keyRegions: KeyRegion[] = [];
+  private chordToneCounts: Map<string, ChordToneCount> = new Map(); // Per metric position
+  // Chord sounding at the step being generated over a progression
+  private activeChord: {
+    pitchClasses: number[];
+    rate: number;
+    mode: ChordToneMode;
+    vocabulary: Map<string, number>; // Training token frequencies, for masks with no chord tone
+  } | null = null;
+  private overProgression: boolean = false;
 
   constructor(config: MarkovConfig) {
     super(config);
 
-    // Create rhythm chain for timing
-    this.rhythmChain = new MarkovChain(config);
+    // Create rhythm chain for timing, sharing one random stream so a single seed drives both
+    // Each sub-chain gets its own config, so decoding stays with the note chain (see setDecoding)
+    const subConfig: MarkovConfig = { ...config, decoding: undefined };
+    this.rhythmChain = new MetricRhythmChain({ ...subConfig });
+    this.rhythmChain.setRandomSource(this.random);
+    this.velocityChain = new MarkovChain({ ...subConfig });
+    this.velocityChain.setRandomSource(this.random);
+    this.noteRhythmChain = new MarkovChain({ ...subConfig, order: 1, variableOrder: false });
+    this.noteRhythmChain.setRandomSource(this.random);
 
     // Initialize analyzers
     this.harmonicAnalyzer = new HarmonicAnalyzer();
@@ -34,23 +115,50 @@ export class MusicMarkovChain extends MarkovChain {
 
   /**
    * Train the Markov chain with musical data (unified for notes and chords)
+   * Combined "C4:8" tokens (MIDIParser.extractCombinedSequences) are split into note and rhythm
+   *
+   * @param velocitySequences Optional per-note velocities (MIDI values or pp..ff markings),
+   *   aligned with the rhythm patterns, e.g. from MIDIParser.extractVelocitySequences
+   * @param coupling How rhythms relate to notes: independent chains, one joint chain over
+   *   note:rhythm tokens, or rhythms conditioned on the current note (factored)
    */
-  trainWithMusic(musicSequences: string[][], rhythmPatterns: string[][]): void {
+  trainWithMusic(
+    musicSequences: string[][],
+    rhythmPatterns: string[][],
+    velocitySequences?: string[][],
+    coupling: NoteRhythmCoupling = "independent"
+  ): void {
+    if (!["independent", "joint", "factored"].includes(coupling)) {
+      throw new Error(`Unsupported note/rhythm coupling: ${coupling}`);
+    }
+    this.rhythmCoupling = coupling;
+
+    const { notes, rhythms } = this.splitCombinedTokens(musicSequences, rhythmPatterns);
+
     // Train the main chain with all musical tokens (notes and chords)
-    this.train(musicSequences);
-    this.rhythmChain.train(rhythmPatterns);
+    this.train(this.toChainSequences(notes, rhythms));
+    this.trainRhythms(rhythms);
+    this.trainNoteRhythms(notes, rhythms);
+    this.trainVelocities(rhythms, velocitySequences);
 
     // Analyze harmonic patterns from the training data
-    this.analyzeHarmonicPatterns(musicSequences);
+    this.analyzeHarmonicPatterns(notes, rhythms);
   }
 
   /**
    * Train the Markov chain with polyphonic data (chords)
    */
-  trainWithPolyphonicMusic(chordSequences: string[][], rhythmPatterns: string[][]): void {
+  trainWithPolyphonicMusic(
+    chordSequences: string[][],
+    rhythmPatterns: string[][],
+    velocitySequences?: string[][]
+  ): void {
     // Train the main chain with chord sequences
-    this.train(chordSequences);
-    this.rhythmChain.train(rhythmPatterns);
+    this.rhythmCoupling = "independent";
+    this.train(this.toTrainingTokens(chordSequences));
+    this.trainRhythms(rhythmPatterns);
+    this.noteRhythmChain.reset();
+    this.trainVelocities(rhythmPatterns, velocitySequences);
 
     // Analyze harmonic patterns from chord sequences
     this.analyzeHarmonicPatternsFromChords(chordSequences);
@@ -58,22 +166,380 @@ export class MusicMarkovChain extends MarkovChain {
 
   /**
    * Append musical tokens to the main chain
+   * With joint coupling, pass combined "C4:8" tokens (missing rhythms count as quarter notes)
    */
   appendMelodySequence(melody: string[]): void {
-    this.trainAppend([melody]);
+    const { notes, rhythms } = this.splitCombinedTokens([melody], []);
+    this.trainAppend(this.toChainSequences(notes, rhythms));
   }
 
   /**
    * Generate a complete musical sequence from the trained chains
    */
   generateSequence(sequenceLength: number = 16): MusicSequence {
+    const { musicTokens, rhythm } = this.generateTokensAndRhythm(sequenceLength);
+    const velocities = this.generateVelocities(rhythm);
+
+    // Convert tokens to musical sequence
+    return this.convertTokensToMusicSequence(musicTokens, rhythm, velocities);
+  }
+
+  /**
+   * Generate a sequence lasting exactly the given number of bars of the time signature
+   * A note that would cross the final barline is shortened; a short rhythm is padded with a rest
+   */
+  generateBars(bars: number = 4): MusicSequence {
+    if (!bars || bars <= 0) {
+      throw new Error("Bars must be a positive number");
+    }
+
+    // Start with about one token per beat and double until the bars are filled
+    const totalBeats = bars * this.rhythmChain.getBarBeats();
+    let length = Math.max(2, Math.ceil(totalBeats));
+    let generated = this.generateTokensAndRhythm(length);
+    for (
+      let attempt = 0;
+      attempt < 4 && this.getRhythmBeats(generated.rhythm) < totalBeats;
+      attempt++
+    ) {
+      length *= 2;
+      generated = this.generateTokensAndRhythm(length);
+    }
+
+    const rhythm = this.rhythmChain.fitToBars(generated.rhythm, bars);
+    const musicTokens = rhythm.map((_, index) => generated.musicTokens[index] ?? REST_NOTE);
+    return this.convertTokensToMusicSequence(musicTokens, rhythm, this.generateVelocities(rhythm));
+  }
+
+  /**
+   * Generate timed notes endlessly (see MarkovStream)
+   * Key, temperature, tempo and scale constraint changes take effect on the next token.
+   * Injected tokens use the chain's own format (e.g. "C4", "+2" for intervals, "C4:8" for
+   * joint coupling). Streamed dynamics do not follow metric positions.
+   */
+  streamNotes(options: NoteStreamOptions = {}): MarkovStream<Note> {
+    const tokens = this.stream();
+    const rhythms =
+      this.rhythmCoupling !== "independent"
+        ? null
+        : this.metricRhythm
+          ? this.rhythmChain.streamRhythm()
+          : this.rhythmChain.stream();
+    const velocities =
+      this.velocityChain.getStats().totalStates > 0 ? this.velocityChain.stream() : null;
+    const pending: Note[] = [];
+    let intervalPitch: number | null = null;
+    let currentTime = 0;
+    let lastPitch: number | null = null;
+
+    const step = (injected: string[]): Note | null => {
+      for (let silent = 0; pending.length === 0 && silent < MAX_SILENT_TOKENS; silent++) {
+        tokens.inject(...injected.splice(0, 1));
+        const next = tokens.next();
+        if (next.done) return null;
+
+        let token = next.value;
+        let rhythm: string;
+        if (this.rhythmCoupling === "joint") {
+          const separator = token.lastIndexOf(":");
+          rhythm = separator === -1 ? "4" : token.slice(separator + 1);
+          token = separator === -1 ? token : token.slice(0, separator);
+        } else if (this.rhythmCoupling === "factored") {
+          rhythm = this.noteRhythmChain.generate(1, [token])[0] ?? "4";
+        } else {
+          rhythm = rhythms?.next().value ?? "4";
+        }
+
+        let rendered: string[];
+        if (this.pitchRepresentation === "interval") {
+          // The start note comes first, with the first token's rhythm
+          rendered = [];
+          if (intervalPitch === null) {
+            intervalPitch = this.getIntervalStartPitch();
+            rendered.push(pitchToNoteName(intervalPitch));
+          }
+          const interval = this.renderIntervalToken(token, intervalPitch);
+          if (interval) {
+            intervalPitch = interval.pitch;
+            rendered.push(interval.rendered);
+          }
+        } else {
+          rendered = this.renderRelativeTokens([token]);
+        }
+
+        for (const renderedToken of rendered) {
+          const dynamic = velocities?.next().value;
+          const velocity = dynamic
+            ? dynamicToVelocity(dynamic.slice(dynamic.indexOf("@") + 1))
+            : null;
+          const notes = this.renderTokenNotes(
+            renderedToken,
+            rhythm,
+            velocity,
+            currentTime,
+            lastPitch
+          );
+          pending.push(...notes.notes);
+          currentTime += notes.duration;
+          lastPitch = notes.lastPitch;
+        }
+      }
+      return pending.shift() ?? null;
+    };
+
+    return new MarkovStream<Note>(
+      step,
+      options.signal,
+      options.realTime ? (note) => note.startTime : undefined
+    );
+  }
+
+  /**
+   * Generate rendered music tokens and their rhythm for the current coupling
+   * The tokens are note names whatever the pitch representation, ready for
+   * convertTokensToMusicSequence
+   */
+  generateTokensAndRhythm(sequenceLength: number): {
+    musicTokens: string[];
+    rhythm: string[];
+  } {
     // Generate musical tokens (notes and chords) from the main chain
     // Use repetition prevention to avoid getting stuck in loops
-    const musicTokens = this.generateWithRepetitionPrevention(sequenceLength, undefined, 2);
-    const rhythm = this.generateRhythm(sequenceLength);
+    const generated = this.generateWithRepetitionPrevention(
+      this.getTokenCount(sequenceLength),
+      undefined,
+      2
+    );
 
-    // Convert tokens to musical sequence
-    return this.convertTokensToMusicSequence(musicTokens, rhythm);
+    let musicTokens: string[];
+    let rhythm: string[];
+    if (this.rhythmCoupling === "joint") {
+      const split = this.splitCombinedTokens([generated], []);
+      musicTokens = this.renderRelativeTokens(split.notes[0]);
+      rhythm = split.rhythms[0];
+    } else {
+      musicTokens = this.renderRelativeTokens(generated);
+      rhythm =
+        this.rhythmCoupling === "factored"
+          ? this.generateRhythmForNotes(generated)
+          : this.generateRhythm(sequenceLength);
+    }
+
+    // Interval streams render one extra note (the start note), which takes the first rhythm
+    if (rhythm.length > 0 && rhythm.length < musicTokens.length) {
+      rhythm = [rhythm[0], ...rhythm];
+    }
+    return { musicTokens, rhythm };
+  }
+
+  /**
+   * Learn how often melody notes are chord tones of the harmony sounding at their onset, per
+   * metric position (downbeats usually land on chord tones more often than off-beats)
+   * Onsets without at least two harmony pitch classes sounding are not counted
+   *
+   * @param melodies Melody notes of each piece
+   * @param harmonies Accompaniment notes of the same pieces
+   * @param tempo Tempo of the pieces in BPM, used to find the metric position of each onset
+   */
+  learnChordTones(melodies: Note[][], harmonies: Note[][], tempo: number = this.tempo): void {
+    if (melodies.length !== harmonies.length) {
+      throw new Error("Each melody needs the harmony it was played with");
+    }
+
+    const meter = parseTimeSignature(this.timeSignature);
+    const msPerBeat = 60000 / tempo;
+    this.chordToneCounts.clear();
+
+    melodies.forEach((melody, index) => {
+      for (const note of melody) {
+        const sounding = harmonies[index].filter(
+          (harmonyNote) =>
+            harmonyNote.startTime <= note.startTime &&
+            harmonyNote.startTime + harmonyNote.duration > note.startTime
+        );
+        const chord = this.harmonicAnalyzer.identifyChord(sounding);
+        if (!chord || new Set(sounding.map((harmonyNote) => harmonyNote.pitch % 12)).size < 2) {
+          continue;
+        }
+
+        const position = getMetricPosition(note.startTime / msPerBeat, meter);
+        const count = this.chordToneCounts.get(position) ?? { chordTones: 0, total: 0 };
+        count.total++;
+        if (chord.notes.includes(NOTE_NAMES[note.pitch % 12])) count.chordTones++;
+        this.chordToneCounts.set(position, count);
+      }
+    });
+  }
+
+  /**
+   * Learn chord tones from a MIDI file: one track is the melody, the other pitched tracks
+   * are its harmony
+   */
+  learnChordTonesFromMIDI(midi: ParsedMIDI, melodyTrack: number = 0): void {
+    const melody = midi.tracks[melodyTrack];
+    if (!melody) {
+      throw new Error(`MIDI track ${melodyTrack} does not exist`);
+    }
+
+    const harmony = midi.tracks
+      .filter((track, index) => index !== melodyTrack && !track.isDrumTrack)
+      .flatMap((track) => track.notes);
+    this.learnChordTones([melody.notes], [harmony], midi.tempo);
+  }
+
+  /**
+   * Share of melody notes that are chord tones, at a metric position (D, B, O, W) or overall,
+   * smoothed towards a prior of 0.75
+   */
+  getChordToneRate(position?: string): number {
+    const counts = position
+      ? [this.chordToneCounts.get(position)]
+      : [...this.chordToneCounts.values()];
+    const chordTones = counts.reduce((sum, count) => sum + (count?.chordTones ?? 0), 0);
+    const total = counts.reduce((sum, count) => sum + (count?.total ?? 0), 0);
+
+    return (
+      (chordTones + CHORD_TONE_PRIOR * CHORD_TONE_PRIOR_WEIGHT) / (total + CHORD_TONE_PRIOR_WEIGHT)
+    );
+  }
+
+  /**
+   * Generate a melody over a chord progression, e.g. Am-F-C-G
+   * At each onset the continuations are weighted by whether they are tones of the chord
+   * sounding there; the melody lasts exactly as long as the progression
+   *
+   * @param progression Chords from HarmonicAnalyzer, placed by their start times and durations,
+   *   or Roman numerals in the current key
+   * @param mode "bias" to favour chord tones by the learned rate, "mask" to allow only chord tones
+   * @param beatsPerChord Length of each Roman numeral in beats (one bar by default)
+   */
+  generateOverProgression(
+    progression: HarmonicChord[] | string[],
+    mode: ChordToneMode = "bias",
+    beatsPerChord: number = this.rhythmChain.getBarBeats()
+  ): MusicSequence {
+    if (!["bias", "mask"].includes(mode)) {
+      throw new Error(`Unsupported chord tone mode: ${mode}`);
+    }
+    if (this.pitchRepresentation === "interval") {
+      throw new Error("Generating over a chord progression needs absolute or degree pitches");
+    }
+
+    const timeline = this.toChordTimeline(progression, beatsPerChord);
+    if (timeline.length === 0) {
+      throw new Error("Chord progression must not be empty");
+    }
+    const totalBeats = timeline[timeline.length - 1].end;
+    const meter = parseTimeSignature(this.timeSignature);
+
+    // Independent rhythms are generated up front; the other couplings pick one per note
+    const plannedRhythm =
+      this.rhythmCoupling === "independent" ? this.generateRhythmForBeats(totalBeats) : [];
+    const maxSteps = plannedRhythm.length || Math.ceil(totalBeats * 16);
+
+    const tokens: string[] = [];
+    const rhythm: string[] = [];
+    let context = this.getRandomStartContext();
+    let beat = 0;
+
+    const vocabulary = new Map<string, number>();
+    for (const token of this.trainingData.flat()) {
+      vocabulary.set(token, (vocabulary.get(token) ?? 0) + 1);
+    }
+
+    this.overProgression = true;
+    try {
+      while (beat < totalBeats && tokens.length < maxSteps) {
+        const chord = timeline.find((entry) => beat >= entry.start && beat < entry.end);
+        this.activeChord = chord
+          ? {
+              pitchClasses: chord.pitchClasses,
+              rate: this.getChordToneRate(getMetricPosition(beat, meter)),
+              mode,
+              vocabulary,
+            }
+          : null;
+
+        const token = this.generate(1, context)[0];
+        if (token === undefined) break;
+
+        let tokenRhythm: string;
+        if (this.rhythmCoupling === "joint") {
+          tokenRhythm = this.splitCombinedTokens([[token]], []).rhythms[0][0];
+        } else if (this.rhythmCoupling === "factored") {
+          tokenRhythm = this.generateRhythmForNotes([token])[0];
+        } else {
+          tokenRhythm = plannedRhythm[tokens.length];
+        }
+
+        tokens.push(token);
+        rhythm.push(tokenRhythm);
+        context = [...context, token].slice(-this.config.order);
+        beat += rhythmToBeats(tokenRhythm);
+      }
+
+      const fitted = this.rhythmChain.fitToBars(rhythm, totalBeats / meter.barBeats);
+      const rendered = this.renderRelativeTokens(
+        this.rhythmCoupling === "joint" ? this.splitCombinedTokens([tokens], []).notes[0] : tokens
+      );
+      const musicTokens = fitted.map((_, index) => rendered[index] ?? REST_NOTE);
+      this.activeChord = null;
+      return this.convertTokensToMusicSequence(
+        musicTokens,
+        fitted,
+        this.generateVelocities(fitted)
+      );
+    } finally {
+      this.activeChord = null;
+      this.overProgression = false;
+    }
+  }
+
+  /**
+   * Lay a progression out in beats with the pitch classes of each chord
+   */
+  private toChordTimeline(
+    progression: HarmonicChord[] | string[],
+    beatsPerChord: number
+  ): Array<{ start: number; end: number; pitchClasses: number[] }> {
+    if (!(beatsPerChord > 0)) {
+      throw new Error("Beats per chord must be a positive number");
+    }
+
+    const msPerBeat = 60000 / this.tempo;
+    return progression
+      .map((chord, index) => {
+        if (typeof chord === "string") {
+          return {
+            start: index * beatsPerChord,
+            end: (index + 1) * beatsPerChord,
+            pitchClasses: this.harmonicAnalyzer.parseRomanNumeral(chord, this.musicalKey)
+              .pitchClasses,
+          };
+        }
+        return {
+          start: chord.startTime / msPerBeat,
+          end: (chord.startTime + chord.duration) / msPerBeat,
+          pitchClasses: chord.notes
+            .map((name) => noteNameToPitch(`${name.replace(/-?\d+$/, "")}4`))
+            .filter((pitch): pitch is number => pitch !== null)
+            .map((pitch) => pitch % 12),
+        };
+      })
+      .sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Generate independent rhythm tokens lasting at least the given number of beats
+   */
+  private generateRhythmForBeats(totalBeats: number): string[] {
+    let length = Math.max(2, Math.ceil(totalBeats));
+    let rhythm = this.generateRhythm(length);
+    for (let attempt = 0; attempt < 4 && this.getRhythmBeats(rhythm) < totalBeats; attempt++) {
+      length *= 2;
+      rhythm = this.generateRhythm(length);
+    }
+    return rhythm;
   }
 
   /**
@@ -81,11 +547,11 @@ export class MusicMarkovChain extends MarkovChain {
    */
   generatePolyphonicSequence(sequenceLength: number = 16): PolyphonicSequence {
     // Generate chord sequence from main chain
-    const chordIds = this.generate(sequenceLength);
+    const chordIds = this.renderRelativeTokens(this.generate(this.getTokenCount(sequenceLength)));
     const rhythm = this.generateRhythm(sequenceLength);
 
     // Convert chord IDs to actual chords
-    const chords = this.convertChordIdsToChords(chordIds, rhythm);
+    const chords = this.convertChordIdsToChords(chordIds, rhythm, this.generateVelocities(rhythm));
 
     return {
       chords,
@@ -94,172 +560,547 @@ export class MusicMarkovChain extends MarkovChain {
           ? chords[chords.length - 1].startTime + chords[chords.length - 1].duration
           : 0,
       key: this.musicalKey,
-      timeSignature: "4/4",
+      timeSignature: this.timeSignature,
     };
   }
 
   /**
    * Convert musical tokens to a MusicSequence
+   *
+   * @param velocities Optional dynamic markings per token (see generateVelocities)
    */
-  public convertTokensToMusicSequence(tokens: string[], rhythm: string[]): MusicSequence {
+  public convertTokensToMusicSequence(
+    tokens: string[],
+    rhythm: string[],
+    velocities: string[] = []
+  ): MusicSequence {
     const notes: Note[] = [];
     let currentTime = 0;
     let lastPitch: number | null = null;
 
     for (let i = 0; i < tokens.length; i++) {
-      const token = tokens[i];
       const rhythmStr = rhythm[i] || rhythm[0]; // Fallback to first rhythm
+      const learnedVelocity = velocities[i] ? dynamicToVelocity(velocities[i]) : null;
+      const rendered = this.renderTokenNotes(
+        tokens[i],
+        rhythmStr,
+        learnedVelocity,
+        currentTime,
+        lastPitch
+      );
+
+      notes.push(...rendered.notes);
+      currentTime += rendered.duration;
+      lastPitch = rendered.lastPitch;
+    }
 
-      // Check if token is a chord (contains +)
-      if (token.includes("+")) {
-        // Parse chord
-        const chordNotes = this.parseChordId(token);
-        if (chordNotes.length > 0) {
-          const duration = this.parseRhythm(rhythmStr);
-
-          // Add all notes in the chord at the same time
-          for (const note of chordNotes) {
-            const clampedPitch = this.constrainPitch(note.pitch, lastPitch);
-            notes.push({
-              pitch: clampedPitch,
-              velocity: note.velocity,
-              duration: duration,
-              startTime: currentTime,
-              // Add chord identifier for display purposes
-              chordId: token,
-            });
-          }
+    return {
+      notes,
+      duration: currentTime,
+      key: this.musicalKey,
+      timeSignature: this.timeSignature,
+    };
+  }
 
-          currentTime += duration;
-          lastPitch = chordNotes[0].pitch; // Use first note as reference
-        }
-      } else {
-        // Parse single note
-        const note = this.parseNote(token);
-        if (note) {
-          const duration = this.parseRhythm(rhythmStr);
-          const velocity = this.calculateVelocity(token, rhythmStr);
-          const clampedPitch = this.constrainPitch(note.pitch, lastPitch);
+  /**
+   * Render one note or chord token starting at the given time
+   * Rests (and unreadable tokens) produce no notes; rests still take up their duration
+   */
+  private renderTokenNotes(
+    token: string,
+    rhythmStr: string,
+    learnedVelocity: number | null,
+    startTime: number,
+    lastPitch: number | null
+  ): { notes: Note[]; duration: number; lastPitch: number | null } {
+    if (token === REST_NOTE || isRest(rhythmStr)) {
+      return { notes: [], duration: this.parseRhythm(rhythmStr), lastPitch };
+    }
 
-          notes.push({
-            pitch: clampedPitch,
-            velocity: velocity,
-            duration: duration,
-            startTime: currentTime,
-          });
+    // Check if token is a chord (contains +)
+    if (token.includes("+")) {
+      const chordNotes = this.parseChordId(token);
+      if (chordNotes.length === 0) return { notes: [], duration: 0, lastPitch };
+
+      const duration = this.parseRhythm(rhythmStr);
+      // Add all notes in the chord at the same time
+      const notes = chordNotes.map((note) => ({
+        pitch: this.applyScale(this.constrainPitch(note.pitch, lastPitch)),
+        velocity: learnedVelocity ?? note.velocity,
+        duration: duration,
+        startTime,
+        // Add chord identifier for display purposes
+        chordId: token,
+      }));
+      // Use first note as reference
+      return { notes, duration, lastPitch: chordNotes[0].pitch };
+    }
 
-          currentTime += duration;
-          lastPitch = clampedPitch;
-        }
+    const pitch = noteNameToPitch(token);
+    if (pitch === null) return { notes: [], duration: 0, lastPitch };
+
+    const duration = this.parseRhythm(rhythmStr);
+    const velocity = learnedVelocity ?? this.calculateVelocity(token, rhythmStr);
+    const clampedPitch = this.applyScale(this.constrainPitch(pitch, lastPitch));
+    return {
+      notes: [{ pitch: clampedPitch, velocity, duration, startTime }],
+      duration,
+      lastPitch: clampedPitch,
+    };
+  }
+
+  /**
+   * Choose how pitches are represented while training; takes effect on the next training call
+   * Relative representations make a melody learned in C and the same melody in D identical
+   */
+  setPitchRepresentation(representation: PitchRepresentation): void {
+    if (!["absolute", "interval", "degree"].includes(representation)) {
+      throw new Error(`Unsupported pitch representation: ${representation}`);
+    }
+    this.pitchRepresentation = representation;
+  }
+
+  getPitchRepresentation(): PitchRepresentation {
+    return this.pitchRepresentation;
+  }
+
+  /**
+   * Set the first note used when rendering interval streams (e.g. "D4")
+   * Pass null to start on the tonic of the current key
+   */
+  setStartNote(note: string | null): void {
+    if (note !== null && noteNameToPitch(note) === null) {
+      throw new Error(`Invalid start note: ${note}`);
+    }
+    this.startNote = note;
+  }
+
+  /**
+   * Render relative tokens back to note names, starting from the start note (intervals)
+   * or in the current key (scale degrees). Absolute tokens are returned unchanged.
+   * Interval streams gain the start note in front, so n intervals render to n + 1 notes.
+   */
+  renderRelativeTokens(tokens: string[]): string[] {
+    if (this.pitchRepresentation === "interval") {
+      return this.renderIntervalTokens(tokens);
+    }
+    if (this.pitchRepresentation === "degree") {
+      return tokens.map((token) => {
+        if (token === REST_NOTE) return token;
+        return token
+          .split("+")
+          .map((degree) => this.renderDegree(degree))
+          .filter((pitch): pitch is number => pitch !== null)
+          .map((pitch) => pitchToNoteName(pitch))
+          .join("+");
+      });
+    }
+    return tokens;
+  }
+
+  /**
+   * Split combined "note:rhythm" tokens; rhythms from the tokens take precedence over
+   * rhythmPatterns, and sequences without either default to quarter notes
+   */
+  private splitCombinedTokens(
+    musicSequences: string[][],
+    rhythmPatterns: string[][]
+  ): { notes: string[][]; rhythms: string[][] } {
+    const notes: string[][] = [];
+    const rhythms: string[][] = [];
+
+    musicSequences.forEach((sequence, index) => {
+      if (!sequence.some((token) => token.includes(":"))) {
+        notes.push(sequence);
+        rhythms.push(rhythmPatterns[index] ?? sequence.map(() => "4"));
+        return;
+      }
+
+      notes.push([]);
+      rhythms.push([]);
+      for (const token of sequence) {
+        const separator = token.lastIndexOf(":");
+        notes[index].push(separator === -1 ? token : token.slice(0, separator));
+        rhythms[index].push(separator === -1 ? "4" : token.slice(separator + 1));
+      }
+    });
+
+    return { notes, rhythms };
+  }
+
+  /**
+   * Build the main chain's training sequences: notes in the configured pitch representation,
+   * paired with their rhythms as "note:rhythm" tokens under joint coupling
+   */
+  private toChainSequences(notes: string[][], rhythms: string[][]): string[][] {
+    const converted = this.toTrainingTokens(notes);
+    if (this.rhythmCoupling !== "joint") return converted;
+
+    return converted.map((sequence, index) => {
+      const aligned = this.alignRhythms(sequence, rhythms[index] ?? []);
+      return sequence.map((token, step) => `${token}:${aligned[step] ?? "4"}`);
+    });
+  }
+
+  /**
+   * Train the rhythm-given-note chain used by the factored coupling
+   */
+  private trainNoteRhythms(notes: string[][], rhythms: string[][]): void {
+    if (this.rhythmCoupling !== "factored") {
+      this.noteRhythmChain.reset();
+      return;
+    }
+
+    // Each note/rhythm pair is its own two-step sequence, so every state is a note
+    // and every transition leads to a rhythm
+    const pairs = this.toTrainingTokens(notes).flatMap((sequence, index) => {
+      const aligned = this.alignRhythms(sequence, rhythms[index] ?? []);
+      return sequence.map((token, step) => [token, aligned[step] ?? "4"]);
+    });
+    this.noteRhythmChain.train(pairs);
+  }
+
+  /**
+   * Pick a rhythm for each generated note from the rhythm-given-note chain
+   */
+  private generateRhythmForNotes(tokens: string[]): string[] {
+    return tokens.map((token) => this.noteRhythmChain.generate(1, [token])[0] ?? "4");
+  }
+
+  /**
+   * Line rhythms up with training tokens; interval streams drop the first note, so they
+   * take the last rhythms
+   */
+  private alignRhythms(tokens: string[], rhythms: string[]): string[] {
+    return rhythms.slice(Math.max(0, rhythms.length - tokens.length));
+  }
+
+  /**
+   * Number of tokens to generate for a sequence of the given length
+   */
+  private getTokenCount(sequenceLength: number): number {
+    // The start note supplies the first pitch of an interval stream
+    return this.pitchRepresentation === "interval" ? sequenceLength - 1 : sequenceLength;
+  }
+
+  /**
+   * Convert absolute training sequences to the configured pitch representation
+   */
+  private toTrainingTokens(sequences: string[][]): string[][] {
+    switch (this.pitchRepresentation) {
+      case "interval":
+        return sequences.map((sequence) => this.toIntervalTokens(sequence));
+      case "degree":
+        return sequences.map((sequence) => this.toDegreeTokens(sequence));
+      default:
+        return sequences;
+    }
+  }
+
+  /**
+   * Encode each note or chord as the semitone step of its lowest pitch from the previous one
+   * Chords keep their shape as intervals above the lowest pitch, e.g. "+5(4,7)"
+   */
+  private toIntervalTokens(sequence: string[]): string[] {
+    const tokens: string[] = [];
+    let previousPitch: number | null = null;
+
+    for (const token of sequence) {
+      // Rests keep their place and leave the reference pitch unchanged
+      if (token === REST_NOTE && previousPitch !== null) {
+        tokens.push(REST_NOTE);
+        continue;
       }
+
+      const pitches = this.getTokenPitches(token).sort((a, b) => a - b);
+      if (pitches.length === 0) continue;
+
+      const bottom = pitches[0];
+      if (previousPitch !== null) {
+        const step = bottom - previousPitch;
+        const shape = pitches.slice(1).map((pitch) => pitch - bottom);
+        tokens.push(
+          `${step > 0 ? "+" : ""}${step}${shape.length > 0 ? `(${shape.join(",")})` : ""}`
+        );
+      }
+      previousPitch = bottom;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Encode each pitch as a scale degree of the sequence's detected key plus the octave of the
+   * tonic below it, e.g. F#4 in D major is "3/4" and F4 is "b3/4". Chords join degrees with "+"
+   */
+  private toDegreeTokens(sequence: string[]): string[] {
+    const notes = sequence.flatMap((token, index) =>
+      this.getTokenPitches(token).map((pitch) => ({
+        pitch,
+        startTime: index * 500,
+        duration: 500,
+        velocity: 80,
+      }))
+    );
+    if (notes.length === 0) return [];
+
+    const { tonic, pitchClasses } = parseKey(this.harmonicAnalyzer.detectKey(notes));
+    const offsets = pitchClasses.map((pitchClass) => (pitchClass - tonic + 12) % 12);
+
+    return sequence
+      .map((token) => {
+        if (token === REST_NOTE) return token;
+        return this.getTokenPitches(token)
+          .map((pitch) => {
+            const offset = (pitch - tonic + 120) % 12;
+            const octave = Math.floor((pitch - tonic) / 12) - 1;
+
+            let degree: string;
+            if (offsets.includes(offset)) {
+              degree = `${offsets.indexOf(offset) + 1}`;
+            } else if (offsets.includes(offset + 1)) {
+              degree = `b${offsets.indexOf(offset + 1) + 1}`;
+            } else {
+              degree = `#${offsets.indexOf(offset - 1) + 1}`;
+            }
+            return `${degree}/${octave}`;
+          })
+          .join("+");
+      })
+      .filter((token) => token.length > 0);
+  }
+
+  /**
+   * Render interval tokens from the start note, folding octaves to stay within the pitch range
+   */
+  private renderIntervalTokens(tokens: string[]): string[] {
+    let pitch = this.getIntervalStartPitch();
+    const rendered = [pitchToNoteName(pitch)];
+
+    for (const token of tokens) {
+      const interval = this.renderIntervalToken(token, pitch);
+      if (!interval) continue;
+      pitch = interval.pitch;
+      rendered.push(interval.rendered);
+    }
+
+    return rendered;
+  }
+
+  /**
+   * First pitch of a rendered interval stream: the start note, or the tonic above middle C
+   */
+  private getIntervalStartPitch(): number {
+    const start = this.startNote ? noteNameToPitch(this.startNote) : null;
+    return start ?? 60 + this.scale[0];
+  }
+
+  /**
+   * Render one interval token from the previous pitch; null for unreadable tokens
+   */
+  private renderIntervalToken(
+    token: string,
+    previousPitch: number
+  ): { pitch: number; rendered: string } | null {
+    if (token === REST_NOTE) {
+      return { pitch: previousPitch, rendered: REST_NOTE };
     }
 
+    const match = token.match(/^([+-]?\d+)(?:\((\d+(?:,\d+)*)\))?$/);
+    if (!match) {
+      console.warn(`Invalid interval token: ${token}`);
+      return null;
+    }
+
+    let pitch = previousPitch + parseInt(match[1], 10);
+    while (pitch > this.maxPitch && pitch - 12 >= this.minPitch) pitch -= 12;
+    while (pitch < this.minPitch && pitch + 12 <= this.maxPitch) pitch += 12;
+
+    const shape = match[2] ? match[2].split(",").map((offset) => parseInt(offset, 10)) : [];
     return {
-      notes,
-      duration: currentTime,
-      key: this.musicalKey,
-      timeSignature: "4/4",
+      pitch,
+      rendered: [pitch, ...shape.map((offset) => pitch + offset)]
+        .map((chordPitch) => pitchToNoteName(chordPitch))
+        .join("+"),
     };
   }
 
+  /**
+   * Render a degree token such as "b3/4" in the current key
+   */
+  private renderDegree(token: string): number | null {
+    const match = token.match(/^([b#]?)([1-7])\/(-?\d+)$/);
+    if (!match || this.scale.length < parseInt(match[2], 10)) {
+      console.warn(`Invalid scale degree token: ${token}`);
+      return null;
+    }
+
+    const tonic = this.scale[0];
+    const alteration = match[1] === "b" ? -1 : match[1] === "#" ? 1 : 0;
+    const offset = ((this.scale[parseInt(match[2], 10) - 1] - tonic + 12) % 12) + alteration;
+    return (parseInt(match[3], 10) + 1) * 12 + tonic + offset;
+  }
+
+  /**
+   * Get the MIDI pitches of a note or chord token
+   */
+  private getTokenPitches(token: string): number[] {
+    // Joint tokens carry their rhythm after the last ":"
+    const separator = token.lastIndexOf(":");
+    if (separator !== -1) token = token.slice(0, separator);
+
+    if (token.includes("+")) {
+      return this.parseChordId(token).map((note) => note.pitch);
+    }
+    const pitch = noteNameToPitch(token);
+    return pitch === null ? [] : [pitch];
+  }
+
   /**
    * Generate a rhythm pattern using the rhythm Markov chain
    */
   private generateRhythm(length: number): string[] {
     // Generate a sequence with the exact length requested
-    return this.rhythmChain.generate(length);
+    return this.metricRhythm
+      ? this.rhythmChain.generateRhythm(length)
+      : this.rhythmChain.generate(length);
   }
 
   /**
-   * Parse a note string into a Note object
+   * Train the rhythm chain, tagged with bar positions when metric rhythm is enabled
    */
-  private parseNote(noteStr: string): { pitch: number; octave: number } | null {
-    // Support sharps and flats (e.g., C4, F#4, Bb3)
-    const match = noteStr.match(/^([A-G](?:#|b)?)(\d+)$/);
-    if (!match) return null;
+  private trainRhythms(rhythmPatterns: string[][]): void {
+    if (this.metricRhythm) {
+      this.rhythmChain.trainWithRhythms(rhythmPatterns);
+    } else {
+      this.rhythmChain.train(rhythmPatterns);
+    }
+  }
 
-    let name = match[1];
-    const octave = parseInt(match[2], 10);
+  private getRhythmBeats(rhythm: string[]): number {
+    return rhythm.reduce((beats, rhythmStr) => beats + rhythmToBeats(rhythmStr), 0);
+  }
 
-    // Normalize flats to enharmonic sharps
-    const flatToSharp: Record<string, string> = {
-      Ab: "G#",
-      Bb: "A#",
-      Cb: "B",
-      Db: "C#",
-      Eb: "D#",
-      Fb: "E",
-      Gb: "F#",
-    };
-    if (name.endsWith("b") && flatToSharp[name]) {
-      name = flatToSharp[name];
-    }
+  /**
+   * Set the time signature used for bars, metric positions and generated sequences,
+   * e.g. "3/4", "6/8" or "7/8" (see MIDIParser's ParsedMIDI.timeSignature)
+   */
+  setTimeSignature(timeSignature: string): void {
+    this.rhythmChain.setTimeSignature(timeSignature);
+    this.timeSignature = timeSignature;
+  }
 
-    const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
-    const index = noteNames.indexOf(name);
-    if (index === -1) return null;
+  getTimeSignature(): string {
+    return this.timeSignature;
+  }
 
-    const pitch = index + (octave + 1) * 12;
-    return { pitch, octave };
+  /**
+   * Condition rhythm choices on the position in the bar where each note starts
+   * Takes effect on the next training call; training rhythms should start on a downbeat
+   */
+  setMetricRhythm(enabled: boolean): void {
+    this.metricRhythm = enabled;
   }
 
   /**
    * Parse rhythm string into duration in milliseconds
-   * Supports both number format (4, 8, 16) and legacy word format
+   * Supports the full rhythm token grammar; unknown tokens last a quarter note
    */
   private parseRhythm(rhythmStr: string): number {
-    // Simple rhythm parsing (can be extended for more complex notation)
     const beatDuration = (60 / this.tempo) * 1000; // Convert BPM to milliseconds
-
-    // Parse number format
-    if (/^\d+$/.test(rhythmStr)) {
-      const rhythmNumber = parseInt(rhythmStr, 10);
-      switch (rhythmNumber) {
-        case 1:
-          return beatDuration * 4; // whole note
-        case 2:
-          return beatDuration * 2; // half note
-        case 4:
-          return beatDuration; // quarter note
-        case 8:
-          return beatDuration / 2; // eighth note
-        case 16:
-          return beatDuration / 4; // sixteenth note
-        case 32:
-          return beatDuration / 8; // thirty-second note
-        default:
-          return beatDuration; // Default to quarter note
-      }
-    }
-
-    return beatDuration;
+    return rhythmToBeats(rhythmStr) * beatDuration;
   }
 
   /**
-   * Calculate note velocity based on note and rhythm
+   * Fallback note velocity from the rhythm, used when no velocity chain is trained
+   * Long notes are played softer and short notes brighter
    */
-  // TODO: Make this more complex or implement markov chain for velocity
   private calculateVelocity(noteStr: string, rhythmStr: string): number {
+    const beats = rhythmToBeats(rhythmStr);
     let velocity = 80;
-    switch (rhythmStr) {
-      case "whole":
-        velocity -= 20;
-        break;
-      case "half":
-        velocity -= 10;
-        break;
-      case "eighth":
-        velocity += 10;
-        break;
-      case "sixteenth":
-        velocity += 15;
-        break;
-      default:
-        break;
+    if (beats >= 4) {
+      velocity -= 20; // whole notes and longer
+    } else if (beats >= 2) {
+      velocity -= 10; // half notes
+    } else if (beats < 1 && beats > 0.25) {
+      velocity += 10; // eighth notes
+    } else if (beats <= 0.25) {
+      velocity += 15; // sixteenth notes and shorter
     }
     return Math.max(1, Math.min(127, velocity));
   }
 
+  /**
+   * Condition learned dynamics on metric position (downbeat, beat, off-beat, weak subdivision)
+   * Takes effect on the next training call
+   */
+  setMetricVelocity(enabled: boolean): void {
+    this.metricVelocity = enabled;
+  }
+
+  /**
+   * Generate a dynamic marking (pp..ff) for each rhythm token from the velocity chain
+   * Returns an empty array when no velocities were trained
+   */
+  generateVelocities(rhythm: string[]): string[] {
+    if (rhythm.length === 0 || this.velocityChain.getStats().totalStates === 0) {
+      return [];
+    }
+
+    if (!this.metricVelocity) {
+      return this.velocityChain.generate(rhythm.length);
+    }
+
+    // Only allow markings learned for each note's metric position
+    const constraints: PositionConstraints = {};
+    this.getMetricPositions(rhythm).forEach((position, index) => {
+      constraints[index] = DYNAMIC_BANDS.map((band) => `${position}@${band.name}`);
+    });
+
+    try {
+      return this.velocityChain
+        .generateConstrained(rhythm.length, constraints)
+        .map((token) => token.slice(token.indexOf("@") + 1));
+    } catch (error) {
+      console.warn("Velocity chain cannot follow this rhythm, ignoring metric position:", error);
+      return this.velocityChain
+        .generate(rhythm.length)
+        .map((token) => token.slice(token.indexOf("@") + 1));
+    }
+  }
+
+  /**
+   * Train the velocity chain; without velocities it is cleared so stale dynamics are not reused
+   */
+  private trainVelocities(rhythmPatterns: string[][], velocitySequences?: string[][]): void {
+    if (!velocitySequences || velocitySequences.length === 0) {
+      this.velocityChain.reset();
+      return;
+    }
+
+    const tokens = velocitySequences.map((sequence, index) => {
+      const dynamics = sequence.map((velocity) =>
+        /^\d+$/.test(velocity) ? velocityToDynamic(parseInt(velocity, 10)) : velocity
+      );
+      if (!this.metricVelocity) return dynamics;
+
+      // Unknown rhythms count as quarter notes
+      const rhythm = dynamics.map((_, step) => rhythmPatterns[index]?.[step] ?? "4");
+      const positions = this.getMetricPositions(rhythm);
+      return dynamics.map((dynamic, step) => `${positions[step]}@${dynamic}`);
+    });
+
+    this.velocityChain.train(tokens);
+  }
+
+  /**
+   * Classify where each note of a rhythm starts in a bar of the time signature:
+   * D = downbeat, B = other beats, O = off-beats, W = weaker subdivisions
+   */
+  private getMetricPositions(rhythm: string[]): string[] {
+    return getMetricPositions(rhythm, parseTimeSignature(this.timeSignature));
+  }
+
   /**
    * Constrains pitch to valid range and applies mean-reversion bias to prevent register drift
    */
@@ -267,6 +1108,14 @@ export class MusicMarkovChain extends MarkovChain {
     // Constrain pitch to range to avoid register drift and apply small mean-reversion bias
     let clampedPitch = Math.max(this.minPitch, Math.min(this.maxPitch, pitch));
 
+    // Over a chord progression, only fold octaves: semitone nudges would break chord tones
+    if (this.overProgression) {
+      clampedPitch = pitch;
+      while (clampedPitch > this.maxPitch && clampedPitch - 12 >= this.minPitch) clampedPitch -= 12;
+      while (clampedPitch < this.minPitch && clampedPitch + 12 <= this.maxPitch) clampedPitch += 12;
+      return clampedPitch;
+    }
+
     if (lastPitch !== null) {
       const center = (this.minPitch + this.maxPitch) / 2;
       const isExtremeLow = clampedPitch <= this.minPitch + 2;
@@ -286,37 +1135,166 @@ export class MusicMarkovChain extends MarkovChain {
 
   /**
    * Set the musical key and update the scale
+   * Accepts any major or minor key and the church modes, e.g. "Eb", "F#m", "D dorian"
    */
   setKey(key: string): void {
-    this.musicalKey = key;
-    // Update scale based on key (simplified - can be extended)
     this.updateScale(key);
+    this.musicalKey = key;
   }
 
   /**
    * Update the musical scale based on the key
    */
   private updateScale(key: string): void {
-    // Simplified scale generation (can be extended for all keys)
-    const keyNotes: { [key: string]: number[] } = {
-      C: [0, 2, 4, 5, 7, 9, 11],
-      G: [7, 9, 11, 0, 2, 4, 6],
-      F: [5, 7, 9, 10, 0, 2, 4],
-      Dm: [2, 4, 5, 7, 9, 10, 0],
-      Am: [9, 11, 0, 2, 4, 5, 7],
-      D: [2, 4, 5, 7, 9, 11, 0],
-      Em: [4, 6, 7, 9, 11, 0, 2],
-      Bm: [11, 0, 2, 4, 6, 7, 9],
-      "F#m": [8, 10, 0, 2, 4, 5, 7],
-      "C#m": [1, 3, 4, 6, 8, 10, 0],
-      "G#m": [6, 8, 10, 0, 2, 4, 6],
-      "D#m": [3, 5, 6, 8, 10, 0, 2],
-      "A#m": [10, 0, 2, 4, 6, 8, 10],
-      "E#m": [1, 3, 4, 6, 8, 10, 0],
-      "B#m": [8, 10, 0, 2, 4, 5, 7],
-    };
+    this.scale = parseKey(key).pitchClasses;
+  }
+
+  /**
+   * Get the pitch classes of the current scale, starting from the tonic
+   */
+  getScale(): number[] {
+    return [...this.scale];
+  }
+
+  /**
+   * Choose how generation respects the current scale
+   *
+   * @param mode "off", "filter", "penalty" or "snap"
+   * @param penalty Weight multiplier for out-of-scale continuations in "penalty" mode (0-1)
+   */
+  setScaleConstraint(mode: ScaleConstraintMode, penalty: number = this.scalePenalty): void {
+    if (!["off", "filter", "penalty", "snap"].includes(mode)) {
+      throw new Error(`Unsupported scale constraint mode: ${mode}`);
+    }
+    if (!Number.isFinite(penalty) || penalty < 0 || penalty > 1) {
+      throw new Error("Scale penalty must be between 0 and 1");
+    }
+
+    this.scaleConstraint = mode;
+    this.scalePenalty = penalty;
+  }
+
+  /**
+   * Mask or down-weight out-of-scale continuations when a scale constraint is active, then
+   * favour chord tones when generating over a chord progression
+   */
+  protected getNextTransitions(context: string[]): NextTransitions | null {
+    const next = this.applyScaleConstraint(super.getNextTransitions(context));
+    return next && this.activeChord ? this.applyChordTones(next) : next;
+  }
+
+  private applyScaleConstraint(next: NextTransitions | null): NextTransitions | null {
+    if (!next || (this.scaleConstraint !== "filter" && this.scaleConstraint !== "penalty")) {
+      return next;
+    }
+
+    const outOfScaleWeight = this.scaleConstraint === "filter" ? 0 : this.scalePenalty;
+    const transitions = new Map<string, number>();
+    let total = 0;
+    for (const [element, probability] of next.transitions) {
+      const weighted = this.isInScale(element) ? probability : probability * outOfScaleWeight;
+      if (weighted > 0) {
+        transitions.set(element, weighted);
+        total += weighted;
+      }
+    }
+
+    // No in-scale continuation: keep the original distribution (filter mode snaps it on output)
+    if (total === 0) return next;
+
+    for (const [element, weighted] of transitions) {
+      transitions.set(element, weighted / total);
+    }
+    return { ...next, transitions };
+  }
+
+  /**
+   * Give chord tones the learned share of the probability of pitched continuations (bias),
+   * or keep only chord tones (mask). Rests and unrecognized tokens keep their probability
+   * A mask with no chord tone among the continuations draws from all chord tones in the
+   * training data, weighted by frequency
+   */
+  private applyChordTones(next: NextTransitions): NextTransitions {
+    const { pitchClasses, rate, mode, vocabulary } = this.activeChord!;
+    const isChordTone = new Map<string, boolean>();
+    let chordToneMass = 0;
+    let otherMass = 0;
+
+    for (const [element, probability] of next.transitions) {
+      const tokenPitches = this.getCandidatePitchClasses(element);
+      if (tokenPitches.length === 0) continue;
+
+      const chordTone = tokenPitches.every((pitchClass) => pitchClasses.includes(pitchClass));
+      isChordTone.set(element, chordTone);
+      if (chordTone) chordToneMass += probability;
+      else otherMass += probability;
+    }
+
+    if (chordToneMass === 0 && mode === "mask" && next.transitions !== vocabulary) {
+      const fallback = this.applyChordTones({ ...next, transitions: vocabulary });
+      return fallback.transitions === vocabulary ? next : fallback;
+    }
+
+    // Nothing to choose between: keep the original distribution
+    if (chordToneMass === 0 || (otherMass === 0 && mode === "bias")) return next;
+
+    const pitchedMass = chordToneMass + otherMass;
+    const chordToneShare = mode === "mask" ? 1 : rate;
+    const transitions = new Map<string, number>();
+    let total = 0;
+    for (const [element, probability] of next.transitions) {
+      const chordTone = isChordTone.get(element);
+      let weighted = probability;
+      if (chordTone === true) weighted *= (pitchedMass * chordToneShare) / chordToneMass;
+      if (chordTone === false) weighted *= (pitchedMass * (1 - chordToneShare)) / otherMass;
+      if (weighted > 0) {
+        transitions.set(element, weighted);
+        total += weighted;
+      }
+    }
 
-    this.scale = keyNotes[key] || keyNotes["C"];
+    for (const [element, weighted] of transitions) {
+      transitions.set(element, weighted / total);
+    }
+    return { ...next, transitions };
+  }
+
+  /**
+   * Pitch classes of a candidate continuation; empty for rests and interval tokens
+   */
+  private getCandidatePitchClasses(token: string): number[] {
+    const separator = token.lastIndexOf(":");
+    const note = separator === -1 ? token : token.slice(0, separator);
+    if (note === REST_NOTE) return [];
+
+    const pitches =
+      this.pitchRepresentation === "degree"
+        ? note
+            .split("+")
+            .map((degree) => this.renderDegree(degree))
+            .filter((pitch): pitch is number => pitch !== null)
+        : this.getTokenPitches(note);
+    return pitches.map((pitch) => ((pitch % 12) + 12) % 12);
+  }
+
+  /**
+   * Check whether every pitch of a note or chord token belongs to the current scale
+   */
+  private isInScale(token: string): boolean {
+    // Scale degrees are chromatic exactly when altered; intervals depend on the previous note
+    if (this.pitchRepresentation === "degree") return !/[b#]/.test(token);
+
+    return this.getTokenPitches(token).every((pitch) => this.scale.includes(pitch % 12));
+  }
+
+  /**
+   * Snap an output pitch to the scale in "filter" and "snap" modes
+   */
+  private applyScale(pitch: number): number {
+    if (this.scaleConstraint !== "filter" && this.scaleConstraint !== "snap") {
+      return pitch;
+    }
+    return snapToScale(pitch, this.scale, this.minPitch, this.maxPitch);
   }
 
   /**
@@ -333,6 +1311,18 @@ export class MusicMarkovChain extends MarkovChain {
     // Forward to internal chains
     super.setTemperature(temperature);
     this.rhythmChain.setTemperature(temperature);
+    this.velocityChain.setTemperature(temperature);
+    this.noteRhythmChain.setTemperature(temperature);
+  }
+
+  /**
+   * Replace the random source on every internal chain
+   */
+  setRandomSource(random: RandomSource): void {
+    super.setRandomSource(random);
+    this.rhythmChain.setRandomSource(random);
+    this.velocityChain.setRandomSource(random);
+    this.noteRhythmChain.setRandomSource(random);
   }
 
   /**
@@ -341,6 +1331,9 @@ export class MusicMarkovChain extends MarkovChain {
   resetAll(): void {
     super.reset();
     this.rhythmChain.reset();
+    this.velocityChain.reset();
+    this.noteRhythmChain.reset();
+    this.chordToneCounts.clear();
   }
 
   /**
@@ -367,26 +1360,65 @@ export class MusicMarkovChain extends MarkovChain {
   /**
    * Analyze harmonic patterns from training sequences
    */
-  private analyzeHarmonicPatterns(noteSequences: string[][]): void {
-    // Convert string sequences to Note objects for harmonic analysis
-    const noteSequencesAsNotes = noteSequences.map((sequence) =>
-      sequence.map((noteStr, index) => {
-        const parsed = this.parseNote(noteStr);
-        const pitch = parsed ? parsed.pitch : 60; // Default to middle C
-        return {
-          pitch: pitch,
-          startTime: index * 500,
-          duration: 500,
-          velocity: 80,
-        };
-      })
-    );
+  private analyzeHarmonicPatterns(noteSequences: string[][], rhythmPatterns: string[][]): void {
+    // Lay the notes out with their rhythms at 120 BPM; rests advance time without a pitch
+    const noteSequencesAsNotes = noteSequences.map((sequence, index) => {
+      const notes: Note[] = [];
+      let time = 0;
+
+      sequence.forEach((noteStr, step) => {
+        const rhythm = rhythmPatterns[index]?.[step] ?? "4";
+        const duration = rhythmToBeats(rhythm) * 500;
+        if (noteStr !== REST_NOTE && !isRest(rhythm)) {
+          for (const pitch of this.getTokenPitches(noteStr)) {
+            notes.push({ pitch, startTime: time, duration, velocity: 80 });
+          }
+        }
+        time += duration;
+      });
+
+      return notes;
+    });
 
-    // Detect key from training data
-    const allNotes = noteSequencesAsNotes.flat();
-    this.detectedKey = this.harmonicAnalyzer.detectKey(allNotes);
-    this.musicalKey = this.detectedKey.split(" ")[0]; // Extract just the key name
-    this.updateScale(this.musicalKey);
+    this.detectTrainingKey(noteSequencesAsNotes);
+  }
+
+  /**
+   * Find the key regions of the training sequences laid end to end, and take the key that
+   * lasts longest as the detected key, so a modulating piece is not blurred into one key
+   */
+  private detectTrainingKey(noteSequences: Note[][]): void {
+    const regions: KeyRegion[] = [];
+    let offset = 0;
+    for (const notes of noteSequences) {
+      if (notes.length === 0) continue;
+
+      const shifted = notes.map((note) => ({ ...note, startTime: note.startTime + offset }));
+      regions.push(...this.harmonicAnalyzer.detectKeyRegions(shifted, KEY_REGION_WINDOW));
+      offset = Math.max(...shifted.map((note) => note.startTime + note.duration));
+    }
+
+    const timeInKey = new Map<string, number>();
+    for (const region of regions) {
+      timeInKey.set(
+        region.key,
+        (timeInKey.get(region.key) ?? 0) + region.endTime - region.startTime
+      );
+    }
+    let detectedKey = "C major";
+    let longest = 0;
+    for (const [key, time] of timeInKey) {
+      if (time > longest) {
+        longest = time;
+        detectedKey = key;
+      }
+    }
+
+    this.keyRegions = regions;
+    this.detectedKey = detectedKey;
+    // Short key name, e.g. "Eb" or "F#m"
+    this.musicalKey = detectedKey.replace(/ major$/, "").replace(/ minor$/, "m");
+    this.updateScale(this.detectedKey);
   }
 
   /**
@@ -396,6 +1428,13 @@ export class MusicMarkovChain extends MarkovChain {
     return this.detectedKey;
   }
 
+  /**
+   * Key regions found in the training data, one after another in training order
+   */
+  getKeyRegions(): KeyRegion[] {
+    return this.keyRegions.map((region) => ({ ...region }));
+  }
+
   /**
    * Analyze harmonic content of a sequence
    */
@@ -440,6 +1479,20 @@ export class MusicMarkovChain extends MarkovChain {
     return this.rhythmChain;
   }
 
+  /**
+   * Get how rhythms relate to notes in the current model
+   */
+  getRhythmCoupling(): NoteRhythmCoupling {
+    return this.rhythmCoupling;
+  }
+
+  /**
+   * Get the velocity chain for analysis purposes
+   */
+  public getVelocityChain(): MarkovChain {
+    return this.velocityChain;
+  }
+
   /**
    * Get the chord chain for analysis purposes (now same as main chain)
    */
@@ -450,7 +1503,11 @@ export class MusicMarkovChain extends MarkovChain {
   /**
    * Convert chord IDs to actual Chord objects
    */
-  private convertChordIdsToChords(chordIds: string[], rhythm: string[]): Chord[] {
+  private convertChordIdsToChords(
+    chordIds: string[],
+    rhythm: string[],
+    velocities: string[] = []
+  ): Chord[] {
     const chords: Chord[] = [];
     let currentTime = 0;
 
@@ -458,8 +1515,17 @@ export class MusicMarkovChain extends MarkovChain {
       const chordId = chordIds[i];
       const rhythmStr = rhythm[i] || rhythm[0]; // Fallback to first rhythm
 
+      if (chordId === REST_NOTE || isRest(rhythmStr)) {
+        currentTime += this.parseRhythm(rhythmStr);
+        continue;
+      }
+
       // Parse chord ID (e.g., "C4+E4+G4")
       const notes = this.parseChordId(chordId);
+      const learnedVelocity = velocities[i] ? dynamicToVelocity(velocities[i]) : null;
+      if (learnedVelocity !== null) {
+        notes.forEach((note) => (note.velocity = learnedVelocity));
+      }
       if (notes.length > 0) {
         const duration = this.parseRhythm(rhythmStr);
 
@@ -485,10 +1551,10 @@ export class MusicMarkovChain extends MarkovChain {
     const notes: Note[] = [];
 
     for (const noteStr of noteStrings) {
-      const parsed = this.parseNote(noteStr);
-      if (parsed) {
+      const pitch = noteNameToPitch(noteStr);
+      if (pitch !== null) {
         notes.push({
-          pitch: parsed.pitch,
+          pitch,
           velocity: 80, // Default velocity
           duration: 0, // Will be set by the chord duration
           startTime: 0, // Will be set by the chord start time
@@ -523,10 +1589,209 @@ export class MusicMarkovChain extends MarkovChain {
       return notes;
     });
 
-    // Detect key from training data
-    const allNotes = noteSequencesAsNotes.flat();
-    this.detectedKey = this.harmonicAnalyzer.detectKey(allNotes);
-    this.musicalKey = this.detectedKey.split(" ")[0]; // Extract just the key name
-    this.updateScale(this.musicalKey);
+    this.detectTrainingKey(noteSequencesAsNotes);
+  }
+
+  /**
+   * Serialize the note chain, rhythm chain and harmonic state to a JSON-compatible object
+   */
+  toJSON(): SerializedMusicMarkovChain {
+    return {
+      ...super.toJSON(),
+      type: "MusicMarkovChain",
+      rhythmChain: this.rhythmChain.toJSON(),
+      velocityChain: this.velocityChain.toJSON(),
+      metricVelocity: this.metricVelocity,
+      metricRhythm: this.metricRhythm,
+      timeSignature: this.timeSignature,
+      rhythmCoupling: this.rhythmCoupling,
+      noteRhythmChain: this.noteRhythmChain.toJSON(),
+      chordTones: Object.fromEntries(
+        [...this.chordToneCounts].map(([position, count]) => [position, { ...count }])
+      ),
+      harmonic: {
+        musicalKey: this.musicalKey,
+        detectedKey: this.detectedKey,
+        scale: [...this.scale],
+        tempo: this.tempo,
+        minPitch: this.minPitch,
+        maxPitch: this.maxPitch,
+        pitchRepresentation: this.pitchRepresentation,
+        startNote: this.startNote,
+        scaleConstraint: this.scaleConstraint,
+        scalePenalty: this.scalePenalty,
+        keyRegions: this.getKeyRegions(),
+      },
+    };
+  }
+
+  /**
+   * Restore a music chain previously saved with toJSON()
+   *
+   * @param data Serialized model, either as a JSON string or an already parsed object
+   */
+  static fromJSON(data: string | unknown): MusicMarkovChain {
+    const parsed = MarkovChain.parseSerialized(data);
+    MarkovChain.validateSerializedChain(parsed, "model");
+
+    const model = parsed as SerializedMusicMarkovChain;
+    if (model.type !== "MusicMarkovChain") {
+      throw new Error(`Invalid serialized model: model.type must be "MusicMarkovChain"`);
+    }
+    MarkovChain.validateSerializedChain(model.rhythmChain, "model.rhythmChain");
+    if (model.velocityChain !== undefined) {
+      MarkovChain.validateSerializedChain(model.velocityChain, "model.velocityChain");
+    }
+    if (model.metricVelocity !== undefined && typeof model.metricVelocity !== "boolean") {
+      throw new Error("Invalid serialized model: model.metricVelocity must be a boolean");
+    }
+    if (model.metricRhythm !== undefined && typeof model.metricRhythm !== "boolean") {
+      throw new Error("Invalid serialized model: model.metricRhythm must be a boolean");
+    }
+    if (model.timeSignature !== undefined) {
+      try {
+        parseTimeSignature(model.timeSignature);
+      } catch {
+        throw new Error("Invalid serialized model: model.timeSignature must be a time signature");
+      }
+    }
+    if (
+      model.rhythmCoupling !== undefined &&
+      !["independent", "joint", "factored"].includes(model.rhythmCoupling)
+    ) {
+      throw new Error(
+        'Invalid serialized model: model.rhythmCoupling must be "independent", "joint" or "factored"'
+      );
+    }
+    if (model.noteRhythmChain !== undefined) {
+      MarkovChain.validateSerializedChain(model.noteRhythmChain, "model.noteRhythmChain");
+    }
+    if (
+      model.chordTones !== undefined &&
+      (typeof model.chordTones !== "object" ||
+        model.chordTones === null ||
+        !Object.values(model.chordTones).every(
+          (count) =>
+            typeof count === "object" &&
+            count !== null &&
+            Number.isFinite(count.chordTones) &&
+            Number.isFinite(count.total)
+        ))
+    ) {
+      throw new Error(
+        "Invalid serialized model: model.chordTones must map metric positions to chord-tone counts"
+      );
+    }
+    MusicMarkovChain.validateHarmonicState(model.harmonic);
+
+    const chain = new MusicMarkovChain(model.config);
+    chain.restoreSerializedState(model);
+    chain.rhythmChain = MetricRhythmChain.fromJSON(model.rhythmChain, model.timeSignature);
+    chain.rhythmChain.setRandomSource(chain.random);
+    chain.timeSignature = model.timeSignature ?? "4/4";
+    chain.metricRhythm = model.metricRhythm ?? false;
+    if (model.velocityChain !== undefined) {
+      chain.velocityChain = MarkovChain.fromJSON(model.velocityChain);
+      chain.velocityChain.setRandomSource(chain.random);
+    }
+    chain.metricVelocity = model.metricVelocity ?? false;
+    chain.chordToneCounts = new Map(
+      Object.entries(model.chordTones ?? {}).map(([position, count]) => [
+        position,
+        { chordTones: count.chordTones, total: count.total },
+      ])
+    );
+    chain.rhythmCoupling = model.rhythmCoupling ?? "independent";
+    if (model.noteRhythmChain !== undefined) {
+      chain.noteRhythmChain = MarkovChain.fromJSON(model.noteRhythmChain);
+      chain.noteRhythmChain.setRandomSource(chain.random);
+    }
+
+    chain.musicalKey = model.harmonic.musicalKey;
+    chain.detectedKey = model.harmonic.detectedKey;
+    chain.scale = [...model.harmonic.scale];
+    chain.tempo = model.harmonic.tempo;
+    chain.setPitchRange(model.harmonic.minPitch, model.harmonic.maxPitch);
+    chain.pitchRepresentation = model.harmonic.pitchRepresentation ?? "absolute";
+    try {
+      chain.setStartNote(model.harmonic.startNote ?? null);
+    } catch {
+      throw new Error("Invalid serialized model: model.harmonic.startNote must be a note name");
+    }
+    chain.setScaleConstraint(
+      model.harmonic.scaleConstraint ?? "off",
+      model.harmonic.scalePenalty ?? chain.scalePenalty
+    );
+    chain.keyRegions = (model.harmonic.keyRegions ?? []).map((region) => ({ ...region }));
+
+    return chain;
+  }
+
+  /**
+   * Validate the harmonic section of a serialized music chain
+   */
+  private static validateHarmonicState(harmonic: unknown): void {
+    const fail = (message: string): never => {
+      throw new Error(`Invalid serialized model: model.harmonic${message}`);
+    };
+
+    if (typeof harmonic !== "object" || harmonic === null) fail(" must be an object");
+    const state = harmonic as Record<string, unknown>;
+
+    if (typeof state.musicalKey !== "string") fail(".musicalKey must be a string");
+    if (typeof state.detectedKey !== "string") fail(".detectedKey must be a string");
+    if (
+      !Array.isArray(state.scale) ||
+      !state.scale.every((pc) => Number.isInteger(pc) && pc >= 0 && pc < 12)
+    ) {
+      fail(".scale must be an array of pitch classes (0-11)");
+    }
+    for (const field of ["tempo", "minPitch", "maxPitch"]) {
+      if (typeof state[field] !== "number" || !Number.isFinite(state[field])) {
+        fail(`.${field} must be a number`);
+      }
+    }
+    if (
+      state.pitchRepresentation !== undefined &&
+      !["absolute", "interval", "degree"].includes(state.pitchRepresentation as string)
+    ) {
+      fail('.pitchRepresentation must be "absolute", "interval" or "degree"');
+    }
+    if (
+      state.startNote !== undefined &&
+      state.startNote !== null &&
+      typeof state.startNote !== "string"
+    ) {
+      fail(".startNote must be a note name or null");
+    }
+    if (
+      state.scaleConstraint !== undefined &&
+      !["off", "filter", "penalty", "snap"].includes(state.scaleConstraint as string)
+    ) {
+      fail('.scaleConstraint must be "off", "filter", "penalty" or "snap"');
+    }
+    if (
+      state.scalePenalty !== undefined &&
+      !(
+        typeof state.scalePenalty === "number" &&
+        state.scalePenalty >= 0 &&
+        state.scalePenalty <= 1
+      )
+    ) {
+      fail(".scalePenalty must be a number between 0 and 1");
+    }
+    if (
+      state.keyRegions !== undefined &&
+      (!Array.isArray(state.keyRegions) ||
+        !state.keyRegions.every(
+          (region) =>
+            typeof region === "object" &&
+            region !== null &&
+            typeof region.key === "string" &&
+            ["startTime", "endTime", "confidence"].every((field) => Number.isFinite(region[field]))
+        ))
+    ) {
+      fail(".keyRegions must be an array of key regions");
+    }
   }
 }
@@ -0,0 +1,195 @@
+/**
+ * Rhythm token grammar shared by the parser, the chains, the MIDI generator and playback
+ *
+ * A token is a note value (1, 2, 4, ... 256) optionally followed by dots ("4.", "8..") or a
+ * triplet mark ("8t"). Values tied together are joined with "~" ("2~8") and an "r" prefix
+ * turns the whole token into a rest ("r8", "r4."). Durations are measured in quarter-note beats.
+ */
+
+/** Note token used in note sequences where a rest falls */
+export const REST_NOTE = "R";
+
+export interface ParsedRhythm {
+  /** Length in quarter-note beats */
+  beats: number;
+  /** Whether the duration is silent */
+  rest: boolean;
+}
+
+// Exact arithmetic: 24 ticks per beat hold 32nd notes, dotted values and triplets
+const TICKS_PER_BEAT = 24;
+const NOTE_VALUES = [1, 2, 4, 8, 16, 32, 64, 128, 256];
+// Largest first, so tied durations are spelled with as few values as possible
+const TIE_VALUES = [1, 2, 4, 8, 16, 32];
+
+/**
+ * Parse a rhythm token, or return null if it does not follow the grammar
+ */
+export function parseRhythmToken(token: string): ParsedRhythm | null {
+  const rest = token.startsWith("r");
+  const parts = (rest ? token.slice(1) : token).split("~");
+  let beats = 0;
+
+  for (const part of parts) {
+    const match = part.match(/^(\d+)(\.*|t)$/);
+    if (!match || !NOTE_VALUES.includes(parseInt(match[1], 10))) return null;
+
+    let value = 4 / parseInt(match[1], 10);
+    if (match[2] === "t") {
+      value = (value * 2) / 3;
+    } else {
+      // Each dot adds half of the previous addition
+      value *= 2 - Math.pow(2, -match[2].length);
+    }
+    beats += value;
+  }
+
+  return { beats, rest };
+}
+
+/**
+ * Length of a rhythm token in quarter-note beats; unknown tokens count as a quarter note
+ */
+export function rhythmToBeats(token: string): number {
+  return parseRhythmToken(token)?.beats ?? 1;
+}
+
+/**
+ * Whether a rhythm token is a rest
+ */
+export function isRest(token: string): boolean {
+  return parseRhythmToken(token)?.rest ?? false;
+}
+
+/**
+ * Spell a duration in beats as a rhythm token, quantized to the nearest straight or triplet
+ * position of the given grid (16 = sixteenth notes and eighth-note triplets). Durations no
+ * single value can express are tied, e.g. 2.5 beats becomes "2~8"
+ *
+ * @param beats Duration in quarter-note beats
+ * @param quantization Straight grid resolution as a note value
+ * @param rest Spell the duration as a rest
+ */
+export function beatsToRhythmToken(
+  beats: number,
+  quantization: number = 16,
+  rest: boolean = false
+): string {
+  const straightUnit = Math.max(3, Math.round((4 / quantization) * TICKS_PER_BEAT));
+  const tripletUnit = Math.round((straightUnit * 4) / 3);
+  const ticks = beats * TICKS_PER_BEAT;
+
+  // Snap to whichever grid is closer; straight wins ties. Never round down to nothing
+  const straight = Math.max(straightUnit, Math.round(ticks / straightUnit) * straightUnit);
+  const triplet = Math.max(tripletUnit, Math.round(ticks / tripletUnit) * tripletUnit);
+  let remaining = Math.abs(triplet - ticks) < Math.abs(straight - ticks) ? triplet : straight;
+
+  const prefix = rest ? "r" : "";
+  const isTriplet = remaining % 3 !== 0;
+
+  // A single plain, dotted or triplet value when there is one
+  for (const value of TIE_VALUES) {
+    const plain = (4 / value) * TICKS_PER_BEAT;
+    if (!isTriplet && plain === remaining) return `${prefix}${value}`;
+    if (!isTriplet && plain * 1.5 === remaining) return `${prefix}${value}.`;
+    if (isTriplet && (plain * 2) / 3 === remaining) return `${prefix}${value}t`;
+  }
+
+  // Otherwise tie values together, largest first
+  const parts: string[] = [];
+  for (const value of TIE_VALUES) {
+    const length = ((4 / value) * TICKS_PER_BEAT * (isTriplet ? 2 : 3)) / 3;
+    while (remaining >= length && Number.isInteger(length)) {
+      parts.push(`${value}${isTriplet ? "t" : ""}`);
+      remaining -= length;
+    }
+  }
+
+  return `${prefix}${parts.join("~")}`;
+}
+
+/**
+ * Spell a duration in beats as a rhythm token without snapping it to a coarser grid, so a
+ * remainder always fills its gap exactly. Durations off the 32nd-note grid tie on a "32t" or
+ * "64t", e.g. 0.25 beats plus one tick becomes "16~64t"
+ *
+ * @param beats Duration in quarter-note beats, rounded to 24ths of a beat
+ * @param rest Spell the duration as a rest
+ */
+export function beatsToExactRhythmToken(beats: number, rest: boolean = false): string {
+  const ticks = Math.max(1, Math.round(beats * TICKS_PER_BEAT));
+  const token = beatsToRhythmToken(ticks / TICKS_PER_BEAT, 32, rest);
+  if (Math.round(rhythmToBeats(token) * TICKS_PER_BEAT) === ticks) return token;
+
+  const straightTicks = ticks - (ticks % 3);
+  const parts = straightTicks > 0 ? [beatsToRhythmToken(straightTicks / TICKS_PER_BEAT, 32)] : [];
+  parts.push(ticks % 3 === 2 ? "32t" : "64t");
+  return `${rest ? "r" : ""}${parts.join("~")}`;
+}
+
+export interface Meter {
+  /** Counted units per bar, e.g. 6 in 6/8 */
+  numerator: number;
+  /** Note value of the counted unit, e.g. 8 in 6/8 */
+  denominator: number;
+  /** Bar length in quarter-note beats */
+  barBeats: number;
+  /** Length of one felt beat in quarter-note beats (a dotted quarter in 6/8) */
+  beatBeats: number;
+  /** Whether beats divide in three (6/8, 9/8, 12/8) */
+  compound: boolean;
+}
+
+/**
+ * Parse a time signature such as "3/4", "6/8" or "7/8"
+ */
+export function parseTimeSignature(timeSignature: string): Meter {
+  const match = timeSignature.match(/^(\d+)\/(\d+)$/);
+  const numerator = match ? parseInt(match[1], 10) : 0;
+  const denominator = match ? parseInt(match[2], 10) : 0;
+  if (numerator <= 0 || !NOTE_VALUES.includes(denominator)) {
+    throw new Error(`Unsupported time signature: ${timeSignature}`);
+  }
+
+  const unit = 4 / denominator;
+  const compound = denominator >= 8 && numerator > 3 && numerator % 3 === 0;
+  return {
+    numerator,
+    denominator,
+    barBeats: numerator * unit,
+    beatBeats: compound ? unit * 3 : unit,
+    compound,
+  };
+}
+
+/**
+ * Classify where each note of a rhythm starts in the bar:
+ * D = downbeat, B = other beats, O = off-beat (beat halves, or eighths in compound meters),
+ * W = weaker subdivisions. The rhythm is assumed to start on a downbeat
+ */
+export function getMetricPositions(rhythm: string[], meter: Meter): string[] {
+  let beat = 0;
+
+  return rhythm.map((token) => {
+    const position = getMetricPosition(beat, meter);
+    beat += rhythmToBeats(token);
+    return position;
+  });
+}
+
+/**
+ * Classify a single position, given in quarter-note beats from the start of the first bar
+ */
+export function getMetricPosition(beat: number, meter: Meter): string {
+  const epsilon = 1e-6;
+  const offBeat = meter.compound ? meter.beatBeats / 3 : meter.beatBeats / 2;
+  const isMultiple = (position: number, unit: number) => {
+    const ratio = position / unit;
+    return Math.abs(ratio - Math.round(ratio)) < epsilon;
+  };
+  const position = beat % meter.barBeats;
+
+  if (isMultiple(position, meter.barBeats)) return "D";
+  if (isMultiple(position, meter.beatBeats)) return "B";
+  return isMultiple(position, offBeat) ? "O" : "W";
+}
@@ -0,0 +1,136 @@
+/**
+ * Key and mode definitions shared by the music modules
+ * Keys are written as a tonic plus an optional mode, e.g. "C", "F#m", "Bb minor", "D dorian"
+ */
+
+export const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+const TONIC_PITCH_CLASSES: Record<string, number> = {
+  C: 0,
+  "B#": 0,
+  "C#": 1,
+  Db: 1,
+  D: 2,
+  "D#": 3,
+  Eb: 3,
+  E: 4,
+  Fb: 4,
+  "E#": 5,
+  F: 5,
+  "F#": 6,
+  Gb: 6,
+  G: 7,
+  "G#": 8,
+  Ab: 8,
+  A: 9,
+  "A#": 10,
+  Bb: 10,
+  B: 11,
+  Cb: 11,
+};
+
+/** Semitone offsets from the tonic for every supported mode */
+export const SCALE_INTERVALS: Record<string, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  ionian: [0, 2, 4, 5, 7, 9, 11],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  aeolian: [0, 2, 3, 5, 7, 8, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  "harmonic minor": [0, 2, 3, 5, 7, 8, 11],
+  "melodic minor": [0, 2, 3, 5, 7, 9, 11],
+};
+
+/** The 12 major and 12 minor keys, using their conventional spellings */
+export const MAJOR_KEYS = ["C", "Db", "D", "Eb", "E", "F", "F#", "G", "Ab", "A", "Bb", "B"];
+export const MINOR_KEYS = [
+  "Cm",
+  "C#m",
+  "Dm",
+  "Ebm",
+  "Em",
+  "Fm",
+  "F#m",
+  "Gm",
+  "G#m",
+  "Am",
+  "Bbm",
+  "Bm",
+];
+
+export interface ParsedKey {
+  /** Pitch class of the tonic (0 = C) */
+  tonic: number;
+  /** Mode name, a key of SCALE_INTERVALS */
+  mode: string;
+  /** Pitch classes of the scale, starting from the tonic */
+  pitchClasses: number[];
+}
+
+/**
+ * Parse a key such as "C", "F#m", "Bb minor" or "D dorian"
+ */
+export function parseKey(key: string): ParsedKey {
+  const match = key.trim().match(/^([A-G](?:#|b)?)\s*(.*)$/);
+  const tonic = match ? TONIC_PITCH_CLASSES[match[1]] : undefined;
+  if (!match || tonic === undefined) {
+    throw new Error(`Unsupported key: ${key}`);
+  }
+
+  const suffix = match[2].trim().toLowerCase();
+  let mode: string;
+  if (suffix === "" || suffix === "maj" || suffix === "major") {
+    mode = "major";
+  } else if (suffix === "m" || suffix === "min" || suffix === "minor") {
+    mode = "minor";
+  } else if (SCALE_INTERVALS[suffix]) {
+    mode = suffix;
+  } else {
+    throw new Error(`Unsupported key: ${key}`);
+  }
+
+  return {
+    tonic,
+    mode,
+    pitchClasses: SCALE_INTERVALS[mode].map((interval) => (tonic + interval) % 12),
+  };
+}
+
+/**
+ * Name a MIDI pitch with sharps, e.g. 61 -> "C#4"
+ */
+export function pitchToNoteName(pitch: number): string {
+  return `${NOTE_NAMES[((pitch % 12) + 12) % 12]}${Math.floor(pitch / 12) - 1}`;
+}
+
+/**
+ * MIDI pitch of a note name with sharps or flats, e.g. "Bb3" -> 58; null when it is not one
+ */
+export function noteNameToPitch(name: string): number | null {
+  const match = name.match(/^([A-G](?:#|b)?)(-?\d+)$/);
+  const pitchClass = match ? TONIC_PITCH_CLASSES[match[1]] : undefined;
+  return match && pitchClass !== undefined ? pitchClass + (parseInt(match[2], 10) + 1) * 12 : null;
+}
+
+/**
+ * Move a MIDI pitch to the nearest pitch in the scale, staying within [minPitch, maxPitch]
+ * Ties resolve downwards
+ */
+export function snapToScale(
+  pitch: number,
+  pitchClasses: number[],
+  minPitch: number = 0,
+  maxPitch: number = 127
+): number {
+  const inScale = (candidate: number) =>
+    candidate >= minPitch && candidate <= maxPitch && pitchClasses.includes(candidate % 12);
+
+  for (let distance = 0; distance < 12; distance++) {
+    if (inScale(pitch - distance)) return pitch - distance;
+    if (inScale(pitch + distance)) return pitch + distance;
+  }
+  return pitch;
+}
@@ -0,0 +1,313 @@
+/**
+ * Four-part (SATB) voice leading for chord sequences:
+ * - Every chord is voiced for bass, tenor, alto and soprano within their usual ranges
+ * - Voicings are chosen over the whole sequence to minimize total motion, honoring the
+ *   VoiceLeadingRule flags (maximum leap, parallel fifths and octaves, stepwise motion)
+ * - Existing sequences can be checked for rule violations
+ */
+
+import { Chord, Note, PolyphonicSequence } from "../types";
+import {
+  DEFAULT_VOICE_LEADING_RULES,
+  HarmonicAnalyzer,
+  VoiceLeadingRule,
+} from "./HarmonicAnalyzer";
+import { NOTE_NAMES, pitchToNoteName } from "./Scales";
+
+export interface VoiceLeadingViolation {
+  /** Index of the chord the offending motion leads into */
+  chordIndex: number;
+  rule: "maxInterval" | "parallelFifths" | "parallelOctaves";
+  /** Voices involved, numbered from the bass up */
+  voices: number[];
+  description: string;
+}
+
+// Bass, tenor, alto and soprano ranges as MIDI pitches (E2-C4, C3-G4, G3-D5, C4-G5)
+const VOICE_RANGES: Array<[number, number]> = [
+  [40, 60],
+  [48, 67],
+  [55, 74],
+  [60, 79],
+];
+const VOICE_NAMES = ["bass", "tenor", "alto", "soprano"];
+
+// Costs are measured in semitones of motion
+const RULE_PENALTY = 100;
+const INVERSION_PENALTY = 10; // Root position unless an inversion avoids a broken rule
+const DOUBLED_THIRD_PENALTY = 3;
+const LEAP_PENALTY = 1; // Per semitone beyond a whole step in the upper voices
+const REGISTER_WEIGHT = 0.25; // Pull of the first chord towards the middle of each range
+
+interface Voicing {
+  pitches: number[];
+  cost: number;
+}
+
+export class VoiceLeadingEngine {
+  private rules: VoiceLeadingRule;
+  private harmonicAnalyzer = new HarmonicAnalyzer();
+
+  constructor(rules: Partial<VoiceLeadingRule> = {}) {
+    this.rules = { ...DEFAULT_VOICE_LEADING_RULES, ...rules };
+  }
+
+  setRules(rules: Partial<VoiceLeadingRule>): void {
+    this.rules = { ...this.rules, ...rules };
+  }
+
+  getRules(): VoiceLeadingRule {
+    return { ...this.rules };
+  }
+
+  /**
+   * Re-voice every chord of a sequence in four parts, keeping timing and velocity
+   * Chords that cannot be voiced in four parts (single notes, more than four pitch classes
+   * besides the fifth) are kept as they are and restart the voice leading
+   */
+  voiceSequence(sequence: PolyphonicSequence): PolyphonicSequence {
+    const voiced = [...sequence.chords];
+    let segment: Array<{ index: number; candidates: Voicing[] }> = [];
+
+    const flush = () => {
+      const path = this.findBestPath(segment.map((entry) => entry.candidates));
+      segment.forEach((entry, step) => {
+        voiced[entry.index] = this.toChord(sequence.chords[entry.index], path[step]);
+      });
+      segment = [];
+    };
+
+    sequence.chords.forEach((chord, index) => {
+      const candidates = this.getCandidateVoicings(chord);
+      if (candidates.length === 0) {
+        flush();
+        return;
+      }
+      segment.push({ index, candidates });
+    });
+    flush();
+
+    return { ...sequence, chords: voiced };
+  }
+
+  /**
+   * Report leaps larger than maxInterval and, when the rules forbid them, parallel fifths
+   * and octaves. Voices are the chord notes from the bottom up; when consecutive chords have
+   * different numbers of notes only the outer voices are compared
+   */
+  findViolations(sequence: PolyphonicSequence): VoiceLeadingViolation[] {
+    const violations: VoiceLeadingViolation[] = [];
+
+    for (let i = 1; i < sequence.chords.length; i++) {
+      let previous = this.getVoices(sequence.chords[i - 1]);
+      let current = this.getVoices(sequence.chords[i]);
+      if (previous.length === 0 || current.length === 0) continue;
+
+      let voiceNumbers = previous.map((_, voice) => voice);
+      if (previous.length !== current.length) {
+        voiceNumbers = [0, Math.max(previous.length, current.length) - 1];
+        previous = [previous[0], previous[previous.length - 1]];
+        current = [current[0], current[current.length - 1]];
+      }
+      const name = (voice: number) =>
+        current.length === 4 ? VOICE_NAMES[voice] : `voice ${voiceNumbers[voice] + 1}`;
+
+      for (let voice = 0; voice < current.length; voice++) {
+        const leap = Math.abs(current[voice] - previous[voice]);
+        if (leap > this.rules.maxInterval) {
+          violations.push({
+            chordIndex: i,
+            rule: "maxInterval",
+            voices: [voiceNumbers[voice]],
+            description: `The ${name(voice)} leaps ${leap} semitones into chord ${i + 1}`,
+          });
+        }
+      }
+
+      for (const { rule, voices } of this.findParallels(previous, current)) {
+        violations.push({
+          chordIndex: i,
+          rule,
+          voices: voices.map((voice) => voiceNumbers[voice]),
+          description:
+            `${rule === "parallelFifths" ? "Parallel fifths" : "Parallel octaves"} between ` +
+            `the ${name(voices[0])} and ${name(voices[1])} into chord ${i + 1}`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Choose one voicing per chord minimizing the total cost (Viterbi search)
+   */
+  private findBestPath(candidates: Voicing[][]): Voicing[] {
+    if (candidates.length === 0) return [];
+
+    let costs = candidates[0].map((voicing) => voicing.cost + this.getRegisterCost(voicing));
+    const backPointers: number[][] = [];
+
+    for (let step = 1; step < candidates.length; step++) {
+      const previous = candidates[step - 1];
+      const pointers: number[] = [];
+      costs = candidates[step].map((voicing) => {
+        let best = Infinity;
+        let bestIndex = 0;
+        previous.forEach((previousVoicing, index) => {
+          const cost =
+            costs[index] + this.getTransitionCost(previousVoicing.pitches, voicing.pitches);
+          if (cost < best) {
+            best = cost;
+            bestIndex = index;
+          }
+        });
+        pointers.push(bestIndex);
+        return best + voicing.cost;
+      });
+      backPointers.push(pointers);
+    }
+
+    let index = costs.indexOf(Math.min(...costs));
+    const path = [candidates[candidates.length - 1][index]];
+    for (let step = backPointers.length - 1; step >= 0; step--) {
+      index = backPointers[step][index];
+      path.unshift(candidates[step][index]);
+    }
+    return path;
+  }
+
+  /**
+   * All four-part voicings of a chord within the voice ranges, without crossing voices,
+   * with at most an octave between adjacent upper voices and every required pitch class
+   */
+  private getCandidateVoicings(chord: Chord): Voicing[] {
+    const pitchClasses = [...new Set(chord.notes.map((note) => note.pitch % 12))];
+    if (pitchClasses.length < 2) return [];
+
+    const identified = this.harmonicAnalyzer.identifyChord(chord.notes);
+    const lowest = Math.min(...chord.notes.map((note) => note.pitch)) % 12;
+    const root = identified ? NOTE_NAMES.indexOf(identified.root) : lowest;
+    const third = [3, 4]
+      .map((interval) => (root + interval) % 12)
+      .find((pc) => pitchClasses.includes(pc));
+
+    // Five or more pitch classes drop the fifth; beyond that there are too many for four parts
+    let required = pitchClasses;
+    if (required.length > 4) required = required.filter((pc) => pc !== (root + 7) % 12);
+    if (required.length > 4) return [];
+
+    const options = VOICE_RANGES.map(([low, high]) => {
+      const pitches: number[] = [];
+      for (let pitch = low; pitch <= high; pitch++) {
+        if (pitchClasses.includes(pitch % 12)) pitches.push(pitch);
+      }
+      return pitches;
+    });
+
+    const voicings: Voicing[] = [];
+    for (const bass of options[0]) {
+      for (const tenor of options[1]) {
+        if (tenor <= bass) continue;
+        for (const alto of options[2]) {
+          if (alto <= tenor || alto - tenor > 12) continue;
+          for (const soprano of options[3]) {
+            if (soprano <= alto || soprano - alto > 12) continue;
+
+            const pitches = [bass, tenor, alto, soprano];
+            const classes = pitches.map((pitch) => pitch % 12);
+            if (!required.every((pc) => classes.includes(pc))) continue;
+
+            let cost = bass % 12 === root ? 0 : INVERSION_PENALTY;
+            if (third !== undefined && classes.filter((pc) => pc === third).length > 1) {
+              cost += DOUBLED_THIRD_PENALTY;
+            }
+            voicings.push({ pitches, cost });
+          }
+        }
+      }
+    }
+
+    return voicings;
+  }
+
+  /**
+   * Total motion between two voicings plus penalties for broken rules
+   */
+  private getTransitionCost(previous: number[], current: number[]): number {
+    let cost = 0;
+
+    current.forEach((pitch, voice) => {
+      const leap = Math.abs(pitch - previous[voice]);
+      cost += leap;
+      if (leap > this.rules.maxInterval) cost += RULE_PENALTY;
+      if (this.rules.preferStepwiseMotion && voice > 0 && leap > 2) {
+        cost += (leap - 2) * LEAP_PENALTY;
+      }
+    });
+
+    return cost + this.findParallels(previous, current).length * RULE_PENALTY;
+  }
+
+  /**
+   * Pairs of voices moving in the same direction from one perfect fifth or octave (or unison)
+   * to another, for the parallels the rules forbid
+   */
+  private findParallels(
+    previous: number[],
+    current: number[]
+  ): Array<{ rule: "parallelFifths" | "parallelOctaves"; voices: [number, number] }> {
+    const parallels: Array<{
+      rule: "parallelFifths" | "parallelOctaves";
+      voices: [number, number];
+    }> = [];
+
+    for (let lower = 0; lower < current.length; lower++) {
+      for (let upper = lower + 1; upper < current.length; upper++) {
+        const lowerMotion = current[lower] - previous[lower];
+        const upperMotion = current[upper] - previous[upper];
+        if (lowerMotion === 0 || Math.sign(lowerMotion) !== Math.sign(upperMotion)) continue;
+
+        const before = (((previous[upper] - previous[lower]) % 12) + 12) % 12;
+        const after = (((current[upper] - current[lower]) % 12) + 12) % 12;
+        if (before === 7 && after === 7 && this.rules.avoidParallelFifths) {
+          parallels.push({ rule: "parallelFifths", voices: [lower, upper] });
+        }
+        if (before === 0 && after === 0 && this.rules.avoidParallelOctaves) {
+          parallels.push({ rule: "parallelOctaves", voices: [lower, upper] });
+        }
+      }
+    }
+
+    return parallels;
+  }
+
+  private getRegisterCost(voicing: Voicing): number {
+    return voicing.pitches.reduce(
+      (total, pitch, voice) =>
+        total +
+        Math.abs(pitch - (VOICE_RANGES[voice][0] + VOICE_RANGES[voice][1]) / 2) * REGISTER_WEIGHT,
+      0
+    );
+  }
+
+  private getVoices(chord: Chord): number[] {
+    return chord.notes.map((note) => note.pitch).sort((a, b) => a - b);
+  }
+
+  private toChord(original: Chord, voicing: Voicing): Chord {
+    const velocity = original.notes[0]?.velocity ?? 80;
+    const notes: Note[] = voicing.pitches.map((pitch) => ({
+      pitch,
+      velocity,
+      startTime: original.startTime,
+      duration: original.duration,
+    }));
+
+    return {
+      ...original,
+      notes,
+      id: voicing.pitches.map((pitch) => pitchToNoteName(pitch)).join("+"),
+    };
+  }
+}
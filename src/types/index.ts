@@ -66,6 +66,118 @@ export interface MarkovConfig {
   maxLength?: number;
   /** Temperature for generation (higher = more random, lower = more deterministic) */
   temperature?: number;
+  /** Seed for the random number generator (omit for Math.random) */
+  seed?: number;
+  /** Train every order 1..order and back off to shorter contexts with PPM escape probabilities */
+  variableOrder?: boolean;
+  /** How counts become probabilities (observed when missing), see SmoothingMethod */
+  smoothingMethod?: SmoothingMethod;
+  /** How generation picks each element (plain sampling when missing), see DecodingOptions */
+  decoding?: DecodingOptions;
+}
+
+/**
+ * How generation picks each next element from the temperature-scaled distribution
+ * Filters run in order minProbability, topK, topP; the most probable element always survives
+ */
+export interface DecodingOptions {
+  /** sample (default) draws from the filtered distribution, greedy takes the most probable */
+  strategy?: "sample" | "greedy";
+  /** Keep only the k most probable elements */
+  topK?: number;
+  /** Nucleus: keep the fewest most probable elements whose probabilities add up to p (0-1] */
+  topP?: number;
+  /** Drop elements less probable than this */
+  minProbability?: number;
+}
+
+// A generated sequence with its probability under the chain
+export interface ScoredSequence {
+  sequence: string[];
+  /** Natural log of the sequence's probability given its start context */
+  logProbability: number;
+}
+
+/**
+ * How a chain turns transition counts into probabilities
+ * - observed: `smoothing` is added to the elements already seen after a context only
+ * - additive: `smoothing` is added to every element of the vocabulary (add-k)
+ * - wittenBell: interpolates every context order down to a uniform distribution, escaping in
+ *   proportion to the number of distinct continuations (`smoothing` is unused)
+ * - absoluteDiscounting: subtracts a discount of `smoothing` (0-1) from every count and gives
+ *   the freed mass to the next lower order
+ * - kneserNey: absolute discounting whose lower orders count the distinct contexts an element
+ *   follows instead of its occurrences
+ */
+export type SmoothingMethod =
+  "observed" | "additive" | "wittenBell" | "absoluteDiscounting" | "kneserNey";
+
+// A single sampling step recorded during generation
+export interface GenerationStep {
+  step: number;
+  /** Context key the step was sampled from */
+  context: string;
+  availableTransitions: Array<{ element: string; probability: number }>;
+  selectedElement: string;
+  randomValue: number;
+  /** Context order the selected element was predicted from (0 = no context) */
+  order: number;
+}
+
+// Score of a single token of a sequence under a trained chain
+export interface TokenLogProbability {
+  token: string;
+  /** Context key the token was predicted from */
+  context: string;
+  /** Natural log of the token's probability (-Infinity when the chain cannot produce it) */
+  logProbability: number;
+  /** Context order the prediction came from (0 = no context or a fallback state) */
+  order: number;
+}
+
+/**
+ * Elements pinned at positions of a generated sequence, e.g. { 0: "C4", 15: "G4", [-1]: "C4" }
+ * A position may also accept any of several elements, e.g. { 0: ["C4", "E4", "G4"] }
+ * Negative positions count back from the end of the sequence
+ */
+export type PositionConstraints = Record<number, string | string[]>;
+
+/**
+ * How generation respects the current key's scale
+ * - off: no constraint (only the pitch range is enforced)
+ * - filter: out-of-scale continuations are removed
+ * - penalty: out-of-scale continuations are down-weighted
+ * - snap: generation is unchanged, output pitches are moved to the nearest scale tone
+ */
+export type ScaleConstraintMode = "off" | "filter" | "penalty" | "snap";
+
+/**
+ * How MusicMarkovChain represents pitches while training
+ * - absolute: note names ("C4", "E4+G4")
+ * - interval: semitone steps from the previous note ("+2", "-3", chords as "+5(4,7)")
+ * - degree: scale degrees in the key detected for each sequence, with octave ("1/4", "b3/4")
+ */
+export type PitchRepresentation = "absolute" | "interval" | "degree";
+
+/**
+ * How MusicMarkovChain relates notes and rhythms
+ * - independent: separate note and rhythm chains
+ * - joint: one chain over combined "C4:8" tokens
+ * - factored: notes from the note chain, each rhythm conditioned on the note it belongs to
+ */
+export type NoteRhythmCoupling = "independent" | "joint" | "factored";
+
+/**
+ * How a melody follows a chord progression:
+ * - bias: chord tones get the share of probability learned from melody/harmony co-occurrence
+ * - mask: only chord tones may sound while a chord is held
+ */
+export type ChordToneMode = "bias" | "mask";
+
+/** How often melody notes were chord tones of the harmony sounding with them */
+export interface ChordToneCount {
+  chordTones: number;
+  total: number;
 }
 
 // Generated Music Output
@@ -132,3 +244,59 @@ export interface OrderAnalysis {
   adaptationEvents: number;
   contextComplexity: number;
 }
+
+// Serialization Types
+export interface SerializedMarkovState {
+  /** Context key of the state */
+  id: string;
+  /** Transition entries as [nextElement, count] pairs (probabilities in format version 1) */
+  transitions: Array<[string, number]>;
+  /** Total count of times this state has been visited */
+  visitCount: number;
+}
+
+export interface SerializedMarkovChain {
+  /** Format version, bumped whenever the serialized layout changes */
+  formatVersion: number;
+  /** Class that produced the payload */
+  type: "MarkovChain" | "MusicMarkovChain";
+  config: MarkovConfig;
+  states: SerializedMarkovState[];
+  trainingData: string[][];
+}
+
+export interface SerializedMusicMarkovChain extends SerializedMarkovChain {
+  type: "MusicMarkovChain";
+  rhythmChain: SerializedMarkovChain;
+  /** Dynamics chain (missing in models saved before velocities were learned) */
+  velocityChain?: SerializedMarkovChain;
+  metricVelocity?: boolean;
+  /** Whether rhythm tokens are tagged with their position in the bar (off when missing) */
+  metricRhythm?: boolean;
+  /** Time signature of generated sequences (4/4 when missing) */
+  timeSignature?: string;
+  /** Note/rhythm coupling (independent when missing) */
+  rhythmCoupling?: NoteRhythmCoupling;
+  /** Rhythm given the current note, used by the factored coupling */
+  noteRhythmChain?: SerializedMarkovChain;
+  /** Chord-tone counts per metric position (D, B, O, W), learned from melody and harmony */
+  chordTones?: Record<string, ChordToneCount>;
+  harmonic: {
+    musicalKey: string;
+    detectedKey: string;
+    scale: number[];
+    tempo: number;
+    minPitch: number;
+    maxPitch: number;
+    /** Token representation the note chain was trained with (absolute when missing) */
+    pitchRepresentation?: PitchRepresentation;
+    /** First note when rendering relative tokens (the tonic when missing or null) */
+    startNote?: string | null;
+    /** How generation respects the key's scale (off when missing) */
+    scaleConstraint?: ScaleConstraintMode;
+    /** Weight multiplier for out-of-scale continuations in penalty mode (0.1 when missing) */
+    scalePenalty?: number;
+    /** Key regions of the training data (missing in older models) */
+    keyRegions?: Array<{ key: string; startTime: number; endTime: number; confidence: number }>;
+  };
+}
@@ -1,4 +1,5 @@
 import * as Tone from "tone";
+import { REST_NOTE, isRest, rhythmToBeats } from "@src/music/Rhythm";
 
 export interface NoteEvent {
   note: string;
@@ -162,6 +163,12 @@ export class AudioManager {
         const rhythm = rhythms[index] || rhythms[0] || "4";
         const noteDuration = this.parseRhythmToDuration(rhythm, beatDuration);
 
+        // Rests only advance time
+        if (note === REST_NOTE || isRest(rhythm)) {
+          currentTime += noteDuration;
+          return;
+        }
+
         Tone.getTransport().schedule((time) => {
           // Notify that this note is starting
           if (onNoteStart) {
@@ -291,31 +298,10 @@ export class AudioManager {
 
   /**
    * Parse rhythm string to duration in seconds
-   * This matches the rhythm parsing in MusicMarkovChain
+   * This matches the rhythm parsing in MusicMarkovChain (dotted, triplet, tied and rest tokens)
    */
   private parseRhythmToDuration(rhythmStr: string, beatDuration: number): number {
-    switch (rhythmStr) {
-      case "1":
-        return beatDuration * 4;
-      case "2":
-        return beatDuration * 2;
-      case "4":
-        return beatDuration;
-      case "8":
-        return beatDuration / 2;
-      case "16":
-        return beatDuration / 4;
-      case "32":
-        return beatDuration / 8;
-      case "64":
-        return beatDuration / 16;
-      case "128":
-        return beatDuration / 32;
-      case "256":
-        return beatDuration / 64;
-      default:
-        return beatDuration; // Default to quarter note
-    }
+    return rhythmToBeats(rhythmStr) * beatDuration;
   }
 
   stop(): void {
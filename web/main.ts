@@ -2,9 +2,11 @@ import { MusicMarkovChain } from "@src/music/MusicMarkovChain";
 import type { MarkovConfig } from "@src/types";
 import { AudioManager } from "./audioManager";
 import { MIDIParser } from "@src/input/MIDIParser";
+import { LeadSheetParser } from "@src/input/LeadSheetParser";
 import { AutomataAnalysis } from "@src/analysis/AutomataAnalysis";
 import { EntropyAnalysis } from "@src/analysis/EntropyAnalysis";
 import { ComplexityAnalysis } from "@src/analysis/ComplexityAnalysis";
+import { parseRhythmToken } from "@src/music/Rhythm";
 
 // DOM elements
 const trainingDataEl = document.getElementById("trainingData") as HTMLTextAreaElement;
@@ -125,9 +127,14 @@ tempoEl.addEventListener("input", () => {
 
 // Update config when order changes
 orderEl.addEventListener("change", () => {
+  // "auto" keeps the current order until training picks one
   const newOrder = parseInt(orderEl.value);
-  if (newOrder !== config.order) {
-    config.order = newOrder;
+  if (orderEl.value === "auto" || newOrder !== config.order) {
+    if (!isNaN(newOrder)) {
+      config.order = newOrder;
+      // Only the cross-validated order uses the smoothing method it was scored with
+      delete config.smoothingMethod;
+    }
     // Reset training state since order affects the model
     isTrained = false;
     currentSequence = [];
@@ -367,11 +374,8 @@ trainBtn.addEventListener("click", () => {
 
   try {
     // Parse training data with rhythm information
-    const sequences = trainingText
-      .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .map((line) => line.split(/\s+/));
+    const isLeadSheet = isLeadSheetText(trainingText);
+    const sequences = parseTrainingText(trainingText);
 
     // Parse all tokens uniformly - treat everything as musical tokens
     const musicSequences: string[][] = [];
@@ -401,6 +405,33 @@ trainBtn.addEventListener("click", () => {
     console.log("Parsed music sequences:", musicSequences);
     console.log("Parsed rhythm sequences:", rhythmSequences);
 
+    // "Auto" picks the order and smoothing that best predict held-out training sequences
+    let orderSelectionText = "";
+    if (orderEl.value === "auto") {
+      try {
+        const { best, results } = complexityAnalysis.crossValidateOrder(musicSequences, {
+          // 4 orders x 3 smoothing values x 3 folds: 36 chains per run
+          orders: [1, 2, 3, 4],
+          smoothingValues: [0.01, 0.1, 0.5],
+          folds: 3,
+        });
+        console.log("Cross-validation results:", results);
+        config.order = best.order;
+        config.smoothing = best.smoothing;
+        config.smoothingMethod = best.smoothingMethod;
+        smoothingEl.value = best.smoothing.toString();
+        const smoothingValueEl = document.getElementById("smoothingValue");
+        if (smoothingValueEl) {
+          smoothingValueEl.textContent = best.smoothing.toString();
+        }
+        orderSelectionText = `<strong>Cross-validated Order:</strong> ${best.order} (smoothing ${
+          best.smoothing
+        }, held-out perplexity ${results[0].perplexity.toFixed(2)})<br>`;
+      } catch (error) {
+        console.warn(`Cross-validation failed, keeping order ${config.order}:`, error);
+      }
+    }
+
     // Rather than just 'resetting' the markov chain
     // we'll create a completely new Markov chain instance with current config
     console.log("Training with config:", config);
@@ -409,14 +440,21 @@ trainBtn.addEventListener("click", () => {
     // Apply temperature to the chains
     musicChain.setTemperature(config.temperature || 1.0);
 
-    // Train with unified music sequences (treats all tokens equally)
-    console.log("Training with unified music sequences");
-    musicChain.trainWithMusic(musicSequences, rhythmSequences);
+    if (isLeadSheet) {
+      // Lead sheets are voiced chord progressions
+      console.log("Training with lead sheet chord sequences");
+      musicChain.trainWithPolyphonicMusic(musicSequences, rhythmSequences);
+    } else {
+      // Train with unified music sequences (treats all tokens equally)
+      console.log("Training with unified music sequences");
+      musicChain.trainWithMusic(musicSequences, rhythmSequences);
+    }
 
     // Update harmonic analysis display
     const detectedKey = musicChain.getDetectedKey();
     harmonicAnalysisEl.innerHTML = `
       <strong>Detected Key:</strong> ${detectedKey}<br>
+      ${orderSelectionText}
       <em>Analysis based on training data</em>
     `;
 
@@ -599,11 +637,7 @@ playTrainingBtn.addEventListener("click", async () => {
   }
 
   try {
-    const sequences = trainingText
-      .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .map((line) => line.split(/\s+/));
+    const sequences = parseTrainingText(trainingText);
 
     if (sequences.length === 0) {
       outputEl.textContent = "No valid sequences found.";
@@ -813,6 +847,28 @@ function updateFilesListDisplay(): void {
   filesList.innerHTML = filesHtml;
 }
 
+/**
+ * Lead sheets are recognized by their bar lines, e.g. "Cmaj7 | Am7 D7 | Gmaj7"
+ */
+function isLeadSheetText(text: string): boolean {
+  return text.includes("|");
+}
+
+/**
+ * Split training text into "note:rhythm" tokens per line, voicing lead sheets into chord tokens
+ */
+function parseTrainingText(text: string): string[][] {
+  if (isLeadSheetText(text)) {
+    return new LeadSheetParser().toTokens(text);
+  }
+
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => line.split(/\s+/));
+}
+
 // Get note name from pitch
 function getNoteName(pitch: number): string {
   const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
@@ -821,32 +877,21 @@ function getNoteName(pitch: number): string {
   return `${noteNames[idx]}${octave}`;
 }
 
-// Get rhythm fraction for display
+// Get rhythm fraction for display, e.g. "3/8" for "4." and "rest 1/8" for "r8"
 function getRhythmFraction(rhythm: string): string {
-  // Handle number format (4 = quarter, 8 = eighth, 16 = sixteenth, etc.)
-  if (/^\d+$/.test(rhythm)) {
-    const rhythmNumber = parseInt(rhythm, 10);
-    switch (rhythmNumber) {
-      case 1:
-        return "1";
-      case 2:
-        return "1/2";
-      case 4:
-        return "1/4";
-      case 8:
-        return "1/8";
-      case 16:
-        return "1/16";
-      case 32:
-        return "1/32";
-      default:
-        return `1/${rhythmNumber}`;
-    }
+  const parsed = parseRhythmToken(rhythm);
+  if (!parsed) {
+    // Fallback to quarter note
+    console.error("Rhythm information couldn't be parsed");
+    return `1/4`;
   }
 
-  // Fallback to quarter note
-  console.error("Rhythm information couldn't be parsed");
-  return `1/4`;
+  // Express the length as a reduced fraction of a whole note (96 ticks)
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const ticks = Math.round(parsed.beats * 24);
+  const divisor = gcd(ticks, 96);
+  const fraction = ticks === 96 ? "1" : `${ticks / divisor}/${96 / divisor}`;
+  return parsed.rest ? `rest ${fraction}` : fraction;
 }
 
 // Update UI state